@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "webhook_logs" ADD COLUMN     "dead_letter" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "replayed_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "webhook_logs_session_id_dead_letter_idx" ON "webhook_logs"("session_id", "dead_letter");
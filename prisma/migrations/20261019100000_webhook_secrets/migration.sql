@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "webhook_subscriptions" ADD COLUMN     "previous_secret" TEXT,
+ADD COLUMN     "previous_secret_expires_at" TIMESTAMP(3),
+ADD COLUMN     "secret" TEXT;
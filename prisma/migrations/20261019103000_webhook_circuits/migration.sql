@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "webhook_circuits" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "state" TEXT NOT NULL DEFAULT 'closed',
+    "consecutive_failures" INTEGER NOT NULL DEFAULT 0,
+    "last_error" TEXT,
+    "opened_at" TIMESTAMP(3),
+    "next_probe_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "webhook_circuits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "webhook_circuits_session_id_url_key" ON "webhook_circuits"("session_id", "url");
+
+-- AddForeignKey
+ALTER TABLE "webhook_circuits" ADD CONSTRAINT "webhook_circuits_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "webhook_subscriptions" ADD COLUMN     "ordered" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "webhook_logs" ADD COLUMN     "event_count" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "webhook_subscriptions" ADD COLUMN     "batch_enabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "batch_max_bytes" INTEGER NOT NULL DEFAULT 524288,
+ADD COLUMN     "batch_max_events" INTEGER NOT NULL DEFAULT 100,
+ADD COLUMN     "batch_max_wait_ms" INTEGER NOT NULL DEFAULT 2000;
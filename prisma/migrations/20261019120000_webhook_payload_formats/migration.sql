@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "webhook_subscriptions" ADD COLUMN     "cloud_events_mode" TEXT NOT NULL DEFAULT 'structured',
+ADD COLUMN     "headers" JSONB,
+ADD COLUMN     "payload_format" TEXT NOT NULL DEFAULT 'native',
+ADD COLUMN     "payload_template" JSONB;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "webhook_logs" ADD COLUMN     "delivery_id" TEXT,
+ADD COLUMN     "duration_ms" INTEGER,
+ADD COLUMN     "request_headers" JSONB,
+ADD COLUMN     "test" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "webhook_logs_delivery_id_idx" ON "webhook_logs"("delivery_id");
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "api_keys" ADD COLUMN     "tenant_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN     "tenant_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "tenants" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "max_sessions" INTEGER,
+    "webhook_url" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tenants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tenants_name_key" ON "tenants"("name");
+
+-- CreateIndex
+CREATE INDEX "api_keys_tenant_id_idx" ON "api_keys"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "sessions_tenant_id_idx" ON "sessions"("tenant_id");
+
+-- AddForeignKey
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
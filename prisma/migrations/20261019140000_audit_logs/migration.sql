@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "audit_logs" (
+    "id" TEXT NOT NULL,
+    "api_key_id" TEXT,
+    "api_key_name" TEXT NOT NULL,
+    "tenant_id" TEXT,
+    "method" TEXT NOT NULL,
+    "route" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "session_id" TEXT,
+    "target_jid" TEXT,
+    "status_code" INTEGER NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "error" TEXT,
+    "ip" TEXT,
+    "body" JSONB,
+    "duration_ms" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_logs_created_at_idx" ON "audit_logs"("created_at");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_session_id_created_at_idx" ON "audit_logs"("session_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_api_key_id_idx" ON "audit_logs"("api_key_id");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_tenant_id_idx" ON "audit_logs"("tenant_id");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "auth_credentials" ADD COLUMN     "key_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "auth_credentials_key_id_idx" ON "auth_credentials"("key_id");
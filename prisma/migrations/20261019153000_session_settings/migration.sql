@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN     "auto_reconnect" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "browser_name" TEXT,
+ADD COLUMN     "display_name" TEXT,
+ADD COLUMN     "mark_online_on_connect" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
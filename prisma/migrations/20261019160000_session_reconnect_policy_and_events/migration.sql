@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN     "reconnect_backoff" TEXT NOT NULL DEFAULT 'exponential',
+ADD COLUMN     "reconnect_base_delay_ms" INTEGER NOT NULL DEFAULT 1000,
+ADD COLUMN     "reconnect_give_up_action" TEXT NOT NULL DEFAULT 'close',
+ADD COLUMN     "reconnect_jitter" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "reconnect_max_attempts" INTEGER NOT NULL DEFAULT 5,
+ADD COLUMN     "reconnect_max_delay_ms" INTEGER NOT NULL DEFAULT 30000;
+
+-- CreateTable
+CREATE TABLE "session_events" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "prev_status" TEXT,
+    "reason_code" INTEGER,
+    "reason" TEXT,
+    "message" TEXT,
+    "attempt" INTEGER,
+    "delay_ms" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "session_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "session_events_session_id_created_at_idx" ON "session_events"("session_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "session_events" ADD CONSTRAINT "session_events_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN     "browser_platform" TEXT NOT NULL DEFAULT 'ubuntu',
+ADD COLUMN     "link_previews" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "proxy_url" TEXT,
+ADD COLUMN     "sync_full_history" BOOLEAN NOT NULL DEFAULT false;
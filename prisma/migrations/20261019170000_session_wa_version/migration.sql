@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN     "active_wa_version" TEXT,
+ADD COLUMN     "wa_version" TEXT;
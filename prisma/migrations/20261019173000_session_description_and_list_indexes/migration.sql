@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN     "description" TEXT;
+
+-- CreateIndex
+CREATE INDEX "sessions_created_at_idx" ON "sessions"("created_at");
+
+-- CreateIndex
+CREATE INDEX "sessions_tags_idx" ON "sessions" USING GIN ("tags");
+
+-- CreateIndex
+CREATE INDEX "webhook_logs_session_id_created_at_idx" ON "webhook_logs"("session_id", "created_at");
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN     "send_daily_cap" INTEGER,
+ADD COLUMN     "send_jitter_ms" INTEGER,
+ADD COLUMN     "send_rate_per_minute" INTEGER;
+
+-- CreateTable
+CREATE TABLE "outbound_messages" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "to" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "message_id" TEXT NOT NULL,
+    "error" TEXT,
+    "scheduled_at" TIMESTAMP(3) NOT NULL,
+    "sent_at" TIMESTAMP(3),
+    "delivered_at" TIMESTAMP(3),
+    "read_at" TIMESTAMP(3),
+    "failed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "outbound_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "outbound_messages_session_id_created_at_idx" ON "outbound_messages"("session_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "outbound_messages_session_id_message_id_idx" ON "outbound_messages"("session_id", "message_id");
+
+-- AddForeignKey
+ALTER TABLE "outbound_messages" ADD CONSTRAINT "outbound_messages_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "scheduled_messages" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "to" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "send_at" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "error" TEXT,
+    "outbound_message_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduled_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "scheduled_messages_session_id_send_at_idx" ON "scheduled_messages"("session_id", "send_at");
+
+-- CreateIndex
+CREATE INDEX "scheduled_messages_status_idx" ON "scheduled_messages"("status");
+
+-- AddForeignKey
+ALTER TABLE "scheduled_messages" ADD CONSTRAINT "scheduled_messages_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
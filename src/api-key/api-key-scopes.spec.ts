@@ -0,0 +1,63 @@
+import {
+  canAccessSession,
+  coversSessionPatterns,
+  hasRequiredScope,
+  matchesSessionPattern,
+  missingScopes,
+} from './api-key-scopes';
+
+describe('api key scopes', () => {
+  const key = (scopes: string[], tenantId: string | null = null) => ({
+    id: 'key-1',
+    tenantId,
+    name: 'crm',
+    scopes,
+    sessionIds: [],
+  });
+
+  it('grants a route when any required scope is held', () => {
+    expect(hasRequiredScope(key(['read-only', 'messages:send']), ['messages:send'])).toBe(true);
+    expect(hasRequiredScope(key(['read-only']), ['messages:send'])).toBe(false);
+    expect(hasRequiredScope(key(['*']), ['keys:admin'])).toBe(true);
+  });
+
+  it('never grants platform scopes to tenant keys', () => {
+    expect(hasRequiredScope(key(['*']), ['tenants:admin'])).toBe(true);
+    expect(hasRequiredScope(key(['*'], 'tenant-1'), ['tenants:admin'])).toBe(false);
+    expect(hasRequiredScope(key(['*'], 'tenant-1'), ['keys:admin'])).toBe(true);
+  });
+
+  it('matches session IDs exactly or by wildcard pattern', () => {
+    expect(matchesSessionPattern('sales-01', 'sales-01')).toBe(true);
+    expect(matchesSessionPattern('sales-01', 'sales-010')).toBe(false);
+    expect(matchesSessionPattern('sales-*', 'sales-010')).toBe(true);
+    expect(matchesSessionPattern('*-eu', 'support-eu')).toBe(true);
+    expect(matchesSessionPattern('sales-*', 'support-eu')).toBe(false);
+  });
+
+  it('allows every session when a key has no session restriction', () => {
+    const principal = key(['read-only']);
+
+    expect(canAccessSession(principal, 'anything')).toBe(true);
+    expect(canAccessSession({ ...principal, sessionIds: ['sales-*'] }, 'support-eu')).toBe(false);
+  });
+
+  it('lists the scopes a key does not hold', () => {
+    expect(missingScopes(key(['keys:admin', 'read-only']), ['read-only'])).toEqual([]);
+    expect(missingScopes(key(['keys:admin', 'read-only']), ['read-only', 'messages:send', '*'])).toEqual([
+      'messages:send',
+      '*',
+    ]);
+    expect(missingScopes(key(['*']), ['sessions:admin'])).toEqual([]);
+  });
+
+  it('only covers session patterns inside those of the key', () => {
+    const principal = { ...key(['keys:admin']), sessionIds: ['sales-*', 'support-eu'] };
+
+    expect(coversSessionPatterns(principal, ['sales-01', 'sales-eu-*', 'support-eu'])).toBe(true);
+    expect(coversSessionPatterns(principal, ['support-us'])).toBe(false);
+    expect(coversSessionPatterns(principal, ['*'])).toBe(false);
+    expect(coversSessionPatterns(principal, [])).toBe(false);
+    expect(coversSessionPatterns(key(['keys:admin']), [])).toBe(true);
+  });
+});
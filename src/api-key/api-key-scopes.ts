@@ -0,0 +1,80 @@
+export const API_KEY_SCOPES = [
+  '*',
+  'read-only',
+  'messages:send',
+  'chats:write',
+  'contacts:write',
+  'groups:write',
+  'profile:write',
+  'newsletters:write',
+  'webhooks:admin',
+  'sessions:admin',
+  'keys:admin',
+  'audit:read',
+  'tenants:admin',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+// Scopes that reach across tenants; tenant keys never get them, not even through `*`
+export const PLATFORM_SCOPES: readonly string[] = ['tenants:admin'];
+
+/**
+ * The caller behind a request, attached to it by `ApiKeyGuard`.
+ * `sessionIds` holds session IDs or `*` patterns; empty means every session.
+ * `tenantId` is null for platform keys, which see every tenant.
+ */
+export interface ApiKeyPrincipal {
+  id: string | null;
+  tenantId: string | null;
+  name: string;
+  scopes: string[];
+  sessionIds: string[];
+}
+
+// The env API_KEY (and open access when no key is configured) acts as an unrestricted key
+export const ROOT_PRINCIPAL: ApiKeyPrincipal = { id: null, tenantId: null, name: 'root', scopes: ['*'], sessionIds: [] };
+
+/**
+ * A key satisfies a route when it holds any of the required scopes, or `*`.
+ */
+export function hasRequiredScope(principal: ApiKeyPrincipal, required: readonly string[]): boolean {
+  const allowed = principal.tenantId ? required.filter((scope) => !PLATFORM_SCOPES.includes(scope)) : required;
+  if (allowed.length === 0) return false;
+  if (principal.scopes.includes('*')) return true;
+  return allowed.some((scope) => principal.scopes.includes(scope));
+}
+
+export function matchesSessionPattern(pattern: string, sessionId: string): boolean {
+  if (!pattern.includes('*')) return pattern === sessionId;
+  const regex = new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`);
+  return regex.test(sessionId);
+}
+
+export function canAccessSession(principal: ApiKeyPrincipal, sessionId: string): boolean {
+  if (principal.sessionIds.length === 0) return true;
+  return principal.sessionIds.some((pattern) => matchesSessionPattern(pattern, sessionId));
+}
+
+/**
+ * Scopes a key may not hand out because it does not hold them itself.
+ */
+export function missingScopes(principal: ApiKeyPrincipal, scopes: readonly string[]): string[] {
+  if (principal.scopes.includes('*')) return [];
+  return scopes.filter((scope) => !principal.scopes.includes(scope));
+}
+
+/**
+ * Whether every session a pattern list reaches is also reachable by the key, comparing
+ * patterns with patterns. An empty list reaches every session.
+ */
+export function coversSessionPatterns(principal: ApiKeyPrincipal, patterns: readonly string[]): boolean {
+  if (principal.sessionIds.length === 0) return true;
+  if (patterns.length === 0) return false;
+  // A `*` in the pattern can only be matched by a `*` of the key's pattern, so it never widens it
+  return patterns.every((pattern) => principal.sessionIds.some((own) => matchesSessionPattern(own, pattern)));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
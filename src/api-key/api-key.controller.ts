@@ -0,0 +1,35 @@
+import { Controller, Get, Post, Delete, Param, Body, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiSecurity, ApiParam } from '@nestjs/swagger';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator.js';
+import { CurrentApiKey } from '../common/decorators/current-api-key.decorator.js';
+import type { ApiKeyPrincipal } from './api-key-scopes.js';
+import { ApiKeyService } from './api-key.service.js';
+import { CreateApiKeyDto } from './dto/api-key.dto.js';
+
+@ApiTags('API Keys')
+@ApiSecurity('x-api-key')
+@RequireScopes('keys:admin')
+@Controller('api-keys')
+export class ApiKeyController {
+  constructor(private readonly apiKeyService: ApiKeyService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create an API key (the key is only returned in this response)' })
+  create(@Body() dto: CreateApiKeyDto, @CurrentApiKey() apiKey: ApiKeyPrincipal) {
+    return this.apiKeyService.create(dto, apiKey);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List API keys' })
+  list(@CurrentApiKey() apiKey: ApiKeyPrincipal) {
+    return this.apiKeyService.list(apiKey);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Revoke an API key' })
+  @ApiParam({ name: 'id', description: 'API key ID' })
+  revoke(@Param('id') id: string, @CurrentApiKey() apiKey: ApiKeyPrincipal) {
+    return this.apiKeyService.revoke(id, apiKey);
+  }
+}
@@ -0,0 +1,56 @@
+import { ForbiddenException } from '@nestjs/common';
+import { ApiKeyService } from './api-key.service';
+
+describe('ApiKeyService', () => {
+  function createService() {
+    const prisma = {
+      tenant: { findUnique: jest.fn().mockResolvedValue({ id: 'tenant-1' }) },
+      apiKey: {
+        create: jest.fn(({ data }) => Promise.resolve({ id: 'key-2', ...data })),
+      },
+    };
+    const service = new ApiKeyService(prisma as any, { get: jest.fn() } as any);
+    return { service, prisma };
+  }
+
+  const admin = {
+    id: 'key-1',
+    tenantId: null,
+    name: 'sales-admin',
+    scopes: ['keys:admin', 'read-only'],
+    sessionIds: ['sales-*'],
+  };
+
+  it('creates keys within the scopes and sessions of the caller', async () => {
+    const { service, prisma } = createService();
+
+    await expect(
+      service.create({ name: 'sales-eu', scopes: ['read-only'], sessionIds: ['sales-eu-*'] }, admin),
+    ).resolves.toEqual(expect.objectContaining({ scopes: ['read-only'], sessionIds: ['sales-eu-*'] }));
+    expect(prisma.apiKey.create).toHaveBeenCalled();
+  });
+
+  it('refuses scopes the caller does not hold', async () => {
+    const { service, prisma } = createService();
+
+    await expect(
+      service.create({ name: 'wider', scopes: ['read-only', 'messages:send'], sessionIds: ['sales-01'] }, admin),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(service.create({ name: 'root', scopes: ['*'], sessionIds: ['sales-01'] }, admin)).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+    expect(prisma.apiKey.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses sessions outside those of the caller', async () => {
+    const { service, prisma } = createService();
+
+    await expect(
+      service.create({ name: 'support', scopes: ['read-only'], sessionIds: ['support-eu'] }, admin),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(service.create({ name: 'everything', scopes: ['read-only'] }, admin)).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+    expect(prisma.apiKey.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,180 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { PrismaService } from '../prisma/prisma.service.js';
+import {
+  PLATFORM_SCOPES,
+  ROOT_PRINCIPAL,
+  coversSessionPatterns,
+  missingScopes,
+  type ApiKeyPrincipal,
+} from './api-key-scopes.js';
+import { CreateApiKeyDto } from './dto/api-key.dto.js';
+
+const KEY_PREFIX = 'bsk_';
+// How long the "are there any keys" answer is trusted before asking the database again
+const ACTIVE_KEYS_CACHE_MS = 30_000;
+// lastUsedAt is only written when it is older than this, to avoid a write per request
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+@Injectable()
+export class ApiKeyService {
+  private readonly logger = new Logger(ApiKeyService.name);
+  private activeKeysCache?: { value: boolean; expiresAt: number };
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Resolve the caller for a key presented over HTTP or the WebSocket handshake.
+   * API_KEY is a root key; without it and without database keys access is open.
+   */
+  async resolvePrincipal(key: string | undefined): Promise<ApiKeyPrincipal> {
+    const configuredKey = this.configService.get<string>('API_KEY');
+
+    if (!configuredKey && !(await this.hasActiveKeys())) return ROOT_PRINCIPAL;
+    if (!key) throw new UnauthorizedException('API key is required');
+    if (configuredKey && safeEqual(key, configuredKey)) return ROOT_PRINCIPAL;
+
+    const principal = await this.authenticate(key);
+    if (!principal) throw new UnauthorizedException('Invalid API key');
+    return principal;
+  }
+
+  /**
+   * Create a key. The plain key is returned only here; the database keeps its SHA-256 hash.
+   * Tenant keys can only create keys for their own tenant, and no key can create one with
+   * scopes or sessions beyond its own.
+   */
+  async create(dto: CreateApiKeyDto, caller: ApiKeyPrincipal) {
+    if (caller.tenantId && dto.tenantId && dto.tenantId !== caller.tenantId) {
+      throw new ForbiddenException('Tenant API keys can only create keys for their own tenant');
+    }
+    const tenantId = caller.tenantId ?? dto.tenantId ?? null;
+    if (tenantId) {
+      const tenant = await this.prisma.tenant.findUnique({ where: { id: tenantId } });
+      if (!tenant) throw new NotFoundException(`Tenant "${tenantId}" not found`);
+      if (dto.scopes.some((scope) => PLATFORM_SCOPES.includes(scope))) {
+        throw new BadRequestException(`Tenant keys cannot have the ${PLATFORM_SCOPES.join(', ')} scope`);
+      }
+    }
+
+    const missing = missingScopes(caller, dto.scopes);
+    if (missing.length > 0) {
+      throw new ForbiddenException(`API keys can only grant scopes they hold; missing ${missing.join(', ')}`);
+    }
+    const sessionIds = dto.sessionIds ?? [];
+    if (!coversSessionPatterns(caller, sessionIds)) {
+      throw new ForbiddenException('API keys can only grant access to sessions they can access themselves');
+    }
+
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : null;
+    if (expiresAt && expiresAt <= new Date()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        tenantId,
+        name: dto.name,
+        keyPrefix: key.slice(0, KEY_PREFIX.length + 8),
+        keyHash: hashKey(key),
+        scopes: [...new Set(dto.scopes)],
+        sessionIds,
+        expiresAt,
+      },
+      omit: { keyHash: true },
+    });
+
+    this.activeKeysCache = undefined;
+    this.logger.log(`Created API key "${apiKey.name}" (${apiKey.keyPrefix}…)`);
+    return { ...apiKey, key };
+  }
+
+  async list(caller: ApiKeyPrincipal) {
+    return this.prisma.apiKey.findMany({
+      where: caller.tenantId ? { tenantId: caller.tenantId } : undefined,
+      omit: { keyHash: true },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async revoke(id: string, caller: ApiKeyPrincipal) {
+    const apiKey = await this.prisma.apiKey.findFirst({
+      where: { id, ...(caller.tenantId ? { tenantId: caller.tenantId } : {}) },
+    });
+    if (!apiKey) throw new NotFoundException(`API key "${id}" not found`);
+
+    if (!apiKey.revokedAt) {
+      await this.prisma.apiKey.update({ where: { id }, data: { revokedAt: new Date() } });
+      this.activeKeysCache = undefined;
+      this.logger.log(`Revoked API key "${apiKey.name}" (${apiKey.keyPrefix}…)`);
+    }
+    return { id, status: 'revoked' };
+  }
+
+  /**
+   * Resolve a presented key to its principal, or null when it is unknown, revoked or expired.
+   */
+  async authenticate(key: string): Promise<ApiKeyPrincipal | null> {
+    const apiKey = await this.prisma.apiKey.findUnique({ where: { keyHash: hashKey(key) } });
+    if (!apiKey || apiKey.revokedAt) return null;
+
+    const now = new Date();
+    if (apiKey.expiresAt && apiKey.expiresAt <= now) return null;
+
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      this.prisma.apiKey
+        .update({ where: { id: apiKey.id }, data: { lastUsedAt: now } })
+        .catch((err: unknown) => {
+          this.logger.warn(`Failed to update lastUsedAt: ${err instanceof Error ? err.message : String(err)}`);
+        });
+    }
+
+    return {
+      id: apiKey.id,
+      tenantId: apiKey.tenantId,
+      name: apiKey.name,
+      scopes: apiKey.scopes,
+      sessionIds: apiKey.sessionIds,
+    };
+  }
+
+  /**
+   * Whether any usable key exists. Without one (and without API_KEY) the API stays open.
+   */
+  async hasActiveKeys(): Promise<boolean> {
+    if (this.activeKeysCache && this.activeKeysCache.expiresAt > Date.now()) {
+      return this.activeKeysCache.value;
+    }
+
+    const count = await this.prisma.apiKey.count({
+      where: {
+        revokedAt: null,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
+    });
+    this.activeKeysCache = { value: count > 0, expiresAt: Date.now() + ACTIVE_KEYS_CACHE_MS };
+    return count > 0;
+  }
+}
@@ -0,0 +1,43 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ArrayNotEmpty, IsArray, IsIn, IsISO8601, IsNotEmpty, IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+import { API_KEY_SCOPES } from '../api-key-scopes.js';
+
+export class CreateApiKeyDto {
+  @ApiProperty({ description: 'Name to recognise the key by', example: 'crm-production' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name!: string;
+
+  @ApiProperty({
+    description: 'Scopes granted to the key (* grants everything)',
+    enum: API_KEY_SCOPES,
+    isArray: true,
+    example: ['read-only', 'messages:send'],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(API_KEY_SCOPES, { each: true })
+  scopes!: string[];
+
+  @ApiPropertyOptional({
+    description: 'Session IDs or * patterns the key may access (empty = all sessions)',
+    example: ['sales-*', 'support-main'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @Matches(/^[a-zA-Z0-9_*-]+$/, { each: true, message: 'Each session pattern may only contain letters, digits, -, _ and *' })
+  sessionIds?: string[];
+
+  @ApiPropertyOptional({ description: 'Expiry time (ISO 8601); never expires when omitted' })
+  @IsOptional()
+  @IsISO8601()
+  expiresAt?: string;
+
+  @ApiPropertyOptional({ description: 'Tenant the key belongs to (platform keys only; tenant keys use their own)' })
+  @IsOptional()
+  @IsString()
+  tenantId?: string;
+}
@@ -1,10 +1,12 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { EventEmitterModule } from '@nestjs/event-emitter';
-import { APP_GUARD } from '@nestjs/core';
+import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
 import { ThrottlerGuard, ThrottlerModule } from '@nestjs/throttler';
 import { ApiKeyGuard } from './common/guards/api-key.guard.js';
+import { AuditInterceptor } from './common/interceptors/audit.interceptor.js';
 import { PrismaModule } from './prisma/prisma.module.js';
+import { ClusterModule } from './cluster/cluster.module.js';
 import { QueueModule } from './queue/queue.module.js';
 import { SessionModule } from './session/session.module.js';
 import { MessagingModule } from './messaging/messaging.module.js';
@@ -13,6 +15,10 @@ import { ChatModule } from './chat/chat.module.js';
 import { ContactModule } from './contact/contact.module.js';
 import { MiscModule } from './misc/misc.module.js';
 import { HealthModule } from './health/health.module.js';
+import { WebhookModule } from './webhook/webhook.module.js';
+import { ApiKeyModule } from './api-key/api-key.module.js';
+import { TenantModule } from './tenant/tenant.module.js';
+import { AuditModule } from './audit/audit.module.js';
 
 @Module({
   imports: [
@@ -25,8 +31,13 @@ import { HealthModule } from './health/health.module.js';
     ]),
     EventEmitterModule.forRoot({ wildcard: true }),
     PrismaModule,
+    ClusterModule,
+    TenantModule,
+    ApiKeyModule,
+    AuditModule,
     QueueModule,
     SessionModule,
+    WebhookModule,
     MessagingModule,
     GroupModule,
     ChatModule,
@@ -43,6 +54,10 @@ import { HealthModule } from './health/health.module.js';
       provide: APP_GUARD,
       useClass: ApiKeyGuard,
     },
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: AuditInterceptor,
+    },
   ],
 })
 export class AppModule {}
@@ -0,0 +1,49 @@
+import { resolveTargetJid, summarizeRequestBody } from './audit-summary';
+
+describe('summarizeRequestBody', () => {
+  it('keeps identifiers and drops secrets and message content', () => {
+    expect(
+      summarizeRequestBody({
+        to: '6281234567890',
+        text: 'Hello there',
+        secret: 'whsec_0123456789abcdef',
+        headers: { Authorization: 'Bearer abc' },
+        participants: ['628111@s.whatsapp.net', '628222@s.whatsapp.net'],
+        action: 'remove',
+      }),
+    ).toEqual({
+      to: '6281234567890',
+      text: '[redacted: 11 chars]',
+      secret: '[redacted]',
+      headers: '[redacted]',
+      participants: ['628111@s.whatsapp.net', '628222@s.whatsapp.net'],
+      action: 'remove',
+    });
+  });
+
+  it('truncates long strings and collapses large or deep values', () => {
+    const summary = summarizeRequestBody({
+      url: `https://example.com/${'a'.repeat(200)}`,
+      ids: Array.from({ length: 50 }, (_, i) => `id-${i}`),
+      options: { nested: { deeper: { value: 1 } } },
+    });
+
+    expect(summary?.url).toHaveLength(101);
+    expect(summary?.ids).toBe('[array(50)]');
+    expect(summary?.options).toEqual({ nested: { deeper: '[object]' } });
+  });
+
+  it('returns null for missing or non-object bodies', () => {
+    expect(summarizeRequestBody(undefined)).toBeNull();
+    expect(summarizeRequestBody('raw')).toBeNull();
+    expect(summarizeRequestBody([1, 2])).toBeNull();
+  });
+});
+
+describe('resolveTargetJid', () => {
+  it('prefers route params over body fields', () => {
+    expect(resolveTargetJid({ groupId: '123@g.us' }, { to: '628111' })).toBe('123@g.us');
+    expect(resolveTargetJid({ sessionId: 'main' }, { to: '628111' })).toBe('628111');
+    expect(resolveTargetJid({ sessionId: 'main' }, { name: 'x' })).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+// Credentials are never stored, not even truncated
+const SECRET_FIELD = /secret|password|token|api-?key|authorization|^headers$/i;
+
+// Message content and media are reduced to their size
+const CONTENT_FIELDS = new Set([
+  'text',
+  'caption',
+  'content',
+  'message',
+  'body',
+  'data',
+  'media',
+  'base64',
+  'buffer',
+  'payloadTemplate',
+  'bundle',
+]);
+
+const MAX_STRING_LENGTH = 100;
+const MAX_ARRAY_ITEMS = 20;
+const MAX_DEPTH = 2;
+
+// Route params and body fields naming the chat, group or contact an action targets, in priority order
+const TARGET_FIELDS = ['jid', 'groupId', 'newsletterJid', 'to', 'participant'];
+
+/**
+ * Reduce a request body to what an audit entry needs: field names and short
+ * identifiers stay readable, secrets are dropped and message content is replaced
+ * by its length.
+ */
+export function summarizeRequestBody(body: unknown): Record<string, unknown> | null {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return null;
+  return summarizeObject(body as Record<string, unknown>, 0);
+}
+
+export function resolveTargetJid(
+  params: Record<string, string | undefined> = {},
+  body: unknown = undefined,
+): string | null {
+  const fields = body && typeof body === 'object' ? (body as Record<string, unknown>) : {};
+  for (const name of TARGET_FIELDS) {
+    const value = params[name] ?? fields[name];
+    if (typeof value === 'string' && value) return value;
+  }
+  return null;
+}
+
+function summarizeObject(value: Record<string, unknown>, depth: number): Record<string, unknown> {
+  const summary: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (SECRET_FIELD.test(key)) {
+      summary[key] = '[redacted]';
+    } else if (CONTENT_FIELDS.has(key)) {
+      summary[key] = typeof field === 'string' ? `[redacted: ${field.length} chars]` : '[redacted]';
+    } else {
+      summary[key] = summarizeValue(field, depth);
+    }
+  }
+  return summary;
+}
+
+function summarizeValue(value: unknown, depth: number): unknown {
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}…` : value;
+  }
+  if (Array.isArray(value)) {
+    if (depth >= MAX_DEPTH || value.length > MAX_ARRAY_ITEMS) return `[array(${value.length})]`;
+    return value.map((item) => summarizeValue(item, depth + 1));
+  }
+  if (value && typeof value === 'object') {
+    if (depth >= MAX_DEPTH) return '[object]';
+    return summarizeObject(value as Record<string, unknown>, depth + 1);
+  }
+  return value;
+}
@@ -0,0 +1,21 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiSecurity } from '@nestjs/swagger';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator.js';
+import { CurrentApiKey } from '../common/decorators/current-api-key.decorator.js';
+import type { ApiKeyPrincipal } from '../api-key/api-key-scopes.js';
+import { AuditService } from './audit.service.js';
+import { ListAuditLogsDto } from './dto/audit.dto.js';
+
+@ApiTags('Audit')
+@ApiSecurity('x-api-key')
+@RequireScopes('audit:read')
+@Controller('audit')
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List recorded administrative and outbound actions (newest first)' })
+  list(@Query() query: ListAuditLogsDto, @CurrentApiKey() apiKey: ApiKeyPrincipal) {
+    return this.auditService.list(query, apiKey);
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { AuditService } from './audit.service.js';
+import { AuditController } from './audit.controller.js';
+
+@Module({
+  providers: [AuditService],
+  controllers: [AuditController],
+  exports: [AuditService],
+})
+export class AuditModule {}
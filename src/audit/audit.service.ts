@@ -0,0 +1,89 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type { Prisma } from '../generated/prisma/client/client.js';
+import { PrismaService } from '../prisma/prisma.service.js';
+import type { ApiKeyPrincipal } from '../api-key/api-key-scopes.js';
+import { ListAuditLogsDto } from './dto/audit.dto.js';
+
+export interface AuditEntry {
+  apiKey: ApiKeyPrincipal;
+  method: string;
+  route: string;
+  path: string;
+  sessionId: string | null;
+  targetJid: string | null;
+  statusCode: number;
+  error?: string;
+  ip: string | null;
+  body: Record<string, unknown> | null;
+  durationMs: number;
+}
+
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Persist an audit entry. Never throws: a failed audit write must not fail the
+   * request it describes.
+   */
+  async record(entry: AuditEntry): Promise<void> {
+    try {
+      await this.prisma.auditLog.create({
+        data: {
+          apiKeyId: entry.apiKey.id,
+          apiKeyName: entry.apiKey.name,
+          tenantId: entry.apiKey.tenantId,
+          method: entry.method,
+          route: entry.route,
+          path: entry.path,
+          sessionId: entry.sessionId,
+          targetJid: entry.targetJid,
+          statusCode: entry.statusCode,
+          success: entry.statusCode < 400,
+          error: entry.error,
+          ip: entry.ip,
+          body: (entry.body ?? undefined) as Prisma.InputJsonValue | undefined,
+          durationMs: entry.durationMs,
+        },
+      });
+    } catch (err) {
+      this.logger.error(`Failed to write audit entry for ${entry.method} ${entry.path}: ${(err as Error).message}`);
+    }
+  }
+
+  /**
+   * List audit entries, newest first. Tenant keys only see actions of their tenant.
+   */
+  async list(query: ListAuditLogsDto, caller: ApiKeyPrincipal) {
+    const where: Prisma.AuditLogWhereInput = {};
+    if (caller.tenantId) where.tenantId = caller.tenantId;
+    if (query.sessionId) where.sessionId = query.sessionId;
+    if (query.apiKeyId) where.apiKeyId = query.apiKeyId;
+    if (query.targetJid) where.targetJid = query.targetJid;
+    if (query.method) where.method = query.method;
+    if (query.success !== undefined) where.success = query.success;
+    if (query.from || query.to) {
+      where.createdAt = {
+        ...(query.from ? { gte: new Date(query.from) } : {}),
+        ...(query.to ? { lt: new Date(query.to) } : {}),
+      };
+    }
+
+    const limit = query.limit ?? 50;
+    const offset = query.offset ?? 0;
+
+    const [entries, total] = await Promise.all([
+      this.prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset,
+      }),
+      this.prisma.auditLog.count({ where }),
+    ]);
+
+    return { entries, total, limit, offset };
+  }
+}
@@ -0,0 +1,56 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsIn, IsInt, IsISO8601, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class ListAuditLogsDto {
+  @ApiPropertyOptional({ description: 'Only actions on this session' })
+  @IsOptional()
+  @IsString()
+  sessionId?: string;
+
+  @ApiPropertyOptional({ description: 'Only actions by this API key' })
+  @IsOptional()
+  @IsString()
+  apiKeyId?: string;
+
+  @ApiPropertyOptional({ description: 'Only actions targeting this chat, group or contact JID' })
+  @IsOptional()
+  @IsString()
+  targetJid?: string;
+
+  @ApiPropertyOptional({ description: 'HTTP method', enum: ['POST', 'PUT', 'PATCH', 'DELETE'] })
+  @IsOptional()
+  @IsIn(['POST', 'PUT', 'PATCH', 'DELETE'])
+  method?: string;
+
+  @ApiPropertyOptional({ description: 'Only succeeded (true) or failed (false) actions' })
+  @IsOptional()
+  @Transform(({ obj, key }: { obj: Record<string, unknown>; key: string }) =>
+    obj[key] === 'true' ? true : obj[key] === 'false' ? false : obj[key],
+  )
+  @IsBoolean()
+  success?: boolean;
+
+  @ApiPropertyOptional({ description: 'Recorded at or after this time (ISO 8601)', example: '2026-01-01T00:00:00.000Z' })
+  @IsOptional()
+  @IsISO8601()
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'Recorded before this time (ISO 8601)' })
+  @IsOptional()
+  @IsISO8601()
+  to?: string;
+
+  @ApiPropertyOptional({ description: 'Limit', default: 50 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+
+  @ApiPropertyOptional({ description: 'Offset', default: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
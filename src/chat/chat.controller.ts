@@ -1,5 +1,6 @@
 import { Controller, Get, Post, Param, Body, Query, ParseIntPipe, DefaultValuePipe } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiSecurity, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator.js';
 import { ChatService } from './chat.service.js';
 import {
   ArchiveChatDto,
@@ -12,11 +13,13 @@ import {
 
 @ApiTags('Chat')
 @ApiSecurity('x-api-key')
+@RequireScopes('chats:write')
 @Controller(':sessionId/chats')
 export class ChatController {
   constructor(private readonly chatService: ChatService) {}
 
   @Get()
+  @RequireScopes('read-only')
   @ApiOperation({ summary: 'Get all chats (from database)' })
   @ApiParam({ name: 'sessionId' })
   @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Limit (default: 50)' })
@@ -65,6 +68,7 @@ export class ChatController {
   }
 
   @Get(':jid/messages')
+  @RequireScopes('read-only')
   @ApiOperation({ summary: 'Fetch messages from a chat' })
   @ApiParam({ name: 'sessionId' })
   @ApiParam({ name: 'jid', description: 'Chat JID' })
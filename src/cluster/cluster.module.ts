@@ -0,0 +1,9 @@
+import { Global, Module } from '@nestjs/common';
+import { ClusterService } from './cluster.service.js';
+
+@Global()
+@Module({
+  providers: [ClusterService],
+  exports: [ClusterService],
+})
+export class ClusterModule {}
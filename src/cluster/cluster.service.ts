@@ -0,0 +1,310 @@
+import { Injectable, Logger, OnApplicationShutdown, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Redis } from 'ioredis';
+import * as crypto from 'crypto';
+import * as os from 'os';
+
+const KEY_PREFIX = 'baileys:cluster';
+
+// Take the lease when it is free or already ours, refreshing its TTL
+const CLAIM_SCRIPT = `
+local owner = redis.call('GET', KEYS[1])
+if not owner or owner == ARGV[1] then
+  redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+  return 1
+end
+return 0`;
+
+// Only the owner may release its lease
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0`;
+
+interface ClusterMessage<T> {
+  origin: string;
+  payload: T;
+}
+
+interface ClusterRequest {
+  id: string;
+  replyTo: string;
+  method: string;
+  payload: unknown;
+}
+
+interface ClusterReply {
+  id: string;
+  result?: unknown;
+  error?: string;
+}
+
+interface PendingCall {
+  resolve: (result: unknown) => void;
+  reject: (err: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+const DEFAULT_CALL_TIMEOUT_MS = 30000;
+
+/**
+ * Coordinates replicas through Redis. Every WhatsApp socket is owned by exactly one
+ * instance, recorded as a lease that the owner renews while it runs; when an instance
+ * dies its leases expire and other replicas take the sessions over. Instances also
+ * advertise their internal URL so requests can be forwarded to a session's owner.
+ */
+@Injectable()
+export class ClusterService implements OnModuleInit, OnApplicationShutdown {
+  private readonly logger = new Logger(ClusterService.name);
+  private readonly redis: Redis;
+  private readonly subscriber: Redis;
+  private readonly ownedLeases = new Set<string>();
+  private readonly handlers = new Map<string, ((payload: unknown) => void)[]>();
+  private readonly methods = new Map<string, (payload: unknown) => Promise<unknown>>();
+  private readonly pendingCalls = new Map<string, PendingCall>();
+  private renewTimer?: NodeJS.Timeout;
+  // Signs requests forwarded between replicas; CLUSTER_SECRET, or one generated once and kept in Redis
+  private forwardSecret?: string;
+  private readonly configuredForwardSecret?: string;
+
+  readonly instanceId: string;
+  readonly instanceUrl: string;
+  readonly leaseTtlMs: number;
+
+  constructor(
+    configService: ConfigService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {
+    this.instanceId = configService.get<string>('INSTANCE_ID') || `${os.hostname()}-${crypto.randomBytes(4).toString('hex')}`;
+    this.instanceUrl =
+      configService.get<string>('INSTANCE_URL') || `http://${os.hostname()}:${configService.get<string>('PORT', '3000')}`;
+    this.leaseTtlMs = Number(configService.get('SESSION_LEASE_TTL_MS', 30000));
+    this.configuredForwardSecret = configService.get<string>('CLUSTER_SECRET') || undefined;
+
+    this.redis = new Redis({
+      host: configService.get<string>('REDIS_HOST', 'localhost'),
+      port: Number(configService.get('REDIS_PORT', 6379)),
+      password: configService.get<string>('REDIS_PASSWORD') || undefined,
+    });
+    this.subscriber = this.redis.duplicate();
+    this.subscriber.on('message', (channel: string, raw: string) => this.dispatch(channel, raw));
+  }
+
+  async onModuleInit() {
+    this.subscribe<ClusterRequest>(`rpc:${this.instanceId}`, (request) => void this.answer(request));
+    this.subscribe<ClusterReply>(`rpc-reply:${this.instanceId}`, (reply) => this.settle(reply));
+    await this.loadForwardSecret();
+    await this.heartbeat();
+    // Renew well before expiry so one slow round trip does not cost the leases
+    this.renewTimer = setInterval(() => {
+      this.renewLeases().catch((err) => this.logger.error(`Failed to renew session leases: ${err}`));
+    }, Math.max(Math.floor(this.leaseTtlMs / 3), 1000));
+    this.logger.log(`Instance "${this.instanceId}" reachable at ${this.instanceUrl}`);
+  }
+
+  async onApplicationShutdown() {
+    if (this.renewTimer) clearInterval(this.renewTimer);
+    for (const [id, call] of this.pendingCalls) {
+      clearTimeout(call.timer);
+      call.reject(new Error('Instance is shutting down'));
+      this.pendingCalls.delete(id);
+    }
+    await this.redis.del(this.instanceKey(this.instanceId)).catch(() => undefined);
+    this.subscriber.disconnect();
+    await this.redis.quit().catch(() => undefined);
+  }
+
+  /**
+   * Claim the lease of a session. Returns false when another live instance owns it;
+   * claiming a lease this instance already holds succeeds.
+   */
+  async acquireLease(sessionId: string): Promise<boolean> {
+    const claimed = await this.redis.eval(CLAIM_SCRIPT, 1, this.leaseKey(sessionId), this.instanceId, this.leaseTtlMs);
+    if (claimed !== 1) return false;
+    this.ownedLeases.add(sessionId);
+    return true;
+  }
+
+  async releaseLease(sessionId: string): Promise<void> {
+    this.ownedLeases.delete(sessionId);
+    await this.redis.eval(RELEASE_SCRIPT, 1, this.leaseKey(sessionId), this.instanceId);
+  }
+
+  getLeaseOwner(sessionId: string): Promise<string | null> {
+    return this.redis.get(this.leaseKey(sessionId));
+  }
+
+  getInstanceUrl(instanceId: string): Promise<string | null> {
+    return this.redis.get(this.instanceKey(instanceId));
+  }
+
+  /**
+   * Read a value shared by all instances (see `setShared`).
+   */
+  getShared(key: string): Promise<string | null> {
+    return this.redis.get(this.sharedKey(key));
+  }
+
+  async setShared(key: string, value: string, ttlMs: number): Promise<void> {
+    await this.redis.set(this.sharedKey(key), value, 'PX', ttlMs);
+  }
+
+  async deleteShared(key: string): Promise<void> {
+    await this.redis.del(this.sharedKey(key));
+  }
+
+  /**
+   * Send a message to every other instance listening on `channel`.
+   */
+  async publish<T>(channel: string, payload: T): Promise<void> {
+    const message: ClusterMessage<T> = { origin: this.instanceId, payload };
+    await this.redis.publish(this.channelKey(channel), JSON.stringify(message));
+  }
+
+  subscribe<T>(channel: string, handler: (payload: T) => void) {
+    const handlers = this.handlers.get(channel);
+    if (handlers) {
+      handlers.push(handler);
+      return;
+    }
+    this.handlers.set(channel, [handler]);
+    this.subscriber
+      .subscribe(this.channelKey(channel))
+      .catch((err) => this.logger.error(`Failed to subscribe to cluster channel "${channel}": ${err}`));
+  }
+
+  /**
+   * Run `method` on another instance, where it is registered with `handle`, and
+   * wait for its result. Rejects with the handler's error message, or when the
+   * instance does not answer within `timeoutMs`.
+   */
+  call<T>(instanceId: string, method: string, payload: unknown, timeoutMs = DEFAULT_CALL_TIMEOUT_MS): Promise<T> {
+    const id = crypto.randomUUID();
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingCalls.delete(id);
+        reject(new Error(`Instance "${instanceId}" did not answer "${method}" within ${timeoutMs}ms`));
+      }, timeoutMs);
+      this.pendingCalls.set(id, { resolve, reject, timer });
+
+      const request: ClusterRequest = { id, replyTo: this.instanceId, method, payload };
+      this.publish(`rpc:${instanceId}`, request).catch((err) => {
+        clearTimeout(timer);
+        this.pendingCalls.delete(id);
+        reject(err instanceof Error ? err : new Error(String(err)));
+      });
+    });
+  }
+
+  handle<T, R>(method: string, handler: (payload: T) => Promise<R>) {
+    this.methods.set(method, handler);
+  }
+
+  private async answer({ id, replyTo, method, payload }: ClusterRequest) {
+    const handler = this.methods.get(method);
+    let reply: ClusterReply;
+    try {
+      if (!handler) throw new Error(`Unknown cluster method "${method}"`);
+      reply = { id, result: await handler(payload) };
+    } catch (err) {
+      reply = { id, error: err instanceof Error ? err.message : String(err) };
+    }
+    await this.publish(`rpc-reply:${replyTo}`, reply).catch((err) =>
+      this.logger.error(`Failed to answer "${method}" from instance "${replyTo}": ${err}`),
+    );
+  }
+
+  private settle({ id, result, error }: ClusterReply) {
+    const call = this.pendingCalls.get(id);
+    if (!call) return;
+    clearTimeout(call.timer);
+    this.pendingCalls.delete(id);
+    if (error !== undefined) call.reject(new Error(error));
+    else call.resolve(result);
+  }
+
+  /**
+   * Sign a request forwarded to another replica, so the receiver can tell it from a
+   * client request carrying the same headers.
+   */
+  signForward(message: string): string {
+    if (!this.forwardSecret) throw new Error('Cluster secret is not loaded yet');
+    return crypto.createHmac('sha256', this.forwardSecret).update(message).digest('hex');
+  }
+
+  verifyForward(message: string, signature: string): boolean {
+    if (!this.forwardSecret) return false;
+    const expected = Buffer.from(this.signForward(message));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  private async loadForwardSecret() {
+    if (this.configuredForwardSecret) {
+      this.forwardSecret = this.configuredForwardSecret;
+      return;
+    }
+    // The first replica to start picks the secret; the others read it
+    const key = this.sharedKey('forward-secret');
+    await this.redis.set(key, crypto.randomBytes(32).toString('hex'), 'NX');
+    this.forwardSecret = (await this.redis.get(key)) ?? undefined;
+  }
+
+  private async renewLeases() {
+    await this.heartbeat();
+
+    const sessionIds = [...this.ownedLeases];
+    if (sessionIds.length === 0) return;
+
+    const pipeline = this.redis.pipeline();
+    for (const sessionId of sessionIds) {
+      pipeline.eval(CLAIM_SCRIPT, 1, this.leaseKey(sessionId), this.instanceId, this.leaseTtlMs);
+    }
+    const results = (await pipeline.exec()) ?? [];
+
+    results.forEach(([err, claimed], index) => {
+      const sessionId = sessionIds[index];
+      if (err || claimed === 1 || !this.ownedLeases.has(sessionId)) return;
+      // Another instance took over while this one could not renew, e.g. during a network partition
+      this.ownedLeases.delete(sessionId);
+      this.logger.warn(`Lease of session "${sessionId}" was taken over by another instance`);
+      this.eventEmitter.emit('cluster.lease-lost', { sessionId });
+    });
+  }
+
+  private async heartbeat() {
+    await this.redis.set(this.instanceKey(this.instanceId), this.instanceUrl, 'PX', this.leaseTtlMs);
+  }
+
+  private dispatch(channel: string, raw: string) {
+    const handlers = this.handlers.get(channel.slice(this.channelKey('').length));
+    if (!handlers) return;
+
+    let message: ClusterMessage<unknown>;
+    try {
+      message = JSON.parse(raw) as ClusterMessage<unknown>;
+    } catch {
+      return;
+    }
+    if (message.origin === this.instanceId) return;
+    for (const handler of handlers) handler(message.payload);
+  }
+
+  private leaseKey(sessionId: string) {
+    return `${KEY_PREFIX}:lease:${sessionId}`;
+  }
+
+  private instanceKey(instanceId: string) {
+    return `${KEY_PREFIX}:instance:${instanceId}`;
+  }
+
+  private sharedKey(key: string) {
+    return `${KEY_PREFIX}:shared:${key}`;
+  }
+
+  private channelKey(channel: string) {
+    return `${KEY_PREFIX}:channel:${channel}`;
+  }
+}
@@ -0,0 +1,164 @@
+import {
+  clientIpOf,
+  createSessionRoutingHook,
+  FORWARD_SIGNATURE_HEADER,
+  FORWARDED_AT_HEADER,
+  FORWARDED_BY_HEADER,
+  FORWARDED_FOR_HEADER,
+} from './session-routing.hook';
+
+describe('createSessionRoutingHook', () => {
+  const logger = { warn: jest.fn(), error: jest.fn() };
+  let fetchMock: jest.SpyInstance;
+
+  function createCluster(owner: string | null) {
+    return {
+      instanceId: 'instance-a',
+      getLeaseOwner: jest.fn().mockResolvedValue(owner),
+      getInstanceUrl: jest.fn().mockResolvedValue('http://10.0.0.2:3000'),
+      signForward: jest.fn((message: string) => `signed:${message}`),
+      verifyForward: jest.fn((message: string, signature: string) => signature === `signed:${message}`),
+    };
+  }
+
+  function createRequest(overrides: Record<string, unknown> = {}) {
+    return {
+      method: 'POST',
+      url: '/api/crm-1/messages/text',
+      ip: '203.0.113.7',
+      params: { sessionId: 'crm-1' },
+      routeOptions: { url: '/api/:sessionId/messages/text' },
+      headers: { 'x-api-key': 'bsk_key', 'content-type': 'application/json', host: 'api.test', 'content-length': '20' },
+      body: { jid: '1@s.whatsapp.net', text: 'hi' },
+      ...overrides,
+    };
+  }
+
+  function createReply() {
+    const reply = {
+      status: jest.fn(() => reply),
+      header: jest.fn(() => reply),
+      send: jest.fn(() => reply),
+    };
+    return reply;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(
+      new Response('{"success":true}', { status: 201, headers: { 'content-type': 'application/json' } }),
+    );
+  });
+
+  afterEach(() => fetchMock.mockRestore());
+
+  it('handles requests for local or unowned sessions itself', async () => {
+    for (const owner of ['instance-a', null]) {
+      const hook = createSessionRoutingHook(createCluster(owner) as never, logger as never);
+      const reply = createReply();
+
+      await hook(createRequest() as never, reply as never);
+
+      expect(reply.send).not.toHaveBeenCalled();
+    }
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('forwards requests to the instance owning the session', async () => {
+    const cluster = createCluster('instance-b');
+    const hook = createSessionRoutingHook(cluster as never, logger as never);
+    const reply = createReply();
+
+    await hook(createRequest() as never, reply as never);
+
+    expect(cluster.getInstanceUrl).toHaveBeenCalledWith('instance-b');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(String(url)).toBe('http://10.0.0.2:3000/api/crm-1/messages/text');
+    expect(init.method).toBe('POST');
+    expect(init.body).toBe('{"jid":"1@s.whatsapp.net","text":"hi"}');
+    expect(init.headers.get('x-api-key')).toBe('bsk_key');
+    expect(init.headers.get(FORWARDED_BY_HEADER)).toBe('instance-a');
+    expect(init.headers.get(FORWARDED_FOR_HEADER)).toBe('203.0.113.7');
+    expect(init.headers.get(FORWARD_SIGNATURE_HEADER)).toBe(
+      `signed:instance-a\n${init.headers.get(FORWARDED_AT_HEADER)}\n203.0.113.7\nPOST\n/api/crm-1/messages/text`,
+    );
+    expect(init.headers.has('host')).toBe(false);
+    expect(reply.status).toHaveBeenCalledWith(201);
+    expect(reply.header).toHaveBeenCalledWith('content-type', 'application/json');
+    expect(reply.send).toHaveBeenCalledWith(Buffer.from('{"success":true}'));
+  });
+
+  it('routes session creation by the session ID in the body', async () => {
+    const cluster = createCluster('instance-b');
+    const hook = createSessionRoutingHook(cluster as never, logger as never);
+
+    await hook(
+      createRequest({
+        url: '/api/sessions',
+        params: {},
+        routeOptions: { url: '/api/sessions' },
+        body: { sessionId: 'crm-1' },
+      }) as never,
+      createReply() as never,
+    );
+
+    expect(cluster.getLeaseOwner).toHaveBeenCalledWith('crm-1');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('never forwards a request twice and keeps the client address it was signed with', async () => {
+    const cluster = createCluster('instance-b');
+    const hook = createSessionRoutingHook(cluster as never, logger as never);
+    const at = String(Date.now());
+    const request = createRequest({
+      ip: '10.0.0.3',
+      headers: {
+        'x-api-key': 'bsk_key',
+        [FORWARDED_BY_HEADER]: 'instance-c',
+        [FORWARDED_FOR_HEADER]: '203.0.113.7',
+        [FORWARDED_AT_HEADER]: at,
+        [FORWARD_SIGNATURE_HEADER]: `signed:instance-c\n${at}\n203.0.113.7\nPOST\n/api/crm-1/messages/text`,
+      },
+    });
+
+    await hook(request as never, createReply() as never);
+
+    expect(cluster.getLeaseOwner).not.toHaveBeenCalled();
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(clientIpOf(request as never)).toBe('203.0.113.7');
+  });
+
+  it('does not trust forwarding headers sent by clients', async () => {
+    const cluster = createCluster('instance-b');
+    const hook = createSessionRoutingHook(cluster as never, logger as never);
+    const request = createRequest({
+      headers: {
+        'x-api-key': 'bsk_key',
+        [FORWARDED_BY_HEADER]: 'instance-c',
+        [FORWARDED_FOR_HEADER]: '198.51.100.1',
+        [FORWARDED_AT_HEADER]: String(Date.now()),
+        [FORWARD_SIGNATURE_HEADER]: 'forged',
+      },
+    });
+
+    await hook(request as never, createReply() as never);
+
+    expect(clientIpOf(request as never)).toBe('203.0.113.7');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][1].headers.get(FORWARDED_BY_HEADER)).toBe('instance-a');
+    expect(fetchMock.mock.calls[0][1].headers.get(FORWARDED_FOR_HEADER)).toBe('203.0.113.7');
+  });
+
+  it('answers 502 when the owner cannot be reached', async () => {
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+    const hook = createSessionRoutingHook(createCluster('instance-b') as never, logger as never);
+    const reply = createReply();
+
+    await hook(createRequest() as never, reply as never);
+
+    expect(reply.status).toHaveBeenCalledWith(502);
+    expect(reply.send).toHaveBeenCalledWith(
+      expect.objectContaining({ success: false, message: ['Instance owning session "crm-1" is unreachable'] }),
+    );
+  });
+});
@@ -0,0 +1,143 @@
+import { Logger } from '@nestjs/common';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type { ClusterService } from './cluster.service.js';
+
+// Marks requests forwarded by another instance, so they are never forwarded again
+export const FORWARDED_BY_HEADER = 'x-baileys-forwarded-by';
+// Client address as the forwarding instance saw it
+export const FORWARDED_FOR_HEADER = 'x-baileys-forwarded-for';
+export const FORWARDED_AT_HEADER = 'x-baileys-forwarded-at';
+// HMAC over the headers above plus method and URL, with the cluster secret
+export const FORWARD_SIGNATURE_HEADER = 'x-baileys-forward-signature';
+
+const FORWARD_HEADERS = [FORWARDED_BY_HEADER, FORWARDED_FOR_HEADER, FORWARDED_AT_HEADER, FORWARD_SIGNATURE_HEADER];
+
+const FORWARD_TIMEOUT_MS = 60000;
+
+// Connection-level headers that must not be copied between hops
+const HOP_BY_HOP_HEADERS = new Set([
+  'connection',
+  'keep-alive',
+  'transfer-encoding',
+  'upgrade',
+  'host',
+  'content-length',
+  'content-encoding',
+]);
+
+// Client address of requests a peer forwarded, set once the signature checked out
+const forwardedClientIps = new WeakMap<FastifyRequest, string>();
+
+/**
+ * Address of the client behind a request: the original client for requests forwarded
+ * by another instance, else the connecting address.
+ */
+export function clientIpOf(request: FastifyRequest): string {
+  return forwardedClientIps.get(request) ?? request.ip;
+}
+
+function forwardMessage(by: string, at: string, clientIp: string, method: string, url: string): string {
+  return [by, at, clientIp, method, url].join('\n');
+}
+
+// The client address of a request signed by a peer instance, or undefined for any other request
+function verifyForwarded(cluster: ClusterService, request: FastifyRequest): string | undefined {
+  const [by, clientIp, at, signature] = FORWARD_HEADERS.map((name) => request.headers[name]);
+  if (typeof by !== 'string' || typeof clientIp !== 'string' || typeof at !== 'string' || typeof signature !== 'string') {
+    return undefined;
+  }
+  if (!(Math.abs(Date.now() - Number(at)) <= FORWARD_TIMEOUT_MS)) return undefined;
+  const message = forwardMessage(by, at, clientIp, request.method, request.url);
+  return cluster.verifyForward(message, signature) ? clientIp : undefined;
+}
+
+function resolveSessionId(request: FastifyRequest): string | undefined {
+  const params = request.params as Record<string, string | undefined> | undefined;
+  if (params?.sessionId) return params.sessionId;
+  // POST /sessions names the session in the body
+  const body = request.body as { sessionId?: unknown } | undefined;
+  if (request.method === 'POST' && request.routeOptions.url?.endsWith('/sessions') && typeof body?.sessionId === 'string') {
+    return body.sessionId;
+  }
+  return undefined;
+}
+
+/**
+ * Fastify `preHandler` hook that proxies requests for a session owned by another
+ * replica to that replica, so clients can call any instance behind the load balancer.
+ * The owner authenticates, validates and audits the request as usual; requests for
+ * sessions without a live owner are handled locally. Forwarded requests are signed,
+ * so clients cannot make an instance handle a session it does not own.
+ */
+export function createSessionRoutingHook(cluster: ClusterService, logger = new Logger('SessionRouting')) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    const forwardedFor = verifyForwarded(cluster, request);
+    if (forwardedFor !== undefined) {
+      forwardedClientIps.set(request, forwardedFor);
+      return;
+    }
+    // Only peers may mark a request as forwarded; anything a client sends is dropped
+    for (const name of FORWARD_HEADERS) delete request.headers[name];
+
+    const sessionId = resolveSessionId(request);
+    if (!sessionId) return;
+
+    let target: string | null = null;
+    try {
+      const owner = await cluster.getLeaseOwner(sessionId);
+      if (!owner || owner === cluster.instanceId) return;
+      target = await cluster.getInstanceUrl(owner);
+    } catch (err) {
+      logger.warn(`Could not look up the owner of session "${sessionId}", handling locally: ${err}`);
+      return;
+    }
+    if (!target) return;
+
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(request.headers)) {
+      if (value === undefined || HOP_BY_HOP_HEADERS.has(name)) continue;
+      headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+    }
+    const at = String(Date.now());
+    headers.set(FORWARDED_BY_HEADER, cluster.instanceId);
+    headers.set(FORWARDED_FOR_HEADER, request.ip);
+    headers.set(FORWARDED_AT_HEADER, at);
+    headers.set(
+      FORWARD_SIGNATURE_HEADER,
+      cluster.signForward(forwardMessage(cluster.instanceId, at, request.ip, request.method, request.url)),
+    );
+
+    const body = request.body;
+    let response: Response;
+    try {
+      response = await fetch(new URL(request.url, target), {
+        method: request.method,
+        headers,
+        body:
+          body === undefined || body === null
+            ? undefined
+            : typeof body === 'string'
+              ? body
+              : Buffer.isBuffer(body)
+                ? new Uint8Array(body)
+                : JSON.stringify(body),
+        signal: AbortSignal.timeout(FORWARD_TIMEOUT_MS),
+      });
+    } catch (err) {
+      logger.error(`Failed to forward ${request.method} ${request.url} to ${target}: ${err}`);
+      return reply.status(502).send({
+        success: false,
+        statusCode: 502,
+        message: [`Instance owning session "${sessionId}" is unreachable`],
+        timestamp: new Date().toISOString(),
+        path: request.url,
+      });
+    }
+
+    reply.status(response.status);
+    response.headers.forEach((value, name) => {
+      if (!HOP_BY_HOP_HEADERS.has(name)) reply.header(name, value);
+    });
+    return reply.send(Buffer.from(await response.arrayBuffer()));
+  };
+}
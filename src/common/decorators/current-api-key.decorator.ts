@@ -0,0 +1,7 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { ROOT_PRINCIPAL, type ApiKeyPrincipal } from '../../api-key/api-key-scopes.js';
+
+export const CurrentApiKey = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): ApiKeyPrincipal =>
+    context.switchToHttp().getRequest<{ apiKey?: ApiKeyPrincipal }>().apiKey ?? ROOT_PRINCIPAL,
+);
@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+import type { ApiKeyScope } from '../../api-key/api-key-scopes.js';
+
+export const REQUIRED_SCOPES_KEY = 'requiredScopes';
+// Any one of the listed scopes grants access; routes without scopes need a `*` key
+export const RequireScopes = (...scopes: ApiKeyScope[]) => SetMetadata(REQUIRED_SCOPES_KEY, scopes);
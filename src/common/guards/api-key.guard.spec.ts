@@ -1,67 +1,136 @@
-import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { ExecutionContext, ForbiddenException, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import type { FastifyRequest } from 'fastify';
 import { ApiKeyGuard } from './api-key.guard';
+import { ApiKeyService } from '../../api-key/api-key.service';
+import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { REQUIRED_SCOPES_KEY } from '../decorators/require-scopes.decorator';
+import type { ApiKeyPrincipal } from '../../api-key/api-key-scopes';
+
+type TestRequest = Partial<FastifyRequest> & { apiKey?: ApiKeyPrincipal };
 
 describe('ApiKeyGuard', () => {
   const handler = jest.fn();
   class TestController {}
 
-  function createContext(headers: Record<string, string | undefined> = {}): ExecutionContext {
-    return {
+  function createContext(
+    headers: Record<string, string | undefined> = {},
+    params: Record<string, string> = {},
+  ): { context: ExecutionContext; request: TestRequest } {
+    const request: TestRequest = { headers, params };
+    const context = {
       getHandler: () => handler,
       getClass: () => TestController,
       switchToHttp: () => ({
-        getRequest: () => ({ headers }),
+        getRequest: () => request,
       }),
     } as ExecutionContext;
+    return { context, request };
   }
 
-  function createGuard(options: { configuredKey?: string; isPublic?: boolean }) {
+  function createGuard(options: {
+    configuredKey?: string;
+    isPublic?: boolean;
+    requiredScopes?: string[];
+    hasActiveKeys?: boolean;
+    principal?: ApiKeyPrincipal | null;
+    sessionTenant?: string | null;
+  }) {
     const configService = {
       get: jest.fn().mockReturnValue(options.configuredKey),
     };
     const reflector = {
-      getAllAndOverride: jest.fn().mockReturnValue(options.isPublic ?? false),
+      getAllAndOverride: jest.fn((key: string) =>
+        key === IS_PUBLIC_KEY ? (options.isPublic ?? false) : key === REQUIRED_SCOPES_KEY ? options.requiredScopes : undefined,
+      ),
+    };
+    const apiKeyService = new ApiKeyService({} as never, configService as never);
+    jest.spyOn(apiKeyService, 'hasActiveKeys').mockResolvedValue(options.hasActiveKeys ?? false);
+    jest.spyOn(apiKeyService, 'authenticate').mockResolvedValue(options.principal ?? null);
+    const tenantService = {
+      getSessionTenant: jest.fn().mockResolvedValue(options.sessionTenant),
     };
 
     return {
-      guard: new ApiKeyGuard(configService as never, reflector as never),
+      guard: new ApiKeyGuard(reflector as never, apiKeyService, tenantService as never),
       configService,
       reflector,
+      apiKeyService,
     };
   }
 
-  it('allows public routes without checking API key configuration', () => {
+  it('allows public routes without checking API key configuration', async () => {
     const { guard, configService } = createGuard({ configuredKey: 'secret', isPublic: true });
 
-    expect(guard.canActivate(createContext())).toBe(true);
+    await expect(guard.canActivate(createContext().context)).resolves.toBe(true);
     expect(configService.get).not.toHaveBeenCalled();
   });
 
-  it('allows requests when no API key is configured', () => {
+  it('allows requests when no API key is configured', async () => {
     const { guard } = createGuard({});
 
-    expect(guard.canActivate(createContext())).toBe(true);
+    await expect(guard.canActivate(createContext().context)).resolves.toBe(true);
   });
 
-  it('rejects requests without an API key when one is configured', () => {
+  it('rejects requests without an API key when one is configured', async () => {
     const { guard } = createGuard({ configuredKey: 'secret' });
 
-    expect(() => guard.canActivate(createContext())).toThrow(
+    await expect(guard.canActivate(createContext().context)).rejects.toThrow(
       new UnauthorizedException('API key is required'),
     );
   });
 
-  it('rejects requests with the wrong API key', () => {
+  it('rejects requests with the wrong API key', async () => {
     const { guard } = createGuard({ configuredKey: 'secret' });
 
-    expect(() => guard.canActivate(createContext({ 'x-api-key': 'wrong' }))).toThrow(
+    await expect(guard.canActivate(createContext({ 'x-api-key': 'wrong' }).context)).rejects.toThrow(
       new UnauthorizedException('Invalid API key'),
     );
   });
 
-  it('allows requests with the configured API key', () => {
+  it('allows requests with the configured API key', async () => {
     const { guard } = createGuard({ configuredKey: 'secret' });
 
-    expect(guard.canActivate(createContext({ 'x-api-key': 'secret' }))).toBe(true);
+    await expect(guard.canActivate(createContext({ 'x-api-key': 'secret' }).context)).resolves.toBe(true);
+  });
+
+  it('requires a key once database keys exist even without API_KEY', async () => {
+    const { guard } = createGuard({ hasActiveKeys: true });
+
+    await expect(guard.canActivate(createContext().context)).rejects.toThrow(
+      new UnauthorizedException('API key is required'),
+    );
+  });
+
+  it('enforces route scopes and session restrictions of database keys', async () => {
+    const principal: ApiKeyPrincipal = {
+      id: 'key-1',
+      tenantId: null,
+      name: 'crm',
+      scopes: ['messages:send'],
+      sessionIds: ['sales-*'],
+    };
+    const { guard } = createGuard({ hasActiveKeys: true, requiredScopes: ['messages:send'], principal });
+
+    const allowed = createContext({ 'x-api-key': 'bsk_crm' }, { sessionId: 'sales-01' });
+    await expect(guard.canActivate(allowed.context)).resolves.toBe(true);
+    expect(allowed.request.apiKey).toBe(principal);
+
+    await expect(
+      guard.canActivate(createContext({ 'x-api-key': 'bsk_crm' }, { sessionId: 'support-01' }).context),
+    ).rejects.toThrow(new ForbiddenException('API key cannot access session "support-01"'));
+
+    const { guard: adminRoute } = createGuard({ hasActiveKeys: true, requiredScopes: ['sessions:admin'], principal });
+    await expect(
+      adminRoute.canActivate(createContext({ 'x-api-key': 'bsk_crm' }, { sessionId: 'sales-01' }).context),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  it("hides other tenants' sessions from tenant keys", async () => {
+    const principal: ApiKeyPrincipal = { id: 'key-2', tenantId: 'tenant-a', name: 'ops', scopes: ['*'], sessionIds: [] };
+    const { guard } = createGuard({ hasActiveKeys: true, requiredScopes: ['read-only'], principal, sessionTenant: 'tenant-b' });
+
+    await expect(
+      guard.canActivate(createContext({ 'x-api-key': 'bsk_ops' }, { sessionId: 'other-session' }).context),
+    ).rejects.toThrow(new NotFoundException('Session "other-session" not found'));
   });
 });
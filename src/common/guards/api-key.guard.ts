@@ -2,34 +2,69 @@ import {
   Injectable,
   CanActivate,
   ExecutionContext,
-  UnauthorizedException,
+  ForbiddenException,
+  NotFoundException,
 } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
 import { Reflector } from '@nestjs/core';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator.js';
+import { REQUIRED_SCOPES_KEY } from '../decorators/require-scopes.decorator.js';
+import { ApiKeyService } from '../../api-key/api-key.service.js';
+import { TenantService } from '../../tenant/tenant.service.js';
+import { canAccessSession, hasRequiredScope, type ApiKeyPrincipal } from '../../api-key/api-key-scopes.js';
+
+interface GuardedRequest {
+  headers: Record<string, string | string[] | undefined>;
+  params?: Record<string, string>;
+  body?: unknown;
+  apiKey?: ApiKeyPrincipal;
+}
 
 @Injectable()
 export class ApiKeyGuard implements CanActivate {
   constructor(
-    private configService: ConfigService,
     private reflector: Reflector,
+    private apiKeyService: ApiKeyService,
+    private tenantService: TenantService,
   ) {}
 
-  canActivate(context: ExecutionContext): boolean {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
       context.getHandler(),
       context.getClass(),
     ]);
     if (isPublic) return true;
 
-    const request = context.switchToHttp().getRequest();
-    const apiKey = request.headers['x-api-key'] as string;
-    const configuredKey = this.configService.get<string>('API_KEY');
+    const request = context.switchToHttp().getRequest<GuardedRequest>();
+    const principal = await this.apiKeyService.resolvePrincipal(request.headers['x-api-key'] as string | undefined);
+    // Root access (API_KEY or open access) is never restricted by scope, session or tenant
+    if (principal.id === null) {
+      request.apiKey = principal;
+      return true;
+    }
+
+    const requiredScopes = this.reflector.getAllAndOverride<string[] | undefined>(REQUIRED_SCOPES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]) ?? ['*'];
+    if (!hasRequiredScope(principal, requiredScopes)) {
+      throw new ForbiddenException(`API key requires scope: ${requiredScopes.join(' or ')}`);
+    }
+
+    // Session routes carry the ID as a path param; session creation carries it in the body
+    const sessionId = request.params?.sessionId ?? (request.body as { sessionId?: unknown } | undefined)?.sessionId;
+    if (typeof sessionId === 'string' && !canAccessSession(principal, sessionId)) {
+      throw new ForbiddenException(`API key cannot access session "${sessionId}"`);
+    }
 
-    if (!configuredKey) return true; // No key configured = open access
-    if (!apiKey) throw new UnauthorizedException('API key is required');
-    if (apiKey !== configuredKey) throw new UnauthorizedException('Invalid API key');
+    // Sessions of other tenants are reported as missing rather than forbidden
+    if (principal.tenantId && request.params?.sessionId) {
+      const owner = await this.tenantService.getSessionTenant(request.params.sessionId);
+      if (owner !== undefined && owner !== principal.tenantId) {
+        throw new NotFoundException(`Session "${request.params.sessionId}" not found`);
+      }
+    }
 
+    request.apiKey = principal;
     return true;
   }
 }
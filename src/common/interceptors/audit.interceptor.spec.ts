@@ -0,0 +1,77 @@
+import { ExecutionContext, HttpStatus, NotFoundException } from '@nestjs/common';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { AuditInterceptor } from './audit.interceptor';
+
+describe('AuditInterceptor', () => {
+  const handler = jest.fn();
+  const apiKey = { id: 'key-1', tenantId: 'tenant-a', name: 'crm', scopes: ['*'], sessionIds: [] };
+
+  function createContext(request: Record<string, unknown>, type = 'http'): ExecutionContext {
+    return {
+      getType: () => type,
+      getHandler: () => handler,
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext;
+  }
+
+  function createInterceptor(httpCode?: number) {
+    const auditService = { record: jest.fn().mockResolvedValue(undefined) };
+    const reflector = { get: jest.fn().mockReturnValue(httpCode) };
+    return { interceptor: new AuditInterceptor(reflector as never, auditService as never), auditService };
+  }
+
+  it('records successful actions with the caller, target and redacted body', async () => {
+    const { interceptor, auditService } = createInterceptor();
+    const request = {
+      method: 'POST',
+      url: '/api/sessions/main/messages/text?x=1',
+      routeOptions: { url: '/api/sessions/:sessionId/messages/text' },
+      params: { sessionId: 'main' },
+      body: { to: '6281234567890', text: 'secret plans' },
+      ip: '10.0.0.1',
+      apiKey,
+    };
+
+    await lastValueFrom(interceptor.intercept(createContext(request), { handle: () => of({ ok: true }) }));
+
+    expect(auditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        apiKey,
+        method: 'POST',
+        route: '/api/sessions/:sessionId/messages/text',
+        path: '/api/sessions/main/messages/text',
+        sessionId: 'main',
+        targetJid: '6281234567890',
+        statusCode: HttpStatus.CREATED,
+        ip: '10.0.0.1',
+        body: { to: '6281234567890', text: '[redacted: 12 chars]' },
+      }),
+    );
+  });
+
+  it('records failures with their status and rethrows', async () => {
+    const { interceptor, auditService } = createInterceptor(HttpStatus.OK);
+    const request = { method: 'DELETE', url: '/api/sessions/gone', params: { sessionId: 'gone' }, apiKey };
+
+    await expect(
+      lastValueFrom(
+        interceptor.intercept(createContext(request), {
+          handle: () => throwError(() => new NotFoundException('Session "gone" not found')),
+        }),
+      ),
+    ).rejects.toThrow(NotFoundException);
+
+    expect(auditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({ statusCode: HttpStatus.NOT_FOUND, error: 'Session "gone" not found', body: null }),
+    );
+  });
+
+  it('skips reads and non-HTTP contexts', async () => {
+    const { interceptor, auditService } = createInterceptor();
+
+    await lastValueFrom(interceptor.intercept(createContext({ method: 'GET', url: '/api/sessions' }), { handle: () => of([]) }));
+    await lastValueFrom(interceptor.intercept(createContext({}, 'ws'), { handle: () => of(null) }));
+
+    expect(auditService.record).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,73 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { HTTP_CODE_METADATA } from '@nestjs/common/constants.js';
+import { Observable, throwError } from 'rxjs';
+import { catchError, tap } from 'rxjs/operators';
+import type { FastifyRequest } from 'fastify';
+import { AuditService } from '../../audit/audit.service.js';
+import { resolveTargetJid, summarizeRequestBody } from '../../audit/audit-summary.js';
+import { ROOT_PRINCIPAL, type ApiKeyPrincipal } from '../../api-key/api-key-scopes.js';
+import { clientIpOf } from '../../cluster/session-routing.hook.js';
+
+// Reads are not audited; every other method changes a session, WhatsApp state or the API itself
+const AUDITED_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+type AuditedRequest = FastifyRequest & { apiKey?: ApiKeyPrincipal };
+
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly auditService: AuditService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() !== 'http') return next.handle();
+
+    const request = context.switchToHttp().getRequest<AuditedRequest>();
+    if (!AUDITED_METHODS.has(request.method)) return next.handle();
+
+    const startedAt = Date.now();
+    const record = (statusCode: number, error?: string) => {
+      const params = (request.params ?? {}) as Record<string, string | undefined>;
+      void this.auditService.record({
+        apiKey: request.apiKey ?? ROOT_PRINCIPAL,
+        method: request.method,
+        route: request.routeOptions?.url ?? request.url,
+        path: request.url.split('?')[0],
+        sessionId: params.sessionId ?? this.bodySessionId(request.body),
+        targetJid: resolveTargetJid(params, request.body),
+        statusCode,
+        error,
+        ip: clientIpOf(request),
+        body: summarizeRequestBody(request.body),
+        durationMs: Date.now() - startedAt,
+      });
+    };
+
+    return next.handle().pipe(
+      tap(() => {
+        const httpCode = this.reflector.get<number | undefined>(HTTP_CODE_METADATA, context.getHandler());
+        record(httpCode ?? (request.method === 'POST' ? HttpStatus.CREATED : HttpStatus.OK));
+      }),
+      catchError((err: unknown) => {
+        const statusCode = err instanceof HttpException ? err.getStatus() : HttpStatus.INTERNAL_SERVER_ERROR;
+        record(statusCode, err instanceof Error ? err.message : String(err));
+        return throwError(() => err);
+      }),
+    );
+  }
+
+  // Session creation carries the session ID in the body
+  private bodySessionId(body: unknown): string | null {
+    const sessionId = (body as { sessionId?: unknown } | undefined)?.sessionId;
+    return typeof sessionId === 'string' ? sessionId : null;
+  }
+}
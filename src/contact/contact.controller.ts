@@ -1,5 +1,6 @@
 import { Controller, Get, Post, Param, Body, Query, ParseIntPipe, DefaultValuePipe } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiSecurity, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator.js';
 import { ContactService } from './contact.service.js';
 import {
   CheckNumberDto,
@@ -11,11 +12,13 @@ import {
 
 @ApiTags('Contact')
 @ApiSecurity('x-api-key')
+@RequireScopes('contacts:write')
 @Controller(':sessionId/contacts')
 export class ContactController {
   constructor(private readonly contactService: ContactService) {}
 
   @Get()
+  @RequireScopes('read-only')
   @ApiOperation({ summary: 'Get all contacts (from database)' })
   @ApiParam({ name: 'sessionId' })
   @ApiQuery({ name: 'search', required: false, type: String, description: 'Search by name or JID' })
@@ -31,6 +34,7 @@ export class ContactController {
   }
 
   @Post('check')
+  @RequireScopes('read-only')
   @ApiOperation({ summary: 'Check if numbers exist on WhatsApp' })
   @ApiParam({ name: 'sessionId' })
   checkNumber(@Param('sessionId') sessionId: string, @Body() dto: CheckNumberDto) {
@@ -38,6 +42,7 @@ export class ContactController {
   }
 
   @Get(':jid/profile-picture')
+  @RequireScopes('read-only')
   @ApiOperation({ summary: 'Get profile picture URL' })
   @ApiParam({ name: 'sessionId' })
   @ApiParam({ name: 'jid' })
@@ -51,6 +56,7 @@ export class ContactController {
   }
 
   @Get(':jid/business-profile')
+  @RequireScopes('read-only')
   @ApiOperation({ summary: 'Get business profile' })
   @ApiParam({ name: 'sessionId' })
   @ApiParam({ name: 'jid' })
@@ -59,6 +65,7 @@ export class ContactController {
   }
 
   @Post('profile/business-profile')
+  @RequireScopes('profile:write')
   @ApiOperation({ summary: 'Update own business profile (requires business account)' })
   @ApiParam({ name: 'sessionId' })
   updateBusinessProfile(@Param('sessionId') sessionId: string, @Body() dto: UpdateBusinessProfileDto) {
@@ -66,6 +73,7 @@ export class ContactController {
   }
 
   @Get(':jid/status')
+  @RequireScopes('read-only')
   @ApiOperation({ summary: 'Get contact about/status' })
   @ApiParam({ name: 'sessionId' })
   @ApiParam({ name: 'jid' })
@@ -90,6 +98,7 @@ export class ContactController {
   }
 
   @Post('profile/picture')
+  @RequireScopes('profile:write')
   @ApiOperation({ summary: 'Update own profile picture' })
   @ApiParam({ name: 'sessionId' })
   updateProfilePicture(@Param('sessionId') sessionId: string, @Body() dto: UpdateProfilePictureDto) {
@@ -97,6 +106,7 @@ export class ContactController {
   }
 
   @Post('profile/name')
+  @RequireScopes('profile:write')
   @ApiOperation({ summary: 'Update own profile name' })
   @ApiParam({ name: 'sessionId' })
   updateProfileName(@Param('sessionId') sessionId: string, @Body() dto: UpdateProfileNameDto) {
@@ -104,6 +114,7 @@ export class ContactController {
   }
 
   @Post('profile/status')
+  @RequireScopes('profile:write')
   @ApiOperation({ summary: 'Update own about/status text' })
   @ApiParam({ name: 'sessionId' })
   updateProfileStatus(@Param('sessionId') sessionId: string, @Body() dto: UpdateProfileStatusDto) {
@@ -1,5 +1,6 @@
 import { Controller, Post, Get, Put, Delete, Param, Body } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiSecurity, ApiParam } from '@nestjs/swagger';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator.js';
 import { GroupService } from './group.service.js';
 import {
   CreateGroupDto,
@@ -13,6 +14,7 @@ import {
 
 @ApiTags('Group')
 @ApiSecurity('x-api-key')
+@RequireScopes('groups:write')
 @Controller(':sessionId/groups')
 export class GroupController {
   constructor(private readonly groupService: GroupService) {}
@@ -25,6 +27,7 @@ export class GroupController {
   }
 
   @Get()
+  @RequireScopes('read-only')
   @ApiOperation({ summary: 'Get all groups' })
   @ApiParam({ name: 'sessionId' })
   getAll(@Param('sessionId') sessionId: string) {
@@ -32,6 +35,7 @@ export class GroupController {
   }
 
   @Get(':groupId')
+  @RequireScopes('read-only')
   @ApiOperation({ summary: 'Get group metadata' })
   @ApiParam({ name: 'sessionId' })
   @ApiParam({ name: 'groupId' })
@@ -40,6 +44,7 @@ export class GroupController {
   }
 
   @Get(':groupId/invite-code')
+  @RequireScopes('read-only')
   @ApiOperation({ summary: 'Get group invite code' })
   @ApiParam({ name: 'sessionId' })
   @ApiParam({ name: 'groupId' })
@@ -131,6 +136,7 @@ export class GroupController {
   }
 
   @Get('invite/:inviteCode/info')
+  @RequireScopes('read-only')
   @ApiOperation({ summary: 'Get group info from invite code' })
   @ApiParam({ name: 'sessionId' })
   @ApiParam({ name: 'inviteCode' })
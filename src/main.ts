@@ -6,6 +6,8 @@ import { AppModule } from './app.module.js';
 import { AllExceptionsFilter } from './common/filters/http-exception.filter.js';
 import { ResponseInterceptor } from './common/interceptors/response.interceptor.js';
 import { getCorsOrigin } from './config/cors.js';
+import { ClusterService } from './cluster/cluster.service.js';
+import { createSessionRoutingHook } from './cluster/session-routing.hook.js';
 
 async function bootstrap() {
   const app = await NestFactory.create<NestFastifyApplication>(
@@ -20,6 +22,12 @@ async function bootstrap() {
   // CORS
   app.enableCors({ origin: getCorsOrigin() });
 
+  // Release session leases on SIGTERM so other replicas take the sessions over right away
+  app.enableShutdownHooks();
+
+  // Forward session requests to the replica that owns the session's socket
+  app.getHttpAdapter().getInstance().addHook('preHandler', createSessionRoutingHook(app.get(ClusterService)));
+
   // Global pipes
   app.useGlobalPipes(
     new ValidationPipe({
@@ -1,8 +1,40 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsNotEmpty, IsString, IsOptional, IsArray, IsNumber, IsBoolean, ValidateNested } from 'class-validator';
+import {
+  IsNotEmpty,
+  IsString,
+  IsOptional,
+  IsArray,
+  IsNumber,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsISO8601,
+  IsUrl,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
 import { Type } from 'class-transformer';
+import { OUTBOUND_STATUSES, SCHEDULED_MESSAGE_STATUSES, type OutboundStatus } from '../outbound.js';
 
-export class SendTextDto {
+/**
+ * When to send instead of right away: at `sendAt`, or `delayMs` from now.
+ */
+export class ScheduleOptionsDto {
+  @ApiPropertyOptional({ description: 'Send at this time (ISO 8601)', example: '2026-12-24T09:00:00.000Z' })
+  @IsOptional()
+  @IsISO8601()
+  sendAt?: string;
+
+  @ApiPropertyOptional({ description: 'Send after this delay (ms)', example: 3600000 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(365 * 24 * 60 * 60 * 1000)
+  delayMs?: number;
+}
+
+export class SendTextDto extends ScheduleOptionsDto {
   @ApiProperty({ example: '6281234567890@s.whatsapp.net' })
   @IsString()
   @IsNotEmpty()
@@ -19,15 +51,14 @@ export class SendTextDto {
   quotedMessageId?: string;
 }
 
-export class SendMediaDto {
+export class SendMediaDto extends ScheduleOptionsDto {
   @ApiProperty({ example: '6281234567890@s.whatsapp.net' })
   @IsString()
   @IsNotEmpty()
   to!: string;
 
   @ApiProperty({ enum: ['image', 'video', 'audio', 'document', 'sticker'] })
-  @IsString()
-  @IsNotEmpty()
+  @IsIn(['image', 'video', 'audio', 'document', 'sticker'])
   type!: 'image' | 'video' | 'audio' | 'document' | 'sticker';
 
   @ApiProperty({ description: 'URL or base64 of the media' })
@@ -61,7 +92,7 @@ export class SendMediaDto {
   quotedMessageId?: string;
 }
 
-export class SendContactDto {
+export class SendContactDto extends ScheduleOptionsDto {
   @ApiProperty({ example: '6281234567890@s.whatsapp.net' })
   @IsString()
   @IsNotEmpty()
@@ -76,7 +107,7 @@ export class SendContactDto {
   contacts!: Array<{ fullName: string; phoneNumber: string; organization?: string }>;
 }
 
-export class SendLocationDto {
+export class SendLocationDto extends ScheduleOptionsDto {
   @ApiProperty({ example: '6281234567890@s.whatsapp.net' })
   @IsString()
   @IsNotEmpty()
@@ -108,7 +139,7 @@ export class PollOptionDto {
   name!: string;
 }
 
-export class SendPollDto {
+export class SendPollDto extends ScheduleOptionsDto {
   @ApiProperty({ example: '6281234567890@s.whatsapp.net' })
   @IsString()
   @IsNotEmpty()
@@ -131,7 +162,7 @@ export class SendPollDto {
   selectableCount?: number;
 }
 
-export class SendButtonsDto {
+export class SendButtonsDto extends ScheduleOptionsDto {
   @ApiProperty({ example: '6281234567890@s.whatsapp.net' })
   @IsString()
   @IsNotEmpty()
@@ -152,7 +183,7 @@ export class SendButtonsDto {
   buttons!: Array<{ buttonId: string; buttonText: { displayText: string }; type: number }>;
 }
 
-export class SendListDto {
+export class SendListDto extends ScheduleOptionsDto {
   @ApiProperty({ example: '6281234567890@s.whatsapp.net' })
   @IsString()
   @IsNotEmpty()
@@ -186,7 +217,7 @@ export class SendListDto {
   }>;
 }
 
-export class SendReactionDto {
+export class SendReactionDto extends ScheduleOptionsDto {
   @ApiProperty({ example: '6281234567890@s.whatsapp.net' })
   @IsString()
   @IsNotEmpty()
@@ -264,10 +295,9 @@ export class StarMessageDto {
   star!: boolean;
 }
 
-export class SendStatusDto {
+export class SendStatusDto extends ScheduleOptionsDto {
   @ApiProperty({ enum: ['text', 'image', 'video'] })
-  @IsString()
-  @IsNotEmpty()
+  @IsIn(['text', 'image', 'video'])
   type!: 'text' | 'image' | 'video';
 
   @ApiPropertyOptional({ description: 'Text content for text status' })
@@ -300,3 +330,66 @@ export class SendStatusDto {
   @IsArray()
   statusJidList?: string[];
 }
+
+export class SendLinkPreviewDto extends ScheduleOptionsDto {
+  @ApiProperty({ example: '6281234567890@s.whatsapp.net' })
+  @IsString()
+  @IsNotEmpty()
+  to!: string;
+
+  @ApiProperty({ example: 'https://github.com/WhiskeySockets/Baileys' })
+  @IsUrl()
+  url!: string;
+
+  @ApiPropertyOptional({ description: 'Text sent before the URL' })
+  @IsOptional()
+  @IsString()
+  text?: string;
+}
+
+export class ListOutboundMessagesDto {
+  @ApiPropertyOptional({ description: 'Only messages with this status', enum: OUTBOUND_STATUSES })
+  @IsOptional()
+  @IsIn(OUTBOUND_STATUSES)
+  status?: OutboundStatus;
+
+  @ApiPropertyOptional({ description: 'Only messages to this JID or phone number', example: '6281234567890' })
+  @IsOptional()
+  @IsString()
+  to?: string;
+
+  @ApiPropertyOptional({ description: 'Page size', default: 50 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+
+  @ApiPropertyOptional({ description: 'Entries to skip', default: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
+
+export class RescheduleMessageDto extends ScheduleOptionsDto {}
+
+export class ListScheduledMessagesDto {
+  @ApiPropertyOptional({ description: 'Only messages with this status', enum: SCHEDULED_MESSAGE_STATUSES })
+  @IsOptional()
+  @IsIn(SCHEDULED_MESSAGE_STATUSES)
+  status?: string;
+
+  @ApiPropertyOptional({ description: 'Page size', default: 50 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+
+  @ApiPropertyOptional({ description: 'Entries to skip', default: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
@@ -1,5 +1,6 @@
-import { Controller, Post, Param, Body } from '@nestjs/common';
+import { Controller, Get, Post, Param, Body, Query, HttpCode, HttpStatus } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiSecurity, ApiParam } from '@nestjs/swagger';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator.js';
 import { Throttle } from '@nestjs/throttler';
 import { MessagingService } from './messaging.service.js';
 import {
@@ -17,16 +18,22 @@ import {
   ReadMessagesDto,
   StarMessageDto,
   SendStatusDto,
+  SendLinkPreviewDto,
+  ListOutboundMessagesDto,
 } from './dto/messaging.dto.js';
 
+// Sends are paced by the outbound queue; actions on existing messages go to WhatsApp directly
+const DIRECT_ACTION_THROTTLE = { default: { ttl: 60000, limit: 30 } };
+
 @ApiTags('Messaging')
 @ApiSecurity('x-api-key')
-@Throttle({ default: { ttl: 60000, limit: 30 } })
+@RequireScopes('messages:send')
 @Controller(':sessionId/messages')
 export class MessagingController {
   constructor(private readonly messagingService: MessagingService) {}
 
   @Post('text')
+  @HttpCode(HttpStatus.ACCEPTED)
   @ApiOperation({ summary: 'Send a text message' })
   @ApiParam({ name: 'sessionId' })
   sendText(@Param('sessionId') sessionId: string, @Body() dto: SendTextDto) {
@@ -34,6 +41,7 @@ export class MessagingController {
   }
 
   @Post('media')
+  @HttpCode(HttpStatus.ACCEPTED)
   @ApiOperation({ summary: 'Send media (image, video, audio, document, sticker)' })
   @ApiParam({ name: 'sessionId' })
   sendMedia(@Param('sessionId') sessionId: string, @Body() dto: SendMediaDto) {
@@ -41,6 +49,7 @@ export class MessagingController {
   }
 
   @Post('contact')
+  @HttpCode(HttpStatus.ACCEPTED)
   @ApiOperation({ summary: 'Send contact card (vCard)' })
   @ApiParam({ name: 'sessionId' })
   sendContact(@Param('sessionId') sessionId: string, @Body() dto: SendContactDto) {
@@ -48,6 +57,7 @@ export class MessagingController {
   }
 
   @Post('location')
+  @HttpCode(HttpStatus.ACCEPTED)
   @ApiOperation({ summary: 'Send location' })
   @ApiParam({ name: 'sessionId' })
   sendLocation(@Param('sessionId') sessionId: string, @Body() dto: SendLocationDto) {
@@ -55,6 +65,7 @@ export class MessagingController {
   }
 
   @Post('poll')
+  @HttpCode(HttpStatus.ACCEPTED)
   @ApiOperation({ summary: 'Send a poll' })
   @ApiParam({ name: 'sessionId' })
   sendPoll(@Param('sessionId') sessionId: string, @Body() dto: SendPollDto) {
@@ -62,6 +73,7 @@ export class MessagingController {
   }
 
   @Post('buttons')
+  @HttpCode(HttpStatus.ACCEPTED)
   @ApiOperation({ summary: 'Send buttons message' })
   @ApiParam({ name: 'sessionId' })
   sendButtons(@Param('sessionId') sessionId: string, @Body() dto: SendButtonsDto) {
@@ -69,6 +81,7 @@ export class MessagingController {
   }
 
   @Post('list')
+  @HttpCode(HttpStatus.ACCEPTED)
   @ApiOperation({ summary: 'Send list message' })
   @ApiParam({ name: 'sessionId' })
   sendList(@Param('sessionId') sessionId: string, @Body() dto: SendListDto) {
@@ -76,6 +89,7 @@ export class MessagingController {
   }
 
   @Post('reaction')
+  @HttpCode(HttpStatus.ACCEPTED)
   @ApiOperation({ summary: 'Send reaction emoji to a message' })
   @ApiParam({ name: 'sessionId' })
   sendReaction(@Param('sessionId') sessionId: string, @Body() dto: SendReactionDto) {
@@ -83,6 +97,7 @@ export class MessagingController {
   }
 
   @Post('edit')
+  @Throttle(DIRECT_ACTION_THROTTLE)
   @ApiOperation({ summary: 'Edit a sent message' })
   @ApiParam({ name: 'sessionId' })
   editMessage(@Param('sessionId') sessionId: string, @Body() dto: EditMessageDto) {
@@ -90,6 +105,7 @@ export class MessagingController {
   }
 
   @Post('delete')
+  @Throttle(DIRECT_ACTION_THROTTLE)
   @ApiOperation({ summary: 'Delete a message (for everyone or just me)' })
   @ApiParam({ name: 'sessionId' })
   deleteMessage(@Param('sessionId') sessionId: string, @Body() dto: DeleteMessageDto) {
@@ -97,6 +113,7 @@ export class MessagingController {
   }
 
   @Post('forward')
+  @Throttle(DIRECT_ACTION_THROTTLE)
   @ApiOperation({ summary: 'Forward a message to another chat' })
   @ApiParam({ name: 'sessionId' })
   forwardMessage(@Param('sessionId') sessionId: string, @Body() dto: ForwardMessageDto) {
@@ -104,6 +121,7 @@ export class MessagingController {
   }
 
   @Post('read')
+  @Throttle(DIRECT_ACTION_THROTTLE)
   @ApiOperation({ summary: 'Mark messages as read' })
   @ApiParam({ name: 'sessionId' })
   readMessages(@Param('sessionId') sessionId: string, @Body() dto: ReadMessagesDto) {
@@ -111,6 +129,7 @@ export class MessagingController {
   }
 
   @Post('star')
+  @Throttle(DIRECT_ACTION_THROTTLE)
   @ApiOperation({ summary: 'Star or unstar messages' })
   @ApiParam({ name: 'sessionId' })
   starMessages(@Param('sessionId') sessionId: string, @Body() dto: StarMessageDto) {
@@ -118,6 +137,7 @@ export class MessagingController {
   }
 
   @Post('status')
+  @HttpCode(HttpStatus.ACCEPTED)
   @ApiOperation({ summary: 'Post a status/story (text, image, or video)' })
   @ApiParam({ name: 'sessionId' })
   sendStatus(@Param('sessionId') sessionId: string, @Body() dto: SendStatusDto) {
@@ -125,12 +145,27 @@ export class MessagingController {
   }
 
   @Post('link-preview')
+  @HttpCode(HttpStatus.ACCEPTED)
   @ApiOperation({ summary: 'Send a message with link preview' })
   @ApiParam({ name: 'sessionId' })
-  sendLinkPreview(
-    @Param('sessionId') sessionId: string,
-    @Body() body: { to: string; url: string; text?: string },
-  ) {
-    return this.messagingService.sendLinkPreview(sessionId, body.to, body.url, body.text);
+  sendLinkPreview(@Param('sessionId') sessionId: string, @Body() dto: SendLinkPreviewDto) {
+    return this.messagingService.sendLinkPreview(sessionId, dto);
+  }
+
+  @Get('outbound')
+  @RequireScopes('read-only', 'messages:send')
+  @ApiOperation({ summary: 'List queued and sent messages with their delivery status' })
+  @ApiParam({ name: 'sessionId' })
+  listOutbound(@Param('sessionId') sessionId: string, @Query() query: ListOutboundMessagesDto) {
+    return this.messagingService.listOutboundMessages(sessionId, query);
+  }
+
+  @Get('outbound/:id')
+  @RequireScopes('read-only', 'messages:send')
+  @ApiOperation({ summary: 'Get the delivery status of a queued message' })
+  @ApiParam({ name: 'sessionId' })
+  @ApiParam({ name: 'id', description: 'ID returned when the message was queued' })
+  getOutbound(@Param('sessionId') sessionId: string, @Param('id') id: string) {
+    return this.messagingService.getOutboundMessage(sessionId, id);
   }
 }
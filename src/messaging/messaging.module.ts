@@ -1,10 +1,12 @@
 import { Module } from '@nestjs/common';
 import { MessagingService } from './messaging.service.js';
 import { MessagingController } from './messaging.controller.js';
+import { ScheduledMessageService } from './scheduled-message.service.js';
+import { ScheduledMessageController } from './scheduled-message.controller.js';
 
 @Module({
-  controllers: [MessagingController],
-  providers: [MessagingService],
+  controllers: [MessagingController, ScheduledMessageController],
+  providers: [MessagingService, ScheduledMessageService],
   exports: [MessagingService],
 })
 export class MessagingModule {}
@@ -3,6 +3,7 @@ jest.mock('@whiskeysockets/baileys', () => ({
   default: jest.fn(),
   DisconnectReason: { loggedOut: 401 },
   fetchLatestBaileysVersion: jest.fn(),
+  generateMessageIDV2: jest.fn(() => '3EB0GENERATED'),
   Browsers: {
     ubuntu: jest.fn(() => ['Ubuntu', 'Chrome', '1.0']),
   },
@@ -12,13 +13,175 @@ jest.mock('../session/prisma-auth-state', () => ({
   usePrismaAuthState: jest.fn(),
 }));
 
+jest.mock('https-proxy-agent', () => ({ HttpsProxyAgent: jest.fn() }));
+
+jest.mock('socks-proxy-agent', () => ({ SocksProxyAgent: jest.fn() }));
+
+import { HttpException } from '@nestjs/common';
 import { MessagingService } from './messaging.service';
 
 describe('MessagingService', () => {
-  it('awaits quoted message lookup before sending text replies', async () => {
+  function createService(session: Record<string, unknown> | null = { status: 'open' }) {
     const socket = {
-      sendMessage: jest.fn().mockResolvedValue({ key: { id: 'sent-1' } }),
+      sendMessage: jest.fn().mockResolvedValue({ key: { id: '3EB0GENERATED' } }),
+    };
+    const sessionService = {
+      getSocket: jest.fn().mockReturnValue(socket),
+      findMessage: jest.fn(),
+      emitWebhook: jest.fn(),
+    };
+    const prisma = {
+      session: { findUnique: jest.fn().mockResolvedValue(session) },
+      outboundMessage: {
+        create: jest.fn(({ data }) => Promise.resolve({ id: 'out-1', status: 'queued', ...data })),
+        findFirst: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        delete: jest.fn().mockResolvedValue(undefined),
+      },
     };
+    const queueService = {
+      reserveOutboundSlot: jest.fn().mockResolvedValue(new Date('2026-10-19T10:00:03.000Z')),
+      releaseOutboundSlot: jest.fn().mockResolvedValue(undefined),
+      addOutboundMessageJob: jest.fn().mockResolvedValue(undefined),
+    };
+    const clusterService = {
+      instanceId: 'instance-a',
+      getLeaseOwner: jest.fn().mockResolvedValue('instance-a'),
+      call: jest.fn(),
+      handle: jest.fn(),
+    };
+    const scheduledMessageService = {
+      resolveSendAt: jest.fn().mockReturnValue(undefined),
+      schedule: jest.fn(),
+      claim: jest.fn(),
+      markQueued: jest.fn().mockResolvedValue(undefined),
+      markFailed: jest.fn().mockResolvedValue(undefined),
+    };
+    const configService = { get: jest.fn((key: string, fallback?: unknown) => (key === 'SEND_JITTER_MS' ? 0 : fallback)) };
+    const service = new MessagingService(
+      sessionService as any,
+      prisma as any,
+      queueService as any,
+      clusterService as any,
+      scheduledMessageService as any,
+      configService as any,
+    );
+    return { service, socket, sessionService, prisma, queueService, clusterService, scheduledMessageService };
+  }
+
+  const textJob = {
+    id: 'out-1',
+    sessionId: 'session-1',
+    type: 'text' as const,
+    to: '6281234567890@s.whatsapp.net',
+    messageId: '3EB0GENERATED',
+    payload: { to: '6281234567890', text: 'reply', quotedMessageId: 'quoted-1' },
+  };
+
+  it("queues messages in the session's next send slot", async () => {
+    const { service, socket, queueService } = createService({
+      status: 'open',
+      sendRatePerMinute: 30,
+      sendJitterMs: null,
+      sendDailyCap: 500,
+    });
+
+    await expect(service.sendText('session-1', { to: '6281234567890', text: 'hello' })).resolves.toEqual(
+      expect.objectContaining({ id: 'out-1', status: 'queued', messageId: '3EB0GENERATED' }),
+    );
+
+    expect(socket.sendMessage).not.toHaveBeenCalled();
+    expect(queueService.reserveOutboundSlot).toHaveBeenCalledWith('session-1', 2000, 500);
+    expect(queueService.addOutboundMessageJob).toHaveBeenCalledWith(
+      {
+        id: 'out-1',
+        sessionId: 'session-1',
+        type: 'text',
+        to: '6281234567890@s.whatsapp.net',
+        messageId: '3EB0GENERATED',
+        payload: { to: '6281234567890', text: 'hello' },
+      },
+      new Date('2026-10-19T10:00:03.000Z'),
+    );
+  });
+
+  it('rejects messages once the daily cap is used up', async () => {
+    const { service, queueService, prisma } = createService({ status: 'open', sendDailyCap: 100 });
+    queueService.reserveOutboundSlot.mockResolvedValue(null);
+
+    const error = await service.sendText('session-1', { to: '6281234567890', text: 'hello' }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(HttpException);
+    expect((error as HttpException).getStatus()).toBe(429);
+    expect(prisma.outboundMessage.create).not.toHaveBeenCalled();
+  });
+
+  it('gives the send slot back when the message cannot be queued', async () => {
+    const { service, queueService, prisma } = createService({ status: 'open', sendRatePerMinute: 30, sendDailyCap: 100 });
+    queueService.addOutboundMessageJob.mockRejectedValue(new Error('Redis unavailable'));
+
+    await expect(service.sendText('session-1', { to: '6281234567890', text: 'hello' })).rejects.toThrow(
+      'Redis unavailable',
+    );
+
+    expect(queueService.releaseOutboundSlot).toHaveBeenCalledWith(
+      'session-1',
+      new Date('2026-10-19T10:00:03.000Z'),
+      2000,
+      100,
+    );
+    expect(prisma.outboundMessage.delete).toHaveBeenCalledWith({ where: { id: 'out-1' } });
+  });
+
+  it('schedules messages that ask for a later time without their scheduling options', async () => {
+    const { service, queueService, scheduledMessageService } = createService();
+    const sendAt = new Date('2026-12-24T09:00:00.000Z');
+    scheduledMessageService.resolveSendAt.mockReturnValue(sendAt);
+    scheduledMessageService.schedule.mockResolvedValue({ id: 'sched-1', status: 'pending', sendAt });
+
+    await expect(
+      service.sendText('session-1', { to: '6281234567890', text: 'hello', sendAt: sendAt.toISOString() }),
+    ).resolves.toEqual({ id: 'sched-1', status: 'pending', sendAt });
+
+    expect(scheduledMessageService.schedule).toHaveBeenCalledWith(
+      'session-1',
+      'text',
+      '6281234567890@s.whatsapp.net',
+      { to: '6281234567890', text: 'hello' },
+      sendAt,
+    );
+    expect(queueService.reserveOutboundSlot).not.toHaveBeenCalled();
+  });
+
+  it('queues a due scheduled message, or marks it failed when the session is not connected', async () => {
+    const { service, queueService, scheduledMessageService } = createService({ status: 'close' });
+    const scheduled = {
+      id: 'sched-1',
+      sessionId: 'session-1',
+      type: 'text',
+      to: '6281234567890@s.whatsapp.net',
+      payload: { to: '6281234567890', text: 'hello' },
+    };
+    scheduledMessageService.claim.mockResolvedValue(scheduled);
+
+    await service.fireScheduledMessage('sched-1');
+
+    expect(queueService.addOutboundMessageJob).not.toHaveBeenCalled();
+    expect(scheduledMessageService.markFailed).toHaveBeenCalledWith('sched-1', 'Session "session-1" is not connected');
+
+    const connected = createService();
+    connected.scheduledMessageService.claim.mockResolvedValue(scheduled);
+    await connected.service.fireScheduledMessage('sched-1');
+
+    expect(connected.queueService.addOutboundMessageJob).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'text', payload: scheduled.payload }),
+      expect.any(Date),
+    );
+    expect(connected.scheduledMessageService.markQueued).toHaveBeenCalledWith('sched-1', 'out-1');
+  });
+
+  it('awaits quoted message lookup before sending text replies', async () => {
+    const { service, socket, sessionService, prisma } = createService();
     const quoted = {
       key: {
         remoteJid: '6281234567890@s.whatsapp.net',
@@ -26,19 +189,9 @@ describe('MessagingService', () => {
       },
       message: { conversation: 'quoted text' },
     };
-    const sessionService = {
-      getSocket: jest.fn().mockReturnValue(socket),
-      findMessage: jest.fn().mockResolvedValue(quoted),
-    };
-    const service = new MessagingService(sessionService as any);
+    sessionService.findMessage.mockResolvedValue(quoted);
 
-    await expect(
-      service.sendText('session-1', {
-        to: '6281234567890',
-        text: 'reply',
-        quotedMessageId: 'quoted-1',
-      }),
-    ).resolves.toEqual({ messageId: 'sent-1', status: 'sent' });
+    await service.deliverOutbound(textJob, false);
 
     expect(sessionService.findMessage).toHaveBeenCalledWith(
       'session-1',
@@ -48,7 +201,61 @@ describe('MessagingService', () => {
     expect(socket.sendMessage).toHaveBeenCalledWith(
       '6281234567890@s.whatsapp.net',
       { text: 'reply' },
-      { quoted },
+      { quoted, messageId: '3EB0GENERATED' },
+    );
+    expect(prisma.outboundMessage.updateMany).toHaveBeenCalledWith({
+      where: { id: 'out-1', status: { in: ['queued'] } },
+      data: { status: 'sent', sentAt: expect.any(Date) },
+    });
+    expect(sessionService.emitWebhook).toHaveBeenCalledWith('session-1', 'messages.status', {
+      id: 'out-1',
+      messageId: '3EB0GENERATED',
+      to: '6281234567890@s.whatsapp.net',
+      status: 'sent',
+    });
+  });
+
+  it('sends on the instance that owns the session and marks the last failed attempt', async () => {
+    const { service, socket, clusterService, prisma } = createService();
+    clusterService.getLeaseOwner.mockResolvedValue('instance-b');
+    clusterService.call.mockRejectedValue(new Error('Session "session-1" is not connected'));
+
+    await expect(service.deliverOutbound(textJob, false)).rejects.toThrow('not connected');
+    expect(prisma.outboundMessage.updateMany).not.toHaveBeenCalled();
+
+    await expect(service.deliverOutbound(textJob, true)).rejects.toThrow('not connected');
+    expect(clusterService.call).toHaveBeenCalledWith('instance-b', 'outbound-send', textJob);
+    expect(socket.sendMessage).not.toHaveBeenCalled();
+    expect(prisma.outboundMessage.updateMany).toHaveBeenCalledWith({
+      where: { id: 'out-1', status: { in: ['queued', 'sent'] } },
+      data: { status: 'failed', failedAt: expect.any(Date), error: 'Session "session-1" is not connected' },
+    });
+  });
+
+  it('moves sent messages forward on delivery and read receipts', async () => {
+    const { service, prisma, sessionService } = createService();
+    prisma.outboundMessage.findFirst.mockResolvedValue({ ...textJob, status: 'sent' });
+
+    await service.handleMessageUpdates({
+      sessionId: 'session-1',
+      data: [
+        { key: { id: 'incoming-1', fromMe: false }, update: { status: 4 } },
+        { key: { id: '3EB0GENERATED', fromMe: true }, update: { status: 3 } },
+      ] as any,
+    });
+
+    expect(prisma.outboundMessage.findFirst).toHaveBeenCalledTimes(1);
+    expect(prisma.outboundMessage.findFirst).toHaveBeenCalledWith({
+      where: { sessionId: 'session-1', messageId: '3EB0GENERATED', status: { in: ['queued', 'sent'] } },
+    });
+    expect(prisma.outboundMessage.updateMany).toHaveBeenCalledWith({
+      where: { id: 'out-1', status: { in: ['queued', 'sent'] } },
+      data: { status: 'delivered', deliveredAt: expect.any(Date) },
+    });
+    expect(sessionService.emitWebhook).toHaveBeenCalledWith(
+      'session-1',
+      'messages.status',
+      expect.objectContaining({ id: 'out-1', status: 'delivered' }),
     );
   });
 });
@@ -1,11 +1,27 @@
-import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OnEvent } from '@nestjs/event-emitter';
 import { SessionService } from '../session/session.service.js';
+import { PrismaService } from '../prisma/prisma.service.js';
+import { QueueService } from '../queue/queue.service.js';
+import { ClusterService } from '../cluster/cluster.service.js';
+import type { OutboundMessage, Prisma } from '../generated/prisma/client/client.js';
+import { generateMessageIDV2 } from '@whiskeysockets/baileys';
 import type {
   AnyMessageContent,
   ChatModification,
   MiscMessageGenerationOptions,
   WAMessage,
   WAMessageKey,
+  WAMessageUpdate,
 } from '@whiskeysockets/baileys';
 import axios from 'axios';
 import {
@@ -23,13 +39,56 @@ import {
   ReadMessagesDto,
   StarMessageDto,
   SendStatusDto,
+  SendLinkPreviewDto,
+  ListOutboundMessagesDto,
+  ScheduleOptionsDto,
 } from './dto/messaging.dto.js';
+import { ScheduledMessageService } from './scheduled-message.service.js';
+import {
+  DEFAULT_SEND_LIMITS,
+  STATUS_TIMESTAMP_FIELDS,
+  outboundStatusOf,
+  sendGapMs,
+  statusesBefore,
+  type OutboundMessageJobData,
+  type OutboundMessageType,
+  type OutboundStatus,
+  type SendLimits,
+} from './outbound.js';
+
+// Cluster method sending a queued message on the instance that owns the session
+const OUTBOUND_SEND_METHOD = 'outbound-send';
+
+const STATUS_JID = 'status@broadcast';
+
+interface OutboundContent {
+  content: AnyMessageContent;
+  options: MiscMessageGenerationOptions;
+}
 
 @Injectable()
-export class MessagingService {
+export class MessagingService implements OnModuleInit {
   private readonly logger = new Logger(MessagingService.name);
+  private readonly defaultSendLimits: SendLimits;
+
+  constructor(
+    private readonly sessionService: SessionService,
+    private readonly prisma: PrismaService,
+    private readonly queueService: QueueService,
+    private readonly clusterService: ClusterService,
+    private readonly scheduledMessageService: ScheduledMessageService,
+    configService: ConfigService,
+  ) {
+    this.defaultSendLimits = {
+      ratePerMinute: Number(configService.get('SEND_RATE_PER_MINUTE', DEFAULT_SEND_LIMITS.ratePerMinute)),
+      jitterMs: Number(configService.get('SEND_JITTER_MS', DEFAULT_SEND_LIMITS.jitterMs)),
+      dailyCap: Number(configService.get('SEND_DAILY_CAP', DEFAULT_SEND_LIMITS.dailyCap)),
+    };
+  }
 
-  constructor(private readonly sessionService: SessionService) {}
+  onModuleInit() {
+    this.clusterService.handle(OUTBOUND_SEND_METHOD, (data: OutboundMessageJobData) => this.sendOutbound(data));
+  }
 
   private formatJid(jid: string): string {
     if (jid.includes('@')) return jid;
@@ -46,196 +105,45 @@ export class MessagingService {
   }
 
   async sendText(sessionId: string, dto: SendTextDto) {
-    const socket = this.sessionService.getSocket(sessionId);
-    const jid = this.formatJid(dto.to);
-
-    const quoted = dto.quotedMessageId
-      ? await this.sessionService.findMessage(sessionId, jid, dto.quotedMessageId)
-      : undefined;
-
-    const opts: MiscMessageGenerationOptions = {};
-    if (quoted) opts.quoted = quoted;
-
-    const result = await socket.sendMessage(jid, { text: dto.text }, opts);
-    return { messageId: result?.key?.id, status: 'sent' };
+    return this.submit(sessionId, 'text', this.formatJid(dto.to), dto);
   }
 
   async sendMedia(sessionId: string, dto: SendMediaDto) {
-    const socket = this.sessionService.getSocket(sessionId);
-    const jid = this.formatJid(dto.to);
-
-    let mediaBuffer: Buffer;
-    if (dto.media.startsWith('http://') || dto.media.startsWith('https://')) {
-      const response = await axios.get(dto.media, { responseType: 'arraybuffer' });
-      mediaBuffer = Buffer.from(response.data);
-    } else if (dto.media.startsWith('data:')) {
-      const base64Data = dto.media.split(',')[1];
-      mediaBuffer = Buffer.from(base64Data, 'base64');
-    } else {
-      mediaBuffer = Buffer.from(dto.media, 'base64');
-    }
-
-    const quoted = dto.quotedMessageId
-      ? await this.sessionService.findMessage(sessionId, jid, dto.quotedMessageId)
-      : undefined;
-
-    const opts: MiscMessageGenerationOptions = {};
-    if (quoted) opts.quoted = quoted;
-
-    let messageContent: AnyMessageContent;
-
-    switch (dto.type) {
-      case 'image':
-        messageContent = {
-          image: mediaBuffer,
-          caption: dto.caption,
-          mimetype: dto.mimetype || 'image/jpeg',
-          viewOnce: dto.viewOnce,
-        };
-        break;
-      case 'video':
-        messageContent = {
-          video: mediaBuffer,
-          caption: dto.caption,
-          mimetype: dto.mimetype || 'video/mp4',
-          viewOnce: dto.viewOnce,
-        };
-        break;
-      case 'audio':
-        messageContent = {
-          audio: mediaBuffer,
-          mimetype: dto.mimetype || 'audio/mpeg',
-          ptt: true,
-        };
-        break;
-      case 'document':
-        messageContent = {
-          document: mediaBuffer,
-          caption: dto.caption,
-          mimetype: dto.mimetype || 'application/pdf',
-          fileName: dto.fileName || 'document',
-        };
-        break;
-      case 'sticker':
-        messageContent = {
-          sticker: mediaBuffer,
-          mimetype: dto.mimetype || 'image/webp',
-        };
-        break;
-      default:
-        throw new BadRequestException(`Invalid media type: ${dto.type}`);
-    }
-
-    const result = await socket.sendMessage(jid, messageContent, opts);
-    return { messageId: result?.key?.id, status: 'sent' };
+    return this.submit(sessionId, 'media', this.formatJid(dto.to), dto);
   }
 
   async sendContact(sessionId: string, dto: SendContactDto) {
-    const socket = this.sessionService.getSocket(sessionId);
-    const jid = this.formatJid(dto.to);
-
-    const vCards = dto.contacts.map((contact) => {
-      return [
-        'BEGIN:VCARD',
-        'VERSION:3.0',
-        `FN:${contact.fullName}`,
-        contact.organization ? `ORG:${contact.organization}` : '',
-        `TEL;type=CELL;type=VOICE;waid=${contact.phoneNumber.replace(/[^0-9]/g, '')}:${contact.phoneNumber}`,
-        'END:VCARD',
-      ]
-        .filter(Boolean)
-        .join('\n');
-    });
-
-    const result = await socket.sendMessage(jid, {
-      contacts: {
-        displayName: dto.contacts.length === 1 ? dto.contacts[0].fullName : `${dto.contacts.length} contacts`,
-        contacts: vCards.map((vcard) => ({ vcard })),
-      },
-    });
-
-    return { messageId: result?.key?.id, status: 'sent' };
+    return this.submit(sessionId, 'contact', this.formatJid(dto.to), dto);
   }
 
   async sendLocation(sessionId: string, dto: SendLocationDto) {
-    const socket = this.sessionService.getSocket(sessionId);
-    const jid = this.formatJid(dto.to);
-
-    const result = await socket.sendMessage(jid, {
-      location: {
-        degreesLatitude: dto.latitude,
-        degreesLongitude: dto.longitude,
-        name: dto.name,
-        address: dto.address,
-      },
-    });
-
-    return { messageId: result?.key?.id, status: 'sent' };
+    return this.submit(sessionId, 'location', this.formatJid(dto.to), dto);
   }
 
   async sendPoll(sessionId: string, dto: SendPollDto) {
-    const socket = this.sessionService.getSocket(sessionId);
-    const jid = this.formatJid(dto.to);
-
-    const result = await socket.sendMessage(jid, {
-      poll: {
-        name: dto.name,
-        values: dto.options.map((o) => o.name),
-        selectableCount: dto.selectableCount ?? 1,
-      },
-    });
-
-    return { messageId: result?.key?.id, status: 'sent' };
+    return this.submit(sessionId, 'poll', this.formatJid(dto.to), dto);
   }
 
   async sendButtons(sessionId: string, dto: SendButtonsDto) {
-    const socket = this.sessionService.getSocket(sessionId);
-    const jid = this.formatJid(dto.to);
-
-    const content = {
-      text: dto.text,
-      footer: dto.footer,
-      buttons: dto.buttons,
-      headerType: 1,
-    } as unknown as AnyMessageContent;
-
-    const result = await socket.sendMessage(jid, content);
-
-    return { messageId: result?.key?.id, status: 'sent' };
+    return this.submit(sessionId, 'buttons', this.formatJid(dto.to), dto);
   }
 
   async sendList(sessionId: string, dto: SendListDto) {
-    const socket = this.sessionService.getSocket(sessionId);
-    const jid = this.formatJid(dto.to);
-
-    const content = {
-      text: dto.text,
-      footer: dto.footer,
-      title: dto.title,
-      buttonText: dto.buttonText,
-      sections: dto.sections,
-    } as unknown as AnyMessageContent;
-
-    const result = await socket.sendMessage(jid, content);
-
-    return { messageId: result?.key?.id, status: 'sent' };
+    return this.submit(sessionId, 'list', this.formatJid(dto.to), dto);
   }
 
   async sendReaction(sessionId: string, dto: SendReactionDto) {
-    const socket = this.sessionService.getSocket(sessionId);
-    const jid = this.formatJid(dto.to);
+    return this.submit(sessionId, 'reaction', this.formatJid(dto.to), dto);
+  }
 
-    const result = await socket.sendMessage(jid, {
-      react: {
-        text: dto.reaction,
-        key: {
-          remoteJid: jid,
-          id: dto.messageId,
-        },
-      },
-    });
+  async sendLinkPreview(sessionId: string, dto: SendLinkPreviewDto) {
+    return this.submit(sessionId, 'link-preview', this.formatJid(dto.to), dto);
+  }
 
-    return { messageId: result?.key?.id, status: 'sent' };
+  async sendStatus(sessionId: string, dto: SendStatusDto) {
+    if (dto.type === 'text' && !dto.text) throw new BadRequestException('Text is required for text status');
+    if (dto.type !== 'text' && !dto.media) throw new BadRequestException(`Media URL is required for ${dto.type} status`);
+    return this.submit(sessionId, 'status', STATUS_JID, dto);
   }
 
   async editMessage(sessionId: string, dto: EditMessageDto) {
@@ -307,21 +215,354 @@ export class MessagingService {
     return { status: dto.star ? 'starred' : 'unstarred' };
   }
 
-  async sendLinkPreview(sessionId: string, to: string, url: string, text?: string) {
-    const socket = this.sessionService.getSocket(sessionId);
-    const jid = this.formatJid(to);
+  async listOutboundMessages(sessionId: string, query: ListOutboundMessagesDto) {
+    const where: Prisma.OutboundMessageWhereInput = { sessionId };
+    if (query.status) where.status = query.status;
+    if (query.to) where.to = this.formatJid(query.to);
+
+    const limit = query.limit ?? 50;
+    const offset = query.offset ?? 0;
+    const [messages, total] = await Promise.all([
+      this.prisma.outboundMessage.findMany({ where, orderBy: { createdAt: 'desc' }, take: limit, skip: offset }),
+      this.prisma.outboundMessage.count({ where }),
+    ]);
+    return { messages, total, limit, offset };
+  }
 
-    const result = await socket.sendMessage(jid, {
-      text: text ? `${text}\n${url}` : url,
+  async getOutboundMessage(sessionId: string, id: string) {
+    const message = await this.prisma.outboundMessage.findFirst({ where: { id, sessionId } });
+    if (!message) throw new NotFoundException(`Outbound message "${id}" not found`);
+    return message;
+  }
+
+  /**
+   * Queue a message, or schedule it when the request asks for a later time.
+   */
+  private async submit(sessionId: string, type: OutboundMessageType, to: string, dto: ScheduleOptionsDto) {
+    const sendAt = this.scheduledMessageService.resolveSendAt(dto);
+    // The payload is the request without its scheduling options
+    const payload: Record<string, unknown> = { ...dto };
+    delete payload.sendAt;
+    delete payload.delayMs;
+
+    if (sendAt) return this.scheduledMessageService.schedule(sessionId, type, to, payload, sendAt);
+    return this.enqueue(sessionId, type, to, payload);
+  }
+
+  /**
+   * Hand a due scheduled message to the outbound queue. When that is refused, e.g.
+   * because the session is not connected, the message is marked failed instead.
+   */
+  async fireScheduledMessage(id: string) {
+    const scheduled = await this.scheduledMessageService.claim(id);
+    if (!scheduled) return;
+
+    try {
+      const message = await this.enqueue(
+        scheduled.sessionId,
+        scheduled.type as OutboundMessageType,
+        scheduled.to,
+        scheduled.payload as object,
+      );
+      await this.scheduledMessageService.markQueued(id, message.id);
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      this.logger.warn(`Scheduled message ${id} of "${scheduled.sessionId}" not sent: ${error}`);
+      await this.scheduledMessageService.markFailed(id, error);
+    }
+  }
+
+  /**
+   * Record a message and queue it in the session's next send slot. The session's send
+   * limits (or the instance defaults) space its messages out and cap them per day.
+   */
+  private async enqueue(sessionId: string, type: OutboundMessageType, to: string, payload: object) {
+    const session = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { status: true, sendRatePerMinute: true, sendJitterMs: true, sendDailyCap: true },
     });
+    if (!session) throw new NotFoundException(`Session "${sessionId}" not found`);
+    if (session.status !== 'open') throw new BadRequestException(`Session "${sessionId}" is not connected`);
 
-    return { messageId: result?.key?.id, status: 'sent' };
+    const limits: SendLimits = {
+      ratePerMinute: session.sendRatePerMinute ?? this.defaultSendLimits.ratePerMinute,
+      jitterMs: session.sendJitterMs ?? this.defaultSendLimits.jitterMs,
+      dailyCap: session.sendDailyCap ?? this.defaultSendLimits.dailyCap,
+    };
+    const gapMs = sendGapMs(limits);
+    const scheduledAt = await this.queueService.reserveOutboundSlot(sessionId, gapMs, limits.dailyCap);
+    if (!scheduledAt) {
+      throw new HttpException(
+        `Session "${sessionId}" reached its daily cap of ${limits.dailyCap} messages`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    let message: OutboundMessage | undefined;
+    try {
+      message = await this.prisma.outboundMessage.create({
+        data: { sessionId, type, to, messageId: generateMessageIDV2(), scheduledAt },
+      });
+      await this.queueService.addOutboundMessageJob(
+        { id: message.id, sessionId, type, to, messageId: message.messageId, payload: { ...payload } },
+        scheduledAt,
+      );
+      return message;
+    } catch (err) {
+      // Nothing will be sent in the slot, so the session gets it back
+      await this.queueService.releaseOutboundSlot(sessionId, scheduledAt, gapMs, limits.dailyCap);
+      if (message) await this.prisma.outboundMessage.delete({ where: { id: message.id } }).catch(() => undefined);
+      throw err;
+    }
   }
 
-  async sendStatus(sessionId: string, dto: SendStatusDto) {
-    const socket = this.sessionService.getSocket(sessionId);
-    const statusJid = 'status@broadcast';
+  /**
+   * Send a queued message on the instance that owns the session. Once the last attempt
+   * fails, the message is marked failed.
+   */
+  async deliverOutbound(data: OutboundMessageJobData, finalAttempt: boolean) {
+    try {
+      const owner = await this.clusterService.getLeaseOwner(data.sessionId);
+      if (owner && owner !== this.clusterService.instanceId) {
+        await this.clusterService.call(owner, OUTBOUND_SEND_METHOD, data);
+      } else {
+        await this.sendOutbound(data);
+      }
+    } catch (err) {
+      if (finalAttempt) {
+        await this.updateOutboundStatus(data, 'failed', err instanceof Error ? err.message : String(err));
+      }
+      throw err;
+    }
+  }
+
+  private async sendOutbound(data: OutboundMessageJobData) {
+    const socket = this.sessionService.getSocket(data.sessionId);
+    const { content, options } = await this.buildOutbound(data);
+    await socket.sendMessage(data.to, content, { ...options, messageId: data.messageId });
+    await this.updateOutboundStatus(data, 'sent');
+  }
+
+  /**
+   * Follow the delivery and read receipts of messages sent through the queue.
+   */
+  @OnEvent('baileys.messages.update')
+  async handleMessageUpdates({ sessionId, data }: { sessionId: string; data: WAMessageUpdate[] }) {
+    for (const { key, update } of data) {
+      const status = outboundStatusOf(update.status);
+      if (!key.fromMe || !key.id || !status) continue;
+
+      const message = await this.prisma.outboundMessage.findFirst({
+        where: { sessionId, messageId: key.id, status: { in: statusesBefore(status) } },
+      });
+      if (message) await this.updateOutboundStatus(message, status);
+    }
+  }
+
+  private async updateOutboundStatus(
+    message: Pick<OutboundMessage, 'id' | 'sessionId' | 'messageId' | 'to'>,
+    status: Exclude<OutboundStatus, 'queued'>,
+    error?: string,
+  ) {
+    const data: Prisma.OutboundMessageUpdateManyMutationInput = { status };
+    data[STATUS_TIMESTAMP_FIELDS[status]] = new Date();
+    if (error) data.error = error;
+
+    const { count } = await this.prisma.outboundMessage.updateMany({
+      where: { id: message.id, status: { in: statusesBefore(status) } },
+      data,
+    });
+    if (count === 0) return;
+
+    this.sessionService.emitWebhook(message.sessionId, 'messages.status', {
+      id: message.id,
+      messageId: message.messageId,
+      to: message.to,
+      status,
+      ...(error ? { error } : {}),
+    });
+  }
+
+  private async buildOutbound({ sessionId, type, to, payload }: OutboundMessageJobData): Promise<OutboundContent> {
+    switch (type) {
+      case 'text':
+        return this.textContent(sessionId, to, payload as unknown as SendTextDto);
+      case 'media':
+        return this.mediaContent(sessionId, to, payload as unknown as SendMediaDto);
+      case 'contact':
+        return { content: this.contactContent(payload as unknown as SendContactDto), options: {} };
+      case 'location': {
+        const dto = payload as unknown as SendLocationDto;
+        return {
+          content: {
+            location: {
+              degreesLatitude: dto.latitude,
+              degreesLongitude: dto.longitude,
+              name: dto.name,
+              address: dto.address,
+            },
+          },
+          options: {},
+        };
+      }
+      case 'poll': {
+        const dto = payload as unknown as SendPollDto;
+        return {
+          content: {
+            poll: {
+              name: dto.name,
+              values: dto.options.map((o) => o.name),
+              selectableCount: dto.selectableCount ?? 1,
+            },
+          },
+          options: {},
+        };
+      }
+      case 'buttons': {
+        const dto = payload as unknown as SendButtonsDto;
+        const content = {
+          text: dto.text,
+          footer: dto.footer,
+          buttons: dto.buttons,
+          headerType: 1,
+        } as unknown as AnyMessageContent;
+        return { content, options: {} };
+      }
+      case 'list': {
+        const dto = payload as unknown as SendListDto;
+        const content = {
+          text: dto.text,
+          footer: dto.footer,
+          title: dto.title,
+          buttonText: dto.buttonText,
+          sections: dto.sections,
+        } as unknown as AnyMessageContent;
+        return { content, options: {} };
+      }
+      case 'reaction': {
+        const dto = payload as unknown as SendReactionDto;
+        return {
+          content: {
+            react: {
+              text: dto.reaction,
+              key: {
+                remoteJid: to,
+                id: dto.messageId,
+              },
+            },
+          },
+          options: {},
+        };
+      }
+      case 'link-preview': {
+        const dto = payload as unknown as SendLinkPreviewDto;
+        return { content: { text: dto.text ? `${dto.text}\n${dto.url}` : dto.url }, options: {} };
+      }
+      case 'status':
+        return this.statusContent(payload as unknown as SendStatusDto);
+    }
+  }
+
+  private async textContent(sessionId: string, jid: string, dto: SendTextDto): Promise<OutboundContent> {
+    const quoted = dto.quotedMessageId
+      ? await this.sessionService.findMessage(sessionId, jid, dto.quotedMessageId)
+      : undefined;
+
+    const opts: MiscMessageGenerationOptions = {};
+    if (quoted) opts.quoted = quoted;
+
+    return { content: { text: dto.text }, options: opts };
+  }
+
+  private async mediaContent(sessionId: string, jid: string, dto: SendMediaDto): Promise<OutboundContent> {
+    let mediaBuffer: Buffer;
+    if (dto.media.startsWith('http://') || dto.media.startsWith('https://')) {
+      const response = await axios.get(dto.media, { responseType: 'arraybuffer' });
+      mediaBuffer = Buffer.from(response.data);
+    } else if (dto.media.startsWith('data:')) {
+      const base64Data = dto.media.split(',')[1];
+      mediaBuffer = Buffer.from(base64Data, 'base64');
+    } else {
+      mediaBuffer = Buffer.from(dto.media, 'base64');
+    }
+
+    const quoted = dto.quotedMessageId
+      ? await this.sessionService.findMessage(sessionId, jid, dto.quotedMessageId)
+      : undefined;
+
+    const opts: MiscMessageGenerationOptions = {};
+    if (quoted) opts.quoted = quoted;
 
+    let messageContent: AnyMessageContent;
+
+    switch (dto.type) {
+      case 'image':
+        messageContent = {
+          image: mediaBuffer,
+          caption: dto.caption,
+          mimetype: dto.mimetype || 'image/jpeg',
+          viewOnce: dto.viewOnce,
+        };
+        break;
+      case 'video':
+        messageContent = {
+          video: mediaBuffer,
+          caption: dto.caption,
+          mimetype: dto.mimetype || 'video/mp4',
+          viewOnce: dto.viewOnce,
+        };
+        break;
+      case 'audio':
+        messageContent = {
+          audio: mediaBuffer,
+          mimetype: dto.mimetype || 'audio/mpeg',
+          ptt: true,
+        };
+        break;
+      case 'document':
+        messageContent = {
+          document: mediaBuffer,
+          caption: dto.caption,
+          mimetype: dto.mimetype || 'application/pdf',
+          fileName: dto.fileName || 'document',
+        };
+        break;
+      case 'sticker':
+        messageContent = {
+          sticker: mediaBuffer,
+          mimetype: dto.mimetype || 'image/webp',
+        };
+        break;
+      default:
+        throw new BadRequestException(`Invalid media type: ${dto.type}`);
+    }
+
+    return { content: messageContent, options: opts };
+  }
+
+  private contactContent(dto: SendContactDto): AnyMessageContent {
+    const vCards = dto.contacts.map((contact) => {
+      return [
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        `FN:${contact.fullName}`,
+        contact.organization ? `ORG:${contact.organization}` : '',
+        `TEL;type=CELL;type=VOICE;waid=${contact.phoneNumber.replace(/[^0-9]/g, '')}:${contact.phoneNumber}`,
+        'END:VCARD',
+      ]
+        .filter(Boolean)
+        .join('\n');
+    });
+
+    return {
+      contacts: {
+        displayName: dto.contacts.length === 1 ? dto.contacts[0].fullName : `${dto.contacts.length} contacts`,
+        contacts: vCards.map((vcard) => ({ vcard })),
+      },
+    };
+  }
+
+  private async statusContent(dto: SendStatusDto): Promise<OutboundContent> {
     let messageContent: AnyMessageContent;
     const options: MiscMessageGenerationOptions = {
       statusJidList: dto.statusJidList,
@@ -364,12 +605,6 @@ export class MessagingService {
         throw new BadRequestException(`Invalid status type: ${dto.type}`);
     }
 
-    const result = await socket.sendMessage(
-      statusJid,
-      messageContent,
-      options,
-    );
-
-    return { messageId: result?.key?.id, status: 'posted' };
+    return { content: messageContent, options };
   }
 }
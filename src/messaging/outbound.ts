@@ -0,0 +1,89 @@
+export const OUTBOUND_MESSAGE_TYPES = [
+  'text',
+  'media',
+  'contact',
+  'location',
+  'poll',
+  'buttons',
+  'list',
+  'reaction',
+  'status',
+  'link-preview',
+] as const;
+export type OutboundMessageType = (typeof OUTBOUND_MESSAGE_TYPES)[number];
+
+export const OUTBOUND_STATUSES = ['queued', 'sent', 'delivered', 'read', 'failed'] as const;
+export type OutboundStatus = (typeof OUTBOUND_STATUSES)[number];
+
+// Pending until it fires, then queued (handed to the outbound queue) or failed
+export const SCHEDULED_MESSAGE_STATUSES = ['pending', 'queued', 'failed', 'cancelled'] as const;
+export type ScheduledMessageStatus = (typeof SCHEDULED_MESSAGE_STATUSES)[number];
+
+export interface OutboundMessageJobData {
+  // OutboundMessage row, also used as the job ID
+  id: string;
+  sessionId: string;
+  type: OutboundMessageType;
+  to: string;
+  // WhatsApp message ID, fixed up front so a retried send is not delivered twice
+  messageId: string;
+  // The request body of the send endpoint
+  payload: Record<string, unknown>;
+}
+
+export interface SendLimits {
+  ratePerMinute: number;
+  // Up to this much is added at random to the gap after each message
+  jitterMs: number;
+  // Messages accepted per UTC day; 0 is unlimited
+  dailyCap: number;
+}
+
+export const DEFAULT_SEND_LIMITS: SendLimits = { ratePerMinute: 20, jitterMs: 2000, dailyCap: 0 };
+
+/**
+ * Time the next message of a session has to wait after this one.
+ */
+export function sendGapMs(limits: SendLimits): number {
+  return Math.round(60000 / limits.ratePerMinute + Math.random() * limits.jitterMs);
+}
+
+/**
+ * Map a Baileys message status (proto.WebMessageInfo.Status) to an outbound status.
+ * PENDING (1) is what the message starts with, so it changes nothing.
+ */
+export function outboundStatusOf(
+  waStatus: number | null | undefined,
+): Exclude<OutboundStatus, 'queued'> | undefined {
+  switch (waStatus) {
+    case 0: // ERROR
+      return 'failed';
+    case 2: // SERVER_ACK
+      return 'sent';
+    case 3: // DELIVERY_ACK
+      return 'delivered';
+    case 4: // READ
+    case 5: // PLAYED
+      return 'read';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Statuses a message can move on from to `status`. Receipts may arrive out of order
+ * (a read receipt before the delivery one), so a status never moves backwards.
+ */
+export function statusesBefore(status: OutboundStatus): OutboundStatus[] {
+  if (status === 'failed') return ['queued', 'sent'];
+  const progress: OutboundStatus[] = ['queued', 'sent', 'delivered', 'read'];
+  return progress.slice(0, progress.indexOf(status));
+}
+
+// Column recording when a message reached each status
+export const STATUS_TIMESTAMP_FIELDS = {
+  sent: 'sentAt',
+  delivered: 'deliveredAt',
+  read: 'readAt',
+  failed: 'failedAt',
+} as const satisfies Record<Exclude<OutboundStatus, 'queued'>, string>;
@@ -0,0 +1,38 @@
+import { Controller, Get, Patch, Delete, Param, Body, Query, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiSecurity, ApiParam } from '@nestjs/swagger';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator.js';
+import { ScheduledMessageService } from './scheduled-message.service.js';
+import { ListScheduledMessagesDto, RescheduleMessageDto } from './dto/messaging.dto.js';
+
+@ApiTags('Messaging')
+@ApiSecurity('x-api-key')
+@RequireScopes('messages:send')
+@Controller(':sessionId/messages/scheduled')
+export class ScheduledMessageController {
+  constructor(private readonly scheduledMessageService: ScheduledMessageService) {}
+
+  @Get()
+  @RequireScopes('read-only', 'messages:send')
+  @ApiOperation({ summary: 'List scheduled messages, soonest first' })
+  @ApiParam({ name: 'sessionId' })
+  list(@Param('sessionId') sessionId: string, @Query() query: ListScheduledMessagesDto) {
+    return this.scheduledMessageService.list(sessionId, query);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Move a pending scheduled message to another time' })
+  @ApiParam({ name: 'sessionId' })
+  @ApiParam({ name: 'id', description: 'Scheduled message ID' })
+  reschedule(@Param('sessionId') sessionId: string, @Param('id') id: string, @Body() dto: RescheduleMessageDto) {
+    return this.scheduledMessageService.reschedule(sessionId, id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel a pending scheduled message' })
+  @ApiParam({ name: 'sessionId' })
+  @ApiParam({ name: 'id', description: 'Scheduled message ID' })
+  cancel(@Param('sessionId') sessionId: string, @Param('id') id: string) {
+    return this.scheduledMessageService.cancel(sessionId, id);
+  }
+}
@@ -0,0 +1,106 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { ScheduledMessageService } from './scheduled-message.service';
+
+describe('ScheduledMessageService', () => {
+  const sendAt = new Date('2026-12-24T09:00:00.000Z');
+
+  function createService() {
+    const prisma = {
+      session: { findUnique: jest.fn().mockResolvedValue({ id: 'session-1' }) },
+      scheduledMessage: {
+        create: jest.fn(({ data }) => Promise.resolve({ id: 'sched-1', status: 'pending', ...data })),
+        findFirst: jest.fn(),
+        findMany: jest.fn().mockResolvedValue([]),
+        findUnique: jest.fn(),
+        update: jest.fn().mockResolvedValue(undefined),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+    const queueService = {
+      addScheduledMessageJob: jest.fn().mockResolvedValue(undefined),
+      removeScheduledMessageJob: jest.fn().mockResolvedValue(undefined),
+    };
+    return { service: new ScheduledMessageService(prisma as any, queueService as any), prisma, queueService };
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-12-01T00:00:00.000Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('resolves sendAt or delayMs into a time in the future', () => {
+    const { service } = createService();
+
+    expect(service.resolveSendAt({})).toBeUndefined();
+    expect(service.resolveSendAt({ delayMs: 60000 })).toEqual(new Date('2026-12-01T00:01:00.000Z'));
+    expect(service.resolveSendAt({ sendAt: sendAt.toISOString() })).toEqual(sendAt);
+    expect(() => service.resolveSendAt({ sendAt: '2026-11-30T00:00:00.000Z' })).toThrow(BadRequestException);
+    expect(() => service.resolveSendAt({ sendAt: sendAt.toISOString(), delayMs: 1000 })).toThrow(BadRequestException);
+  });
+
+  it('stores the message and queues a delayed job for it', async () => {
+    const { service, prisma, queueService } = createService();
+
+    await service.schedule('session-1', 'text', '6281234567890@s.whatsapp.net', { text: 'hello' }, sendAt);
+
+    expect(prisma.scheduledMessage.create).toHaveBeenCalledWith({
+      data: {
+        sessionId: 'session-1',
+        type: 'text',
+        to: '6281234567890@s.whatsapp.net',
+        payload: { text: 'hello' },
+        sendAt,
+      },
+    });
+    expect(queueService.addScheduledMessageJob).toHaveBeenCalledWith('sched-1', sendAt);
+  });
+
+  it('moves a pending message to its new job and only cancels pending ones', async () => {
+    const { service, prisma, queueService } = createService();
+    prisma.scheduledMessage.findFirst.mockResolvedValue({ id: 'sched-1', sessionId: 'session-1', status: 'pending', sendAt });
+
+    await expect(service.reschedule('session-1', 'sched-1', { delayMs: 3600000 })).resolves.toEqual(
+      expect.objectContaining({ sendAt: new Date('2026-12-01T01:00:00.000Z') }),
+    );
+    expect(queueService.addScheduledMessageJob).toHaveBeenCalledWith('sched-1', new Date('2026-12-01T01:00:00.000Z'));
+    expect(queueService.removeScheduledMessageJob).toHaveBeenCalledWith('sched-1', sendAt);
+
+    prisma.scheduledMessage.findFirst.mockResolvedValue({ id: 'sched-1', sessionId: 'session-1', status: 'queued', sendAt });
+    await expect(service.cancel('session-1', 'sched-1')).rejects.toBeInstanceOf(ConflictException);
+  });
+
+  it('keeps the job when a message is rescheduled to the time it already has', async () => {
+    const { service, prisma, queueService } = createService();
+    prisma.scheduledMessage.findFirst.mockResolvedValue({ id: 'sched-1', sessionId: 'session-1', status: 'pending', sendAt });
+
+    await expect(service.reschedule('session-1', 'sched-1', { sendAt: sendAt.toISOString() })).resolves.toEqual(
+      expect.objectContaining({ sendAt }),
+    );
+    expect(prisma.scheduledMessage.updateMany).not.toHaveBeenCalled();
+    expect(queueService.addScheduledMessageJob).not.toHaveBeenCalled();
+    expect(queueService.removeScheduledMessageJob).not.toHaveBeenCalled();
+  });
+
+  it('recreates jobs of pending messages on startup', async () => {
+    const { service, prisma, queueService } = createService();
+    prisma.scheduledMessage.findMany.mockResolvedValue([{ id: 'sched-1', sendAt }]);
+
+    await service.onModuleInit();
+
+    expect(queueService.addScheduledMessageJob).toHaveBeenCalledWith('sched-1', sendAt);
+  });
+
+  it('only claims messages that are still pending and due', async () => {
+    const { service, prisma } = createService();
+    prisma.scheduledMessage.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.claim('sched-1')).resolves.toBeNull();
+    expect(prisma.scheduledMessage.updateMany).toHaveBeenCalledWith({
+      where: { id: 'sched-1', status: 'pending', sendAt: { lte: new Date('2026-12-01T00:00:01.000Z') } },
+      data: { status: 'queued' },
+    });
+  });
+});
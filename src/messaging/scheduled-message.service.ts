@@ -0,0 +1,133 @@
+import { BadRequestException, ConflictException, Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import type { Prisma } from '../generated/prisma/client/client.js';
+import { PrismaService } from '../prisma/prisma.service.js';
+import { QueueService } from '../queue/queue.service.js';
+import { ListScheduledMessagesDto, ScheduleOptionsDto } from './dto/messaging.dto.js';
+import type { OutboundMessageType } from './outbound.js';
+
+// A delayed job may fire a moment before its time
+const DUE_TOLERANCE_MS = 1000;
+
+/**
+ * Messages to be sent later. The row is the source of truth; a delayed job on the
+ * scheduled-message queue fires it, handing it to the outbound queue.
+ */
+@Injectable()
+export class ScheduledMessageService implements OnModuleInit {
+  private readonly logger = new Logger(ScheduledMessageService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly queueService: QueueService,
+  ) {}
+
+  // Recreate jobs of pending messages in case Redis lost them; existing jobs are kept as they are
+  async onModuleInit() {
+    const pending = await this.prisma.scheduledMessage.findMany({
+      where: { status: 'pending' },
+      select: { id: true, sendAt: true },
+    });
+    for (const message of pending) {
+      await this.queueService.addScheduledMessageJob(message.id, message.sendAt);
+    }
+    if (pending.length > 0) this.logger.log(`Checked jobs of ${pending.length} pending scheduled message(s)`);
+  }
+
+  /**
+   * Time a send request asks for, or undefined to send right away.
+   */
+  resolveSendAt(dto: ScheduleOptionsDto): Date | undefined {
+    if (dto.sendAt !== undefined && dto.delayMs !== undefined) {
+      throw new BadRequestException('Give either sendAt or delayMs, not both');
+    }
+    if (dto.delayMs !== undefined) return new Date(Date.now() + dto.delayMs);
+    if (dto.sendAt === undefined) return undefined;
+
+    const sendAt = new Date(dto.sendAt);
+    if (sendAt.getTime() <= Date.now()) throw new BadRequestException('sendAt must be in the future');
+    return sendAt;
+  }
+
+  async schedule(sessionId: string, type: OutboundMessageType, to: string, payload: object, sendAt: Date) {
+    const session = await this.prisma.session.findUnique({ where: { id: sessionId }, select: { id: true } });
+    if (!session) throw new NotFoundException(`Session "${sessionId}" not found`);
+
+    const message = await this.prisma.scheduledMessage.create({
+      data: { sessionId, type, to, payload: { ...payload }, sendAt },
+    });
+    await this.queueService.addScheduledMessageJob(message.id, sendAt);
+
+    this.logger.log(`Scheduled ${type} message ${message.id} of "${sessionId}" for ${sendAt.toISOString()}`);
+    return message;
+  }
+
+  async list(sessionId: string, query: ListScheduledMessagesDto) {
+    const where: Prisma.ScheduledMessageWhereInput = { sessionId };
+    if (query.status) where.status = query.status;
+
+    const limit = query.limit ?? 50;
+    const offset = query.offset ?? 0;
+    const [messages, total] = await Promise.all([
+      this.prisma.scheduledMessage.findMany({ where, orderBy: { sendAt: 'asc' }, take: limit, skip: offset }),
+      this.prisma.scheduledMessage.count({ where }),
+    ]);
+    return { messages, total, limit, offset };
+  }
+
+  async reschedule(sessionId: string, id: string, dto: ScheduleOptionsDto) {
+    const sendAt = this.resolveSendAt(dto);
+    if (!sendAt) throw new BadRequestException('Give sendAt or delayMs');
+
+    const message = await this.findPending(sessionId, id);
+    // Same time, same job ID: there is nothing to move, and removing the old job would drop the only one
+    if (message.sendAt.getTime() === sendAt.getTime()) return message;
+
+    const { count } = await this.prisma.scheduledMessage.updateMany({ where: { id, status: 'pending' }, data: { sendAt } });
+    if (count === 0) throw new ConflictException(`Scheduled message "${id}" is no longer pending`);
+
+    // The new job goes in first, so the message is never left without one
+    await this.queueService.addScheduledMessageJob(id, sendAt);
+    await this.queueService.removeScheduledMessageJob(id, message.sendAt);
+    return { ...message, sendAt };
+  }
+
+  async cancel(sessionId: string, id: string) {
+    const message = await this.findPending(sessionId, id);
+    const { count } = await this.prisma.scheduledMessage.updateMany({
+      where: { id, status: 'pending' },
+      data: { status: 'cancelled' },
+    });
+    if (count === 0) throw new ConflictException(`Scheduled message "${id}" is no longer pending`);
+
+    await this.queueService.removeScheduledMessageJob(id, message.sendAt);
+    return { ...message, status: 'cancelled' };
+  }
+
+  /**
+   * Take a due message for sending. Returns null when it was cancelled, moved to a
+   * later time or already taken, so a stale or repeated job does nothing.
+   */
+  async claim(id: string) {
+    const { count } = await this.prisma.scheduledMessage.updateMany({
+      where: { id, status: 'pending', sendAt: { lte: new Date(Date.now() + DUE_TOLERANCE_MS) } },
+      data: { status: 'queued' },
+    });
+    if (count === 0) return null;
+    return this.prisma.scheduledMessage.findUnique({ where: { id } });
+  }
+
+  async markQueued(id: string, outboundMessageId: string) {
+    await this.prisma.scheduledMessage.update({ where: { id }, data: { outboundMessageId } });
+  }
+
+  async markFailed(id: string, error: string) {
+    await this.prisma.scheduledMessage.update({ where: { id }, data: { status: 'failed', error } });
+  }
+
+  private async findPending(sessionId: string, id: string) {
+    const message = await this.prisma.scheduledMessage.findFirst({ where: { id, sessionId } });
+    if (!message) throw new NotFoundException(`Scheduled message "${id}" not found`);
+    if (message.status !== 'pending') throw new ConflictException(`Scheduled message "${id}" is already ${message.status}`);
+    return message;
+  }
+}
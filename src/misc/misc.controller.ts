@@ -1,5 +1,6 @@
 import { Controller, Get, Post, Delete, Param, Body, Query } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiSecurity, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator.js';
 import { MiscService } from './misc.service.js';
 import {
   SetPresenceDto,
@@ -11,6 +12,7 @@ import {
 
 @ApiTags('Misc')
 @ApiSecurity('x-api-key')
+@RequireScopes('chats:write')
 @Controller(':sessionId')
 export class MiscController {
   constructor(private readonly miscService: MiscService) {}
@@ -32,6 +34,7 @@ export class MiscController {
 
   // === Labels ===
   @Get('labels')
+  @RequireScopes('read-only')
   @ApiOperation({ summary: 'Get labels info (delivered via events)' })
   @ApiParam({ name: 'sessionId' })
   getLabels(@Param('sessionId') sessionId: string) {
@@ -86,6 +89,7 @@ export class MiscController {
 
   // === Privacy ===
   @Get('privacy')
+  @RequireScopes('read-only')
   @ApiOperation({ summary: 'Get all privacy settings' })
   @ApiParam({ name: 'sessionId' })
   getPrivacy(@Param('sessionId') sessionId: string) {
@@ -93,6 +97,7 @@ export class MiscController {
   }
 
   @Post('privacy/last-seen')
+  @RequireScopes('profile:write')
   @ApiOperation({ summary: 'Update last-seen privacy' })
   @ApiParam({ name: 'sessionId' })
   updateLastSeen(@Param('sessionId') sessionId: string, @Body() body: { value: string }) {
@@ -100,6 +105,7 @@ export class MiscController {
   }
 
   @Post('privacy/online')
+  @RequireScopes('profile:write')
   @ApiOperation({ summary: 'Update online status privacy' })
   @ApiParam({ name: 'sessionId' })
   updateOnline(@Param('sessionId') sessionId: string, @Body() body: { value: string }) {
@@ -107,6 +113,7 @@ export class MiscController {
   }
 
   @Post('privacy/profile-picture')
+  @RequireScopes('profile:write')
   @ApiOperation({ summary: 'Update profile picture privacy' })
   @ApiParam({ name: 'sessionId' })
   updateProfilePicture(@Param('sessionId') sessionId: string, @Body() body: { value: string }) {
@@ -114,6 +121,7 @@ export class MiscController {
   }
 
   @Post('privacy/status')
+  @RequireScopes('profile:write')
   @ApiOperation({ summary: 'Update status/about privacy' })
   @ApiParam({ name: 'sessionId' })
   updateStatus(@Param('sessionId') sessionId: string, @Body() body: { value: string }) {
@@ -121,6 +129,7 @@ export class MiscController {
   }
 
   @Post('privacy/read-receipts')
+  @RequireScopes('profile:write')
   @ApiOperation({ summary: 'Update read receipts privacy' })
   @ApiParam({ name: 'sessionId' })
   updateReadReceipts(@Param('sessionId') sessionId: string, @Body() body: { value: string }) {
@@ -128,6 +137,7 @@ export class MiscController {
   }
 
   @Post('privacy/groups')
+  @RequireScopes('profile:write')
   @ApiOperation({ summary: 'Update groups add privacy' })
   @ApiParam({ name: 'sessionId' })
   updateGroups(@Param('sessionId') sessionId: string, @Body() body: { value: string }) {
@@ -136,6 +146,7 @@ export class MiscController {
 
   // === Newsletter / Channel ===
   @Post('newsletters')
+  @RequireScopes('newsletters:write')
   @ApiOperation({ summary: 'Create a new newsletter/channel' })
   @ApiParam({ name: 'sessionId' })
   createNewsletter(@Param('sessionId') sessionId: string, @Body() dto: CreateNewsletterDto) {
@@ -143,6 +154,7 @@ export class MiscController {
   }
 
   @Get('newsletters/:newsletterJid')
+  @RequireScopes('read-only')
   @ApiOperation({ summary: 'Get newsletter metadata' })
   @ApiParam({ name: 'sessionId' })
   @ApiParam({ name: 'newsletterJid' })
@@ -154,6 +166,7 @@ export class MiscController {
   }
 
   @Get('newsletters/:newsletterJid/subscribers')
+  @RequireScopes('read-only')
   @ApiOperation({ summary: 'Get newsletter subscriber count' })
   @ApiParam({ name: 'sessionId' })
   @ApiParam({ name: 'newsletterJid' })
@@ -165,6 +178,7 @@ export class MiscController {
   }
 
   @Get('newsletters/:newsletterJid/messages')
+  @RequireScopes('read-only')
   @ApiOperation({ summary: 'Fetch newsletter messages' })
   @ApiParam({ name: 'sessionId' })
   @ApiParam({ name: 'newsletterJid' })
@@ -188,6 +202,7 @@ export class MiscController {
   }
 
   @Post('newsletters/follow')
+  @RequireScopes('newsletters:write')
   @ApiOperation({ summary: 'Follow a newsletter/channel' })
   @ApiParam({ name: 'sessionId' })
   followNewsletter(@Param('sessionId') sessionId: string, @Body() dto: NewsletterActionDto) {
@@ -195,6 +210,7 @@ export class MiscController {
   }
 
   @Post('newsletters/unfollow')
+  @RequireScopes('newsletters:write')
   @ApiOperation({ summary: 'Unfollow a newsletter/channel' })
   @ApiParam({ name: 'sessionId' })
   unfollowNewsletter(@Param('sessionId') sessionId: string, @Body() dto: NewsletterActionDto) {
@@ -202,6 +218,7 @@ export class MiscController {
   }
 
   @Post('newsletters/mute')
+  @RequireScopes('newsletters:write')
   @ApiOperation({ summary: 'Mute a newsletter/channel' })
   @ApiParam({ name: 'sessionId' })
   muteNewsletter(@Param('sessionId') sessionId: string, @Body() dto: NewsletterActionDto) {
@@ -209,6 +226,7 @@ export class MiscController {
   }
 
   @Post('newsletters/unmute')
+  @RequireScopes('newsletters:write')
   @ApiOperation({ summary: 'Unmute a newsletter/channel' })
   @ApiParam({ name: 'sessionId' })
   unmuteNewsletter(@Param('sessionId') sessionId: string, @Body() dto: NewsletterActionDto) {
@@ -216,6 +234,7 @@ export class MiscController {
   }
 
   @Post('newsletters/send')
+  @RequireScopes('newsletters:write')
   @ApiOperation({ summary: 'Send a message to a newsletter' })
   @ApiParam({ name: 'sessionId' })
   sendNewsletterMessage(@Param('sessionId') sessionId: string, @Body() dto: SendNewsletterMessageDto) {
@@ -223,6 +242,7 @@ export class MiscController {
   }
 
   @Post('newsletters/:newsletterJid/name')
+  @RequireScopes('newsletters:write')
   @ApiOperation({ summary: 'Update newsletter name' })
   @ApiParam({ name: 'sessionId' })
   @ApiParam({ name: 'newsletterJid' })
@@ -235,6 +255,7 @@ export class MiscController {
   }
 
   @Post('newsletters/:newsletterJid/description')
+  @RequireScopes('newsletters:write')
   @ApiOperation({ summary: 'Update newsletter description' })
   @ApiParam({ name: 'sessionId' })
   @ApiParam({ name: 'newsletterJid' })
@@ -247,6 +268,7 @@ export class MiscController {
   }
 
   @Delete('newsletters/:newsletterJid')
+  @RequireScopes('newsletters:write')
   @ApiOperation({ summary: 'Delete a newsletter' })
   @ApiParam({ name: 'sessionId' })
   @ApiParam({ name: 'newsletterJid' })
@@ -258,6 +280,7 @@ export class MiscController {
   }
 
   @Post('newsletters/:newsletterJid/react')
+  @RequireScopes('newsletters:write')
   @ApiOperation({ summary: 'React to a newsletter message' })
   @ApiParam({ name: 'sessionId' })
   @ApiParam({ name: 'newsletterJid' })
@@ -271,6 +294,7 @@ export class MiscController {
 
   // === Blocklist ===
   @Get('blocklist')
+  @RequireScopes('read-only')
   @ApiOperation({ summary: 'Get blocklist' })
   @ApiParam({ name: 'sessionId' })
   getBlocklist(@Param('sessionId') sessionId: string) {
@@ -279,6 +303,7 @@ export class MiscController {
 
   // === Device Info ===
   @Get('device')
+  @RequireScopes('read-only')
   @ApiOperation({ summary: 'Get connected device information' })
   @ApiParam({ name: 'sessionId' })
   getDevice(@Param('sessionId') sessionId: string) {
@@ -0,0 +1,30 @@
+import { Job } from 'bullmq';
+import { MessageCleanupProcessor } from './message-cleanup.processor';
+
+describe('MessageCleanupProcessor', () => {
+  it('keeps dead-lettered webhooks past the webhook log retention', async () => {
+    const deleted = { count: 0 };
+    const prisma = {
+      message: { deleteMany: jest.fn().mockResolvedValue(deleted) },
+      webhookLog: { deleteMany: jest.fn().mockResolvedValue(deleted) },
+      auditLog: { deleteMany: jest.fn().mockResolvedValue(deleted) },
+      sessionEvent: { deleteMany: jest.fn().mockResolvedValue(deleted) },
+    };
+    const configService = {
+      get: jest.fn((key: string, fallback: number) => (key === 'WEBHOOK_DEAD_LETTER_RETENTION_DAYS' ? 120 : fallback)),
+    };
+    const processor = new MessageCleanupProcessor(prisma as never, configService as never);
+    const day = 24 * 60 * 60 * 1000;
+
+    await processor.process({} as Job);
+
+    const [[logs], [deadLetters]] = prisma.webhookLog.deleteMany.mock.calls as [
+      [{ where: { createdAt: { lt: Date }; deadLetter: boolean } }],
+      [{ where: { createdAt: { lt: Date }; deadLetter: boolean } }],
+    ];
+    expect(logs.where.deadLetter).toBe(false);
+    expect(Math.round((Date.now() - logs.where.createdAt.lt.getTime()) / day)).toBe(30);
+    expect(deadLetters.where.deadLetter).toBe(true);
+    expect(Math.round((Date.now() - deadLetters.where.createdAt.lt.getTime()) / day)).toBe(120);
+  });
+});
@@ -9,6 +9,9 @@ import { QUEUE_NAMES } from '../queue.constants.js';
 export class MessageCleanupProcessor extends WorkerHost {
   private readonly logger = new Logger(MessageCleanupProcessor.name);
   private readonly retentionDays: number;
+  private readonly auditRetentionDays: number;
+  private readonly sessionEventRetentionDays: number;
+  private readonly deadLetterRetentionDays: number;
 
   constructor(
     private readonly prisma: PrismaService,
@@ -16,6 +19,9 @@ export class MessageCleanupProcessor extends WorkerHost {
   ) {
     super();
     this.retentionDays = this.configService.get<number>('MESSAGE_RETENTION_DAYS', 60);
+    this.auditRetentionDays = this.configService.get<number>('AUDIT_RETENTION_DAYS', 365);
+    this.sessionEventRetentionDays = this.configService.get<number>('SESSION_EVENT_RETENTION_DAYS', 90);
+    this.deadLetterRetentionDays = this.configService.get<number>('WEBHOOK_DEAD_LETTER_RETENTION_DAYS', 90);
   }
 
   async process(_job: Job): Promise<void> {
@@ -33,16 +39,57 @@ export class MessageCleanupProcessor extends WorkerHost {
 
     this.logger.log(`Deleted ${deletedMessages.count} old messages`);
 
-    // Delete old webhook logs (keep for 30 days)
+    // Delete old webhook logs (keep for 30 days); dead letters stay replayable for longer
     const webhookCutoff = new Date();
     webhookCutoff.setDate(webhookCutoff.getDate() - 30);
 
     const deletedLogs = await this.prisma.webhookLog.deleteMany({
       where: {
         createdAt: { lt: webhookCutoff },
+        deadLetter: false,
       },
     });
 
     this.logger.log(`Deleted ${deletedLogs.count} old webhook logs`);
+
+    const deadLetterCutoff = new Date();
+    deadLetterCutoff.setDate(deadLetterCutoff.getDate() - this.deadLetterRetentionDays);
+
+    const deletedDeadLetters = await this.prisma.webhookLog.deleteMany({
+      where: {
+        createdAt: { lt: deadLetterCutoff },
+        deadLetter: true,
+      },
+    });
+
+    this.logger.log(
+      `Deleted ${deletedDeadLetters.count} webhook dead letters older than ${this.deadLetterRetentionDays} days`,
+    );
+
+    // Delete old audit entries
+    const auditCutoff = new Date();
+    auditCutoff.setDate(auditCutoff.getDate() - this.auditRetentionDays);
+
+    const deletedAuditLogs = await this.prisma.auditLog.deleteMany({
+      where: {
+        createdAt: { lt: auditCutoff },
+      },
+    });
+
+    this.logger.log(`Deleted ${deletedAuditLogs.count} audit entries older than ${this.auditRetentionDays} days`);
+
+    // Delete old session state history
+    const sessionEventCutoff = new Date();
+    sessionEventCutoff.setDate(sessionEventCutoff.getDate() - this.sessionEventRetentionDays);
+
+    const deletedSessionEvents = await this.prisma.sessionEvent.deleteMany({
+      where: {
+        createdAt: { lt: sessionEventCutoff },
+      },
+    });
+
+    this.logger.log(
+      `Deleted ${deletedSessionEvents.count} session events older than ${this.sessionEventRetentionDays} days`,
+    );
   }
 }
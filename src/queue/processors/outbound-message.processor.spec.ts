@@ -0,0 +1,18 @@
+import { Job } from 'bullmq';
+import { OutboundMessageProcessor } from './outbound-message.processor';
+
+jest.mock('../../messaging/messaging.service', () => ({ MessagingService: class {} }));
+
+describe('OutboundMessageProcessor', () => {
+  it('tells the messaging service whether this is the last attempt', async () => {
+    const messagingService = { deliverOutbound: jest.fn().mockResolvedValue(undefined) };
+    const processor = new OutboundMessageProcessor(messagingService as never);
+    const data = { id: 'out-1', sessionId: 'session-1', type: 'text', to: '1@s.whatsapp.net', messageId: 'm', payload: {} };
+
+    await processor.process({ data, attemptsMade: 0, opts: { attempts: 3 } } as unknown as Job<never>);
+    await processor.process({ data, attemptsMade: 2, opts: { attempts: 3 } } as unknown as Job<never>);
+
+    expect(messagingService.deliverOutbound).toHaveBeenNthCalledWith(1, data, false);
+    expect(messagingService.deliverOutbound).toHaveBeenNthCalledWith(2, data, true);
+  });
+});
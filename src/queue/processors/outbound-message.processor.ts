@@ -0,0 +1,22 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Job } from 'bullmq';
+import { MessagingService } from '../../messaging/messaging.service.js';
+import type { OutboundMessageJobData } from '../../messaging/outbound.js';
+import { QUEUE_NAMES } from '../queue.constants.js';
+
+/**
+ * Sends queued outbound messages once their send slot comes up. Pacing happens when a
+ * message is queued (see `QueueService.reserveOutboundSlot`), so jobs of different
+ * sessions run side by side, up to `SEND_CONCURRENCY` at a time.
+ */
+@Processor(QUEUE_NAMES.OUTBOUND_MESSAGE, { concurrency: Number(process.env.SEND_CONCURRENCY ?? 10) })
+export class OutboundMessageProcessor extends WorkerHost {
+  constructor(private readonly messagingService: MessagingService) {
+    super();
+  }
+
+  async process(job: Job<OutboundMessageJobData>): Promise<void> {
+    const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+    await this.messagingService.deliverOutbound(job.data, finalAttempt);
+  }
+}
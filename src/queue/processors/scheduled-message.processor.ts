@@ -0,0 +1,19 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Job } from 'bullmq';
+import { MessagingService } from '../../messaging/messaging.service.js';
+import { QUEUE_NAMES } from '../queue.constants.js';
+
+/**
+ * Fires scheduled messages when their delayed job comes due, handing them to the
+ * outbound queue. Jobs live in Redis, so they survive restarts of the API.
+ */
+@Processor(QUEUE_NAMES.SCHEDULED_MESSAGE)
+export class ScheduledMessageProcessor extends WorkerHost {
+  constructor(private readonly messagingService: MessagingService) {
+    super();
+  }
+
+  async process(job: Job<{ id: string }>): Promise<void> {
+    await this.messagingService.fireScheduledMessage(job.data.id);
+  }
+}
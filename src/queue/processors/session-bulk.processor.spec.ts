@@ -0,0 +1,60 @@
+import { Job } from 'bullmq';
+import { SessionBulkProcessor } from './session-bulk.processor';
+
+jest.mock('../../session/session.service', () => ({ SessionService: class {} }));
+
+describe('SessionBulkProcessor', () => {
+  function createProcessor(concurrency: number) {
+    let running = 0;
+    let maxRunning = 0;
+    const sessionService = {
+      runSessionAction: jest.fn(async (sessionId: string) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setImmediate(resolve));
+        running--;
+        if (sessionId === 'gone') throw new Error('Session "gone" not found');
+        return { sessionId, status: 'paused' };
+      }),
+    };
+    const configService = { get: jest.fn(() => concurrency) };
+    const processor = new SessionBulkProcessor(sessionService as never, configService as never);
+    return { processor, sessionService, maxRunning: () => maxRunning };
+  }
+
+  function createJob(sessionIds: string[]) {
+    return {
+      id: '7',
+      data: { action: 'pause', sessionIds, tenantId: null },
+      updateProgress: jest.fn().mockResolvedValue(undefined),
+    };
+  }
+
+  it('runs the action for every session with bounded concurrency', async () => {
+    const { processor, sessionService, maxRunning } = createProcessor(2);
+    const job = createJob(['a', 'b', 'gone', 'c', 'd']);
+
+    const result = await processor.process(job as unknown as Job<never>);
+
+    expect(sessionService.runSessionAction).toHaveBeenCalledTimes(5);
+    expect(sessionService.runSessionAction).toHaveBeenCalledWith('a', 'pause', { webhookUrl: undefined });
+    expect(maxRunning()).toBe(2);
+    expect(result).toEqual(
+      expect.objectContaining({ total: 5, processed: 5, succeeded: 4, failed: 1 }),
+    );
+    expect(result.results).toContainEqual({ sessionId: 'gone', success: false, error: 'Session "gone" not found' });
+    expect(result.results).toContainEqual({ sessionId: 'a', success: true, status: 'paused' });
+  });
+
+  it('reports progress after each session', async () => {
+    const { processor } = createProcessor(5);
+    const job = createJob(['a', 'b']);
+
+    await processor.process(job as unknown as Job<never>);
+
+    expect(job.updateProgress).toHaveBeenCalledTimes(2);
+    expect(job.updateProgress).toHaveBeenLastCalledWith(
+      expect.objectContaining({ total: 2, processed: 2, succeeded: 2, failed: 0 }),
+    );
+  });
+});
@@ -0,0 +1,57 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Job } from 'bullmq';
+import { SessionService } from '../../session/session.service.js';
+import {
+  bulkProgressOf,
+  type SessionBulkJobData,
+  type SessionBulkProgress,
+  type SessionBulkResult,
+} from '../../session/session-bulk.js';
+import { QUEUE_NAMES } from '../queue.constants.js';
+
+/**
+ * Applies a bulk action to each selected session, at most `SESSION_BULK_CONCURRENCY`
+ * at a time. A failure only fails that session's result; progress carries the results
+ * gathered so far, so callers can poll them while the job runs.
+ */
+@Processor(QUEUE_NAMES.SESSION_BULK)
+export class SessionBulkProcessor extends WorkerHost {
+  private readonly logger = new Logger(SessionBulkProcessor.name);
+  private readonly concurrency: number;
+
+  constructor(
+    private readonly sessionService: SessionService,
+    configService: ConfigService,
+  ) {
+    super();
+    this.concurrency = Math.max(Number(configService.get('SESSION_BULK_CONCURRENCY', 5)), 1);
+  }
+
+  async process(job: Job<SessionBulkJobData>): Promise<SessionBulkProgress> {
+    const { action, sessionIds, webhookUrl } = job.data;
+    const results: SessionBulkResult[] = [];
+    let next = 0;
+
+    const worker = async () => {
+      while (next < sessionIds.length) {
+        const sessionId = sessionIds[next++];
+        try {
+          const { status } = await this.sessionService.runSessionAction(sessionId, action, { webhookUrl });
+          results.push({ sessionId, success: true, status });
+        } catch (err) {
+          results.push({ sessionId, success: false, error: err instanceof Error ? err.message : String(err) });
+        }
+        await job.updateProgress(bulkProgressOf(sessionIds.length, results));
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(this.concurrency, sessionIds.length) }, worker));
+
+    const progress = bulkProgressOf(sessionIds.length, results);
+    this.logger.log(
+      `Bulk ${action} job ${job.id}: ${progress.succeeded} succeeded, ${progress.failed} failed of ${progress.total}`,
+    );
+    return progress;
+  }
+}
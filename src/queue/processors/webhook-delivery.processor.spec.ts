@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { Job } from 'bullmq';
+import { DelayedError, Job } from 'bullmq';
 import { WebhookDeliveryProcessor } from './webhook-delivery.processor';
 
 jest.mock('axios');
@@ -17,6 +17,14 @@ describe('WebhookDeliveryProcessor', () => {
     opts: { attempts: 3 },
   } as Job<any>;
 
+  function createCircuitBreaker(decision: Record<string, unknown> = { allowed: true }) {
+    return {
+      beforeDelivery: jest.fn().mockResolvedValue(decision),
+      recordSuccess: jest.fn().mockResolvedValue(undefined),
+      recordFailure: jest.fn().mockResolvedValue(undefined),
+    };
+  }
+
   it('does not fail a delivered webhook when writing the success log fails', async () => {
     (axios.post as jest.Mock).mockResolvedValue({ status: 204 });
     const prisma = {
@@ -24,9 +32,187 @@ describe('WebhookDeliveryProcessor', () => {
         create: jest.fn().mockRejectedValue(new Error('db unavailable')),
       },
     };
-    const processor = new WebhookDeliveryProcessor(prisma as any, { get: jest.fn(() => '') } as any);
+    const processor = new WebhookDeliveryProcessor(
+      prisma as any,
+      { get: jest.fn(() => '') } as any,
+      createCircuitBreaker() as any,
+      {} as any,
+    );
 
     await expect(processor.process(job)).resolves.toBeUndefined();
     expect(prisma.webhookLog.create).toHaveBeenCalled();
   });
+
+  it('marks the log as a dead letter only when the last attempt fails', async () => {
+    const error = new Error('connect ECONNREFUSED');
+    (axios.post as jest.Mock).mockRejectedValue(error);
+    (axios.isAxiosError as unknown as jest.Mock).mockReturnValue(false);
+    const prisma = {
+      webhookLog: {
+        create: jest.fn().mockResolvedValue(undefined),
+      },
+    };
+    const processor = new WebhookDeliveryProcessor(
+      prisma as any,
+      { get: jest.fn(() => '') } as any,
+      createCircuitBreaker() as any,
+      {} as any,
+    );
+
+    await expect(processor.process(job)).rejects.toBe(error);
+    expect(prisma.webhookLog.create).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({ deadLetter: false, attempts: 1 }),
+    });
+
+    await expect(processor.process({ ...job, attemptsMade: 2 } as Job<any>)).rejects.toBe(error);
+    expect(prisma.webhookLog.create).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({ deadLetter: true, attempts: 3 }),
+    });
+  });
+
+  it('parks the delivery without sending while the endpoint circuit is open', async () => {
+    const retryAt = new Date('2026-05-02T00:01:00.000Z');
+    const circuitBreaker = createCircuitBreaker({ allowed: false, retryAt });
+    const prisma = { webhookLog: { create: jest.fn() } };
+    const processor = new WebhookDeliveryProcessor(
+      prisma as any,
+      { get: jest.fn(() => '') } as any,
+      circuitBreaker as any,
+      {} as any,
+    );
+    const parkedJob = { ...job, moveToDelayed: jest.fn().mockResolvedValue(undefined) } as unknown as Job<any>;
+    (axios.post as jest.Mock).mockClear();
+
+    await expect(processor.process(parkedJob, 'token-1')).rejects.toBeInstanceOf(DelayedError);
+    expect(parkedJob.moveToDelayed).toHaveBeenCalledWith(retryAt.getTime(), 'token-1');
+    expect(axios.post).not.toHaveBeenCalled();
+    expect(prisma.webhookLog.create).not.toHaveBeenCalled();
+  });
+
+  it('holds an ordered delivery until earlier events of the same chat are done', async () => {
+    const queueService = {
+      getWebhookLaneHead: jest.fn().mockResolvedValue(3),
+      finishWebhookSequence: jest.fn().mockResolvedValue(undefined),
+    };
+    const prisma = { webhookLog: { create: jest.fn().mockResolvedValue(undefined) } };
+    const processor = new WebhookDeliveryProcessor(
+      prisma as any,
+      { get: jest.fn(() => '') } as any,
+      createCircuitBreaker() as any,
+      queueService as any,
+    );
+    const orderedJob = (sequence: number) =>
+      ({
+        ...job,
+        data: { ...job.data, ordering: { lane: 'sub-1:6281234567890@s.whatsapp.net', sequence } },
+        moveToDelayed: jest.fn().mockResolvedValue(undefined),
+      }) as unknown as Job<any>;
+    (axios.post as jest.Mock).mockReset().mockResolvedValue({ status: 200 });
+
+    const waiting = orderedJob(4);
+    await expect(processor.process(waiting, 'token-1')).rejects.toBeInstanceOf(DelayedError);
+    expect(waiting.moveToDelayed).toHaveBeenCalled();
+    expect(axios.post).not.toHaveBeenCalled();
+
+    await expect(processor.process(orderedJob(3))).resolves.toBeUndefined();
+    expect(axios.post).toHaveBeenCalledWith(
+      'https://example.test/webhook',
+      expect.stringContaining('"sequence":3'),
+      expect.anything(),
+    );
+    expect(queueService.finishWebhookSequence).toHaveBeenCalledWith('sub-1:6281234567890@s.whatsapp.net', 3);
+  });
+
+  it('skips a lost delivery that would otherwise hold up its lane for good', async () => {
+    const lane = 'sub-1:6281234567890@s.whatsapp.net';
+    const queueService = {
+      getWebhookLaneHead: jest.fn().mockResolvedValue(3),
+      isWebhookSequenceLost: jest.fn().mockResolvedValue(true),
+      finishWebhookSequence: jest.fn().mockResolvedValue(undefined),
+    };
+    const processor = new WebhookDeliveryProcessor(
+      { webhookLog: { create: jest.fn() } } as any,
+      { get: jest.fn(() => '') } as any,
+      createCircuitBreaker() as any,
+      queueService as any,
+    );
+    const waitingJob = (timestamp: number) =>
+      ({
+        ...job,
+        data: { ...job.data, ordering: { lane, sequence: 4 } },
+        timestamp,
+        moveToDelayed: jest.fn().mockResolvedValue(undefined),
+      }) as unknown as Job<any>;
+
+    await expect(processor.process(waitingJob(Date.now()), 'token-1')).rejects.toBeInstanceOf(DelayedError);
+    expect(queueService.isWebhookSequenceLost).not.toHaveBeenCalled();
+
+    await expect(processor.process(waitingJob(Date.now() - 120000), 'token-1')).rejects.toBeInstanceOf(DelayedError);
+    expect(queueService.isWebhookSequenceLost).toHaveBeenCalledWith(lane, 3);
+    expect(queueService.finishWebhookSequence).toHaveBeenCalledWith(lane, 3);
+  });
+
+  it("formats the request with the subscription's payload format and custom headers", async () => {
+    const prisma = {
+      webhookLog: { create: jest.fn().mockResolvedValue(undefined) },
+      webhookSubscription: {
+        findUnique: jest.fn().mockResolvedValue({
+          secret: 'whsec_subscription-secret',
+          previousSecret: null,
+          previousSecretExpiresAt: null,
+          payloadFormat: 'cloudevents',
+          cloudEventsMode: 'binary',
+          payloadTemplate: null,
+          headers: { Authorization: 'Bearer receiver-token' },
+        }),
+      },
+    };
+    const processor = new WebhookDeliveryProcessor(
+      prisma as any,
+      { get: jest.fn(() => '') } as any,
+      createCircuitBreaker() as any,
+      {} as any,
+    );
+    (axios.post as jest.Mock).mockReset().mockResolvedValue({ status: 200 });
+
+    await processor.process({ ...job, id: 'job-1', data: { ...job.data, subscriptionId: 'sub-1' } } as Job<any>);
+
+    expect(axios.post).toHaveBeenCalledWith('https://example.test/webhook', '{"ok":true}', {
+      headers: expect.objectContaining({
+        Authorization: 'Bearer receiver-token',
+        'Content-Type': 'application/json',
+        'ce-id': 'job-1',
+        'ce-type': 'com.baileys.messages.upsert',
+        'x-webhook-signature': expect.stringMatching(/^v1=/),
+      }),
+      timeout: 15000,
+    });
+    // The log keeps the native payload so dead letters replay independently of the format
+    expect(prisma.webhookLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ payload: expect.objectContaining({ event: 'messages.upsert' }) }),
+    });
+  });
+
+  it('sends test deliveries past an open circuit and reports failures without retrying', async () => {
+    const error = new Error('connect ECONNREFUSED');
+    (axios.post as jest.Mock).mockReset().mockRejectedValue(error);
+    (axios.isAxiosError as unknown as jest.Mock).mockReturnValue(false);
+    const circuitBreaker = createCircuitBreaker({ allowed: false, retryAt: new Date() });
+    const prisma = { webhookLog: { create: jest.fn().mockResolvedValue(undefined) } };
+    const processor = new WebhookDeliveryProcessor(
+      prisma as any,
+      { get: jest.fn(() => '') } as any,
+      circuitBreaker as any,
+      {} as any,
+    );
+
+    await expect(
+      processor.process({ ...job, id: 'job-9', opts: { attempts: 1 }, data: { ...job.data, test: true } } as Job<any>),
+    ).resolves.toBeUndefined();
+    expect(circuitBreaker.beforeDelivery).not.toHaveBeenCalled();
+    expect(circuitBreaker.recordFailure).not.toHaveBeenCalled();
+    expect(prisma.webhookLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ deliveryId: 'job-9', test: true, success: false, deadLetter: false }),
+    });
+  });
 });
@@ -1,25 +1,67 @@
 import { Processor, WorkerHost } from '@nestjs/bullmq';
 import { Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { Job } from 'bullmq';
+import { DelayedError, Job } from 'bullmq';
 import axios from 'axios';
 import * as crypto from 'crypto';
 import type { Prisma } from '../../generated/prisma/client/client.js';
 import { PrismaService } from '../../prisma/prisma.service.js';
+import { WebhookCircuitBreaker } from '../../webhook/webhook-circuit-breaker.service.js';
+import { formatWebhookRequest, type NativeWebhookPayload } from '../../webhook/webhook-payload.js';
+import {
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  buildSignatureHeader,
+} from '../../webhook/webhook-signature.js';
+import { QueueService, type WebhookBatchEvent, type WebhookOrdering } from '../queue.service.js';
 import { QUEUE_NAMES } from '../queue.constants.js';
 
 interface WebhookJob {
   sessionId: string;
+  subscriptionId?: string;
   webhookUrl: string;
   event: string;
-  data: unknown;
+  data?: unknown;
+  // Set for batched deliveries (event is 'batch'); the body is then an array
+  events?: WebhookBatchEvent[];
   timestamp: string;
+  // Set for subscriptions with ordered delivery
+  ordering?: WebhookOrdering;
+  // Set when this delivery re-sends a dead-lettered webhook log
+  replayOf?: string;
+  // Test deliveries bypass the circuit breaker, are attempted once and never dead-lettered
+  test?: boolean;
 }
 
+interface SubscriptionDeliverySettings {
+  secret: string | null;
+  previousSecret: string | null;
+  previousSecretExpiresAt: Date | null;
+  payloadFormat: string;
+  cloudEventsMode: string;
+  payloadTemplate: Prisma.JsonValue;
+  headers: Prisma.JsonValue;
+}
+
+// Logged in place of custom header values, which often carry receiver credentials
+const REDACTED = '[redacted]';
+
+// How long a delivery waits before checking again whether its lane has reached it
+const ORDERED_LANE_POLL_MS = 1000;
+
+// How long a delivery waits before checking whether the one holding up its lane is lost
+const ORDERED_LANE_LOST_AFTER_MS = 60000;
+
 function toInputJson(value: unknown): Prisma.InputJsonValue {
   return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue;
 }
 
+function truncateResponse(data: unknown): string | null {
+  if (data === undefined || data === null || data === '') return null;
+  return (typeof data === 'string' ? data : JSON.stringify(data)).slice(0, 2000);
+}
+
 function getErrorMessage(error: unknown): string {
   return error instanceof Error ? error.message : 'Unknown error';
 }
@@ -32,38 +74,85 @@ export class WebhookDeliveryProcessor extends WorkerHost {
   constructor(
     private readonly prisma: PrismaService,
     private readonly configService: ConfigService,
+    private readonly circuitBreaker: WebhookCircuitBreaker,
+    private readonly queueService: QueueService,
   ) {
     super();
     this.secret = this.configService.get<string>('WEBHOOK_SECRET') || '';
   }
 
-  async process(job: Job<WebhookJob>): Promise<void> {
-    const { sessionId, webhookUrl, event, data, timestamp } = job.data;
+  async process(job: Job<WebhookJob>, token?: string): Promise<void> {
+    const { sessionId, subscriptionId, webhookUrl, event, data, events, timestamp, ordering, test = false } = job.data;
 
     if (!webhookUrl) return;
 
-    const body = {
-      sessionId,
-      event,
-      data,
-      timestamp,
-    };
+    // Ordered lanes: wait until every earlier event of the same chat has been delivered or dead-lettered
+    let isLaneHead = false;
+    if (ordering) {
+      const head = await this.queueService.getWebhookLaneHead(ordering.lane);
+      if (
+        ordering.sequence > head &&
+        Date.now() - job.timestamp > ORDERED_LANE_LOST_AFTER_MS &&
+        (await this.queueService.isWebhookSequenceLost(ordering.lane, head))
+      ) {
+        this.logger.warn(`Delivery ${head} of lane "${ordering.lane}" is lost, skipping it`);
+        await this.queueService.finishWebhookSequence(ordering.lane, head);
+      }
+      if (ordering.sequence > head) {
+        await job.moveToDelayed(Date.now() + ORDERED_LANE_POLL_MS, token);
+        throw new DelayedError();
+      }
+      isLaneHead = ordering.sequence === head;
+    }
+
+    // Park deliveries to an unhealthy endpoint until the next probe, without using up attempts
+    if (!test) {
+      const decision = await this.circuitBreaker.beforeDelivery(sessionId, webhookUrl);
+      if (!decision.allowed) {
+        await job.moveToDelayed(decision.retryAt.getTime(), token);
+        throw new DelayedError();
+      }
+    }
+
+    // The native payload is what gets logged (and replayed); the subscription's format shapes the request
+    const body: NativeWebhookPayload | NativeWebhookPayload[] = events
+      ? events.map((entry) => ({ sessionId, ...entry }))
+      : {
+          sessionId,
+          event,
+          data,
+          timestamp,
+          ...(ordering ? { sequence: ordering.sequence } : {}),
+        };
+    const eventCount = events?.length ?? 1;
 
+    const subscription = subscriptionId ? await this.loadSubscription(subscriptionId) : null;
+
+    // Sign the exact bytes that are sent; the job ID keeps the delivery ID stable across retries
+    const deliveryId = job.id ?? crypto.randomUUID();
+    const request = formatWebhookRequest(subscription ?? { payloadFormat: 'native' }, body, deliveryId);
+    const rawBody = JSON.stringify(request.body) ?? '';
+    const sentAt = Math.floor(Date.now() / 1000);
+
+    const customHeaders = (subscription?.headers ?? {}) as Record<string, string>;
     const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
+      ...customHeaders,
+      ...request.headers,
+      [WEBHOOK_ID_HEADER]: deliveryId,
+      [WEBHOOK_TIMESTAMP_HEADER]: String(sentAt),
     };
 
-    // Add HMAC signature if secret is configured
-    if (this.secret) {
-      const signature = crypto
-        .createHmac('sha256', this.secret)
-        .update(JSON.stringify(body))
-        .digest('hex');
-      headers['x-webhook-signature'] = signature;
+    const secrets = this.resolveSecrets(subscription);
+    if (secrets.length > 0) {
+      headers[WEBHOOK_SIGNATURE_HEADER] = buildSignatureHeader(secrets, deliveryId, sentAt, rawBody);
     }
 
+    const requestHeaders = { ...headers };
+    for (const name of Object.keys(customHeaders)) requestHeaders[name] = REDACTED;
+    const startedAt = Date.now();
+
     try {
-      const response = await axios.post(webhookUrl, body, {
+      const response = await axios.post(webhookUrl, rawBody, {
         headers,
         timeout: 15000,
       });
@@ -71,37 +160,73 @@ export class WebhookDeliveryProcessor extends WorkerHost {
       await this.createWebhookLog({
         data: {
           sessionId,
+          subscriptionId: subscriptionId ?? null,
+          deliveryId,
           event,
           url: webhookUrl,
           payload: toInputJson(body),
+          requestHeaders,
           statusCode: response.status,
+          response: truncateResponse(response.data),
+          durationMs: Date.now() - startedAt,
           success: true,
           attempts: job.attemptsMade + 1,
+          eventCount,
+          test,
         },
       });
 
+      if (!test) {
+        await this.circuitBreaker.recordSuccess(sessionId, webhookUrl).catch((err: unknown) => {
+          this.logger.error(`Failed to update webhook circuit: ${getErrorMessage(err)}`);
+        });
+      }
+
+      if (ordering && isLaneHead) {
+        await this.queueService.finishWebhookSequence(ordering.lane, ordering.sequence);
+      }
+
       this.logger.debug(`Webhook delivered: ${event} → ${webhookUrl} (${response.status})`);
     } catch (error: unknown) {
       const statusCode = axios.isAxiosError(error) ? (error.response?.status ?? null) : null;
       const errorMessage = getErrorMessage(error);
       const responseData = axios.isAxiosError(error) ? error.response?.data : undefined;
+      // Once retries are exhausted the delivery is parked as a dead letter for replay
+      const deadLetter = !test && job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
 
       await this.createWebhookLog({
         data: {
           sessionId,
+          subscriptionId: subscriptionId ?? null,
+          deliveryId,
           event,
           url: webhookUrl,
           payload: toInputJson(body),
+          requestHeaders,
           statusCode,
           success: false,
           error: errorMessage,
-          response: responseData
-            ? JSON.stringify(responseData).slice(0, 2000)
-            : null,
+          response: truncateResponse(responseData),
+          durationMs: Date.now() - startedAt,
           attempts: job.attemptsMade + 1,
+          eventCount,
+          deadLetter,
+          test,
         },
       });
 
+      // The caller of a test delivery reads the result from the log; nothing to retry
+      if (test) return;
+
+      await this.circuitBreaker.recordFailure(sessionId, webhookUrl, errorMessage).catch((err: unknown) => {
+        this.logger.error(`Failed to update webhook circuit: ${getErrorMessage(err)}`);
+      });
+
+      // A dead letter must not block its lane forever; receivers see the gap in `sequence`
+      if (deadLetter && ordering && isLaneHead) {
+        await this.queueService.finishWebhookSequence(ordering.lane, ordering.sequence);
+      }
+
       this.logger.error(
         `Webhook failed (attempt ${job.attemptsMade + 1}/${job.opts.attempts}): ${event} → ${webhookUrl}: ${errorMessage}`,
       );
@@ -111,6 +236,39 @@ export class WebhookDeliveryProcessor extends WorkerHost {
     }
   }
 
+  /**
+   * Secrets to sign with: the subscription's own secret (or the global
+   * WEBHOOK_SECRET) plus its previous secret while a rotation is in progress.
+   */
+  private resolveSecrets(subscription: SubscriptionDeliverySettings | null): string[] {
+    const secrets: string[] = [];
+    const current = subscription?.secret || this.secret;
+    if (current) secrets.push(current);
+    if (
+      subscription?.previousSecret &&
+      subscription.previousSecretExpiresAt &&
+      subscription.previousSecretExpiresAt > new Date()
+    ) {
+      secrets.push(subscription.previousSecret);
+    }
+    return secrets;
+  }
+
+  private loadSubscription(subscriptionId: string): Promise<SubscriptionDeliverySettings | null> {
+    return this.prisma.webhookSubscription.findUnique({
+      where: { id: subscriptionId },
+      select: {
+        secret: true,
+        previousSecret: true,
+        previousSecretExpiresAt: true,
+        payloadFormat: true,
+        cloudEventsMode: true,
+        payloadTemplate: true,
+        headers: true,
+      },
+    });
+  }
+
   private async createWebhookLog(args: Parameters<PrismaService['webhookLog']['create']>[0]) {
     try {
       await this.prisma.webhookLog.create(args);
@@ -4,4 +4,7 @@ export const QUEUE_NAMES = {
   CHAT_SYNC: 'chat-sync',
   WEBHOOK_DELIVERY: 'webhook-delivery',
   MESSAGE_CLEANUP: 'message-cleanup',
+  SESSION_BULK: 'session-bulk',
+  OUTBOUND_MESSAGE: 'outbound-message',
+  SCHEDULED_MESSAGE: 'scheduled-message',
 } as const;
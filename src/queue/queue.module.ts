@@ -6,7 +6,12 @@ import { ContactSyncProcessor } from './processors/contact-sync.processor.js';
 import { ChatSyncProcessor } from './processors/chat-sync.processor.js';
 import { WebhookDeliveryProcessor } from './processors/webhook-delivery.processor.js';
 import { MessageCleanupProcessor } from './processors/message-cleanup.processor.js';
+import { SessionBulkProcessor } from './processors/session-bulk.processor.js';
+import { OutboundMessageProcessor } from './processors/outbound-message.processor.js';
+import { ScheduledMessageProcessor } from './processors/scheduled-message.processor.js';
 import { QueueService } from './queue.service.js';
+import { WebhookModule } from '../webhook/webhook.module.js';
+import { MessagingModule } from '../messaging/messaging.module.js';
 
 import { QUEUE_NAMES } from './queue.constants.js';
 
@@ -34,7 +39,12 @@ import { QUEUE_NAMES } from './queue.constants.js';
       { name: QUEUE_NAMES.CHAT_SYNC },
       { name: QUEUE_NAMES.WEBHOOK_DELIVERY },
       { name: QUEUE_NAMES.MESSAGE_CLEANUP },
+      { name: QUEUE_NAMES.SESSION_BULK },
+      { name: QUEUE_NAMES.OUTBOUND_MESSAGE },
+      { name: QUEUE_NAMES.SCHEDULED_MESSAGE },
     ),
+    WebhookModule,
+    MessagingModule,
   ],
   providers: [
     QueueService,
@@ -43,6 +53,9 @@ import { QUEUE_NAMES } from './queue.constants.js';
     ChatSyncProcessor,
     WebhookDeliveryProcessor,
     MessageCleanupProcessor,
+    SessionBulkProcessor,
+    OutboundMessageProcessor,
+    ScheduledMessageProcessor,
   ],
   exports: [QueueService, BullModule],
 })
@@ -1,11 +1,121 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bullmq';
-import { Queue } from 'bullmq';
+import { Job, Queue, QueueEvents } from 'bullmq';
 import { QUEUE_NAMES } from './queue.constants.js';
+import type { SessionBulkJobData } from '../session/session-bulk.js';
+import type { OutboundMessageJobData } from '../messaging/outbound.js';
+
+// Redis keys for ordered webhook lanes expire after a week of inactivity
+const WEBHOOK_LANE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Every key of a lane: next sequence number to hand out, the one waiting to be delivered,
+// finished numbers ahead of that, and the job holding each number
+function webhookLaneKeys(lane: string): string[] {
+  return ['seq', 'next', 'finished', 'jobs'].map((key) => `webhook-lane:${lane}:${key}`);
+}
+
+// Take the lane's next sequence number; all lane keys share one TTL so they expire together
+const ALLOCATE_WEBHOOK_SEQUENCE_SCRIPT = `
+local sequence = redis.call('INCR', KEYS[1])
+for _, key in ipairs(KEYS) do
+  redis.call('EXPIRE', key, ARGV[1])
+end
+return sequence`;
+
+// Finish sequence ARGV[1]. At the head, move the head past it and past any later numbers
+// that finished early; ahead of the head, remember it for when the head gets there.
+const FINISH_WEBHOOK_SEQUENCE_SCRIPT = `
+local sequence = tonumber(ARGV[1])
+local head = tonumber(redis.call('GET', KEYS[2]) or '1')
+if sequence == head then
+  head = head + 1
+  redis.call('HDEL', KEYS[4], sequence)
+  while redis.call('SREM', KEYS[3], head) == 1 do
+    redis.call('HDEL', KEYS[4], head)
+    head = head + 1
+  end
+  redis.call('SET', KEYS[2], head)
+elseif sequence > head then
+  redis.call('SADD', KEYS[3], sequence)
+end
+for _, key in ipairs(KEYS) do
+  redis.call('EXPIRE', key, ARGV[2])
+end
+return head`;
+
+// Daily send counters outlive their UTC day a little, whatever the clock skew
+const OUTBOUND_DAY_TTL_SECONDS = 2 * 24 * 60 * 60;
+
+// Count the message against the daily cap (ARGV[3], 0 = none) and take the session's
+// next send slot: now, or when the previous message's gap (ARGV[2]) is over.
+// Returns the slot time, or -1 when the cap is reached.
+const RESERVE_OUTBOUND_SLOT_SCRIPT = `
+local cap = tonumber(ARGV[3])
+if cap > 0 then
+  if tonumber(redis.call('GET', KEYS[2]) or '0') >= cap then
+    return -1
+  end
+  redis.call('INCR', KEYS[2])
+  redis.call('EXPIRE', KEYS[2], ARGV[4])
+end
+local now = tonumber(ARGV[1])
+local slot = math.max(now, tonumber(redis.call('GET', KEYS[1]) or '0'))
+local nextSlot = slot + tonumber(ARGV[2])
+redis.call('SET', KEYS[1], nextSlot, 'PX', nextSlot - now + 60000)
+return slot`;
+
+// Give back a slot taken at ARGV[1] with gap ARGV[2] (now is ARGV[4]) whose message was
+// never queued. The gap is only undone while no later message has taken the next slot.
+const RELEASE_OUTBOUND_SLOT_SCRIPT = `
+if tonumber(ARGV[3]) > 0 and tonumber(redis.call('GET', KEYS[2]) or '0') > 0 then
+  redis.call('DECR', KEYS[2])
+end
+local slot = tonumber(ARGV[1])
+if tonumber(redis.call('GET', KEYS[1]) or '0') == slot + tonumber(ARGV[2]) then
+  redis.call('SET', KEYS[1], slot, 'PX', math.max(slot - tonumber(ARGV[4]), 0) + 60000)
+end
+return 1`;
+
+export interface WebhookOrdering {
+  lane: string;
+  sequence: number;
+}
+
+export interface WebhookBatchEvent {
+  event: string;
+  data: unknown;
+  timestamp: string;
+}
+
+export interface WebhookReplayEntry {
+  sessionId: string;
+  subscriptionId?: string;
+  webhookUrl: string;
+  event: string;
+  data?: unknown;
+  events?: WebhookBatchEvent[];
+  timestamp: string;
+  replayOf: string;
+}
+
+export interface WebhookTestEntry {
+  sessionId: string;
+  subscriptionId?: string;
+  webhookUrl: string;
+  event: string;
+  data: unknown;
+}
+
+// Custom BullMQ job IDs may not contain ':'
+function scheduledMessageJobId(id: string, sendAt: Date): string {
+  return `${id}-${sendAt.getTime()}`;
+}
 
 @Injectable()
-export class QueueService {
+export class QueueService implements OnModuleDestroy {
   private readonly logger = new Logger(QueueService.name);
+  // Created on first use; only test deliveries wait for job completion
+  private webhookQueueEvents?: Promise<QueueEvents>;
 
   constructor(
     @InjectQueue(QUEUE_NAMES.MESSAGE_STORE)
@@ -22,6 +132,15 @@ export class QueueService {
 
     @InjectQueue(QUEUE_NAMES.MESSAGE_CLEANUP)
     private readonly messageCleanupQueue: Queue,
+
+    @InjectQueue(QUEUE_NAMES.SESSION_BULK)
+    private readonly sessionBulkQueue: Queue,
+
+    @InjectQueue(QUEUE_NAMES.OUTBOUND_MESSAGE)
+    private readonly outboundMessageQueue: Queue,
+
+    @InjectQueue(QUEUE_NAMES.SCHEDULED_MESSAGE)
+    private readonly scheduledMessageQueue: Queue,
   ) {}
 
   async addMessageStoreJob(sessionId: string, messages: unknown[]) {
@@ -57,15 +176,60 @@ export class QueueService {
     );
   }
 
+  /**
+   * Queue a delivery. With a `lane` the delivery gets the lane's next sequence number
+   * and waits for every earlier one (see `getWebhookLaneHead`).
+   */
   async addWebhookDeliveryJob(
     sessionId: string,
     webhookUrl: string,
     event: string,
     data: unknown,
+    subscriptionId?: string,
+    lane?: string,
+  ) {
+    const ordering = lane ? { lane, sequence: await this.allocateWebhookSequence(lane) } : undefined;
+
+    let job: Job;
+    try {
+      job = await this.webhookDeliveryQueue.add(
+        'deliver-webhook',
+        { sessionId, subscriptionId, webhookUrl, event, data, ordering, timestamp: new Date().toISOString() },
+        {
+          attempts: 5,
+          backoff: { type: 'exponential', delay: 2000 },
+        },
+      );
+    } catch (err) {
+      // A sequence number without a job would hold up the rest of its lane
+      if (ordering) await this.finishWebhookSequence(ordering.lane, ordering.sequence);
+      throw err;
+    }
+
+    if (ordering && job.id) {
+      const client = await this.webhookDeliveryQueue.client;
+      await client
+        .hset(`webhook-lane:${ordering.lane}:jobs`, String(ordering.sequence), job.id)
+        .catch((err: unknown) =>
+          this.logger.error(
+            `Failed to record the job of lane "${ordering.lane}": ${err instanceof Error ? err.message : String(err)}`,
+          ),
+        );
+    }
+  }
+
+  /**
+   * Queue several events as one delivery; the receiver gets them as an array payload.
+   */
+  async addWebhookBatchJob(
+    sessionId: string,
+    webhookUrl: string,
+    subscriptionId: string,
+    events: WebhookBatchEvent[],
   ) {
     await this.webhookDeliveryQueue.add(
-      'deliver-webhook',
-      { sessionId, webhookUrl, event, data, timestamp: new Date().toISOString() },
+      'deliver-webhook-batch',
+      { sessionId, subscriptionId, webhookUrl, event: 'batch', events, timestamp: new Date().toISOString() },
       {
         attempts: 5,
         backoff: { type: 'exponential', delay: 2000 },
@@ -73,6 +237,180 @@ export class QueueService {
     );
   }
 
+  /**
+   * Allocate the next sequence number (starting at 1) in an ordered webhook lane.
+   */
+  private async allocateWebhookSequence(lane: string): Promise<number> {
+    const client = await this.webhookDeliveryQueue.client;
+    return (await client.eval(
+      ALLOCATE_WEBHOOK_SEQUENCE_SCRIPT,
+      4,
+      ...webhookLaneKeys(lane),
+      WEBHOOK_LANE_TTL_SECONDS,
+    )) as number;
+  }
+
+  /**
+   * Sequence number that the lane is waiting to deliver next.
+   */
+  async getWebhookLaneHead(lane: string): Promise<number> {
+    const client = await this.webhookDeliveryQueue.client;
+    const head = await client.get(`webhook-lane:${lane}:next`);
+    return head ? Number(head) : 1;
+  }
+
+  /**
+   * Mark a sequence number as finished (delivered, dead-lettered or never queued),
+   * unblocking the next one once every earlier number is finished too.
+   */
+  async finishWebhookSequence(lane: string, sequence: number) {
+    const client = await this.webhookDeliveryQueue.client;
+    await client.eval(FINISH_WEBHOOK_SEQUENCE_SCRIPT, 4, ...webhookLaneKeys(lane), sequence, WEBHOOK_LANE_TTL_SECONDS);
+  }
+
+  /**
+   * Whether the delivery holding `sequence` in a lane is gone without finishing it,
+   * e.g. because its job was removed. A lost delivery would block its lane for good.
+   */
+  async isWebhookSequenceLost(lane: string, sequence: number): Promise<boolean> {
+    const client = await this.webhookDeliveryQueue.client;
+    const jobId = await client.hget(`webhook-lane:${lane}:jobs`, String(sequence));
+    if (!jobId) return true;
+    const state = await this.webhookDeliveryQueue.getJobState(jobId);
+    return state === 'unknown' || state === 'completed' || state === 'failed';
+  }
+
+  /**
+   * Re-queue dead-lettered deliveries, keeping the original event timestamp.
+   */
+  async addWebhookReplayJobs(entries: WebhookReplayEntry[]) {
+    await this.webhookDeliveryQueue.addBulk(
+      entries.map((entry) => ({
+        name: 'replay-webhook',
+        data: entry,
+        opts: {
+          attempts: 5,
+          backoff: { type: 'exponential', delay: 2000 },
+        },
+      })),
+    );
+  }
+
+  /**
+   * Queue a single-attempt test delivery and wait until the processor has finished it.
+   * Returns the delivery ID, which identifies the resulting webhook log.
+   */
+  async runWebhookTestDelivery(entry: WebhookTestEntry, timeoutMs: number): Promise<string> {
+    const job = await this.webhookDeliveryQueue.add(
+      'test-webhook',
+      { ...entry, test: true, timestamp: new Date().toISOString() },
+      { attempts: 1 },
+    );
+
+    try {
+      await job.waitUntilFinished(await this.getWebhookQueueEvents(), timeoutMs);
+    } catch (error: unknown) {
+      this.logger.warn(`Test webhook ${job.id} did not complete: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return job.id!;
+  }
+
+  /**
+   * Queue a bulk session operation. It runs once: actions like logout must not be repeated.
+   */
+  async addSessionBulkJob(data: SessionBulkJobData): Promise<string> {
+    const job = await this.sessionBulkQueue.add(`bulk-${data.action}`, data, { attempts: 1 });
+    return job.id!;
+  }
+
+  async getSessionBulkJob(jobId: string): Promise<Job<SessionBulkJobData> | undefined> {
+    return this.sessionBulkQueue.getJob(jobId);
+  }
+
+  /**
+   * Reserve the time a session may send its next message, spacing messages by `gapMs`.
+   * Returns null when the session has used up its daily cap (0 = no cap).
+   */
+  async reserveOutboundSlot(sessionId: string, gapMs: number, dailyCap: number): Promise<Date | null> {
+    const client = await this.outboundMessageQueue.client;
+    const day = new Date().toISOString().slice(0, 10);
+    const slot = (await client.eval(
+      RESERVE_OUTBOUND_SLOT_SCRIPT,
+      2,
+      `outbound:${sessionId}:next-slot`,
+      `outbound:${sessionId}:day:${day}`,
+      Date.now(),
+      gapMs,
+      dailyCap,
+      OUTBOUND_DAY_TTL_SECONDS,
+    )) as number;
+    return slot < 0 ? null : new Date(slot);
+  }
+
+  /**
+   * Undo `reserveOutboundSlot` for a message that could not be queued, so it counts
+   * neither against the daily cap nor towards the gap of the next message.
+   */
+  async releaseOutboundSlot(sessionId: string, slot: Date, gapMs: number, dailyCap: number) {
+    const client = await this.outboundMessageQueue.client;
+    const day = new Date().toISOString().slice(0, 10);
+    await client.eval(
+      RELEASE_OUTBOUND_SLOT_SCRIPT,
+      2,
+      `outbound:${sessionId}:next-slot`,
+      `outbound:${sessionId}:day:${day}`,
+      slot.getTime(),
+      gapMs,
+      dailyCap,
+      Date.now(),
+    );
+  }
+
+  /**
+   * Queue an outbound message to be sent at `sendAt`. Failed sends are retried with
+   * the same WhatsApp message ID, so the recipient gets the message at most once.
+   */
+  async addOutboundMessageJob(data: OutboundMessageJobData, sendAt: Date) {
+    await this.outboundMessageQueue.add(`send-${data.type}`, data, {
+      jobId: data.id,
+      delay: Math.max(sendAt.getTime() - Date.now(), 0),
+      attempts: 3,
+      backoff: { type: 'exponential', delay: 5000 },
+    });
+  }
+
+  /**
+   * Queue a delayed job firing a scheduled message at `sendAt`. The job ID includes the
+   * time, so adding the same schedule twice is a no-op and a reschedule gets a new job.
+   */
+  async addScheduledMessageJob(id: string, sendAt: Date) {
+    await this.scheduledMessageQueue.add(
+      'fire-scheduled-message',
+      { id },
+      {
+        jobId: scheduledMessageJobId(id, sendAt),
+        delay: Math.max(sendAt.getTime() - Date.now(), 0),
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 5000 },
+      },
+    );
+  }
+
+  /**
+   * Drop the job of a schedule that was moved or cancelled. A job that is already
+   * running cannot be removed; it finds the message no longer due and does nothing.
+   */
+  async removeScheduledMessageJob(id: string, sendAt: Date) {
+    const job = await this.scheduledMessageQueue.getJob(scheduledMessageJobId(id, sendAt));
+    await job?.remove().catch((err) => this.logger.warn(`Could not remove scheduled message job ${job.id}: ${err}`));
+  }
+
+  async onModuleDestroy() {
+    if (this.webhookQueueEvents) {
+      await (await this.webhookQueueEvents).close();
+    }
+  }
+
   async scheduleMessageCleanup() {
     // Remove existing repeatable job with same key before adding
     const existingJobs = await this.messageCleanupQueue.getRepeatableJobs();
@@ -97,4 +435,14 @@ export class QueueService {
 
     this.logger.log('Scheduled daily message cleanup job (3:00 AM)');
   }
+
+  private getWebhookQueueEvents(): Promise<QueueEvents> {
+    if (!this.webhookQueueEvents) {
+      const queueEvents = new QueueEvents(QUEUE_NAMES.WEBHOOK_DELIVERY, {
+        connection: this.webhookDeliveryQueue.opts.connection,
+      });
+      this.webhookQueueEvents = queueEvents.waitUntilReady().then(() => queueEvents);
+    }
+    return this.webhookQueueEvents;
+  }
 }
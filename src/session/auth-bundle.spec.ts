@@ -0,0 +1,59 @@
+import { openAuthBundle, sealAuthBundle, validateSerializedCreds } from './auth-bundle';
+
+describe('auth bundle', () => {
+  const buffer = (value: string) => ({ type: 'Buffer', data: Buffer.from(value).toString('base64') });
+  const keyPair = () => ({ public: buffer('public'), private: buffer('private') });
+  const linkedCreds = {
+    noiseKey: keyPair(),
+    pairingEphemeralKeyPair: keyPair(),
+    signedIdentityKey: keyPair(),
+    signedPreKey: { keyPair: keyPair(), signature: buffer('signature'), keyId: 1 },
+    registrationId: 1234,
+    advSecretKey: 'c2VjcmV0',
+    me: { id: '6281234567890:1@s.whatsapp.net' },
+  };
+
+  it('round-trips credentials with the right password only', async () => {
+    const credentials = [
+      { key: 'creds', value: JSON.stringify(linkedCreds) },
+      { key: 'pre-key-1', value: JSON.stringify(keyPair()) },
+    ];
+    const sealed = await sealAuthBundle(
+      { sessionId: 'staging-1', exportedAt: '2026-10-19T00:00:00.000Z', credentials },
+      'correct horse battery',
+    );
+
+    expect(sealed.startsWith('bas1.')).toBe(true);
+    expect(sealed).not.toContain('6281234567890');
+    await expect(openAuthBundle(sealed, 'correct horse battery')).resolves.toEqual(
+      expect.objectContaining({ sessionId: 'staging-1', credentials }),
+    );
+    await expect(openAuthBundle(sealed, 'wrong password!')).rejects.toThrow('Wrong password or corrupted bundle');
+    await expect(openAuthBundle('not-a-bundle', 'correct horse battery')).rejects.toThrow('Not an auth state bundle');
+  });
+
+  it('rejects bundles whose credentials are not key and value strings', async () => {
+    const credentials = [{ key: 'creds', value: JSON.stringify(linkedCreds) }, { key: 'pre-key-1', value: { id: 1 } }];
+    const sealed = await sealAuthBundle(
+      { sessionId: 'staging-1', exportedAt: '2026-10-19T00:00:00.000Z', credentials: credentials as never },
+      'correct horse battery',
+    );
+
+    await expect(openAuthBundle(sealed, 'correct horse battery')).rejects.toThrow(
+      'Bundle credential #1 must have a string key and value',
+    );
+  });
+
+  it('accepts complete linked creds and names what is missing otherwise', () => {
+    expect(validateSerializedCreds(JSON.stringify(linkedCreds))).toEqual([]);
+
+    const unlinked: Record<string, unknown> = { ...linkedCreds };
+    delete unlinked.me;
+    delete unlinked.signedPreKey;
+    expect(validateSerializedCreds(JSON.stringify(unlinked))).toEqual([
+      'signedPreKey',
+      'me.id (session was never linked)',
+    ]);
+    expect(validateSerializedCreds('{')).toEqual(['creds is not valid JSON']);
+  });
+});
@@ -0,0 +1,135 @@
+import * as crypto from 'crypto';
+import { promisify } from 'util';
+import { gunzipSync, gzipSync } from 'zlib';
+
+const BUNDLE_PREFIX = 'bas1';
+const BUNDLE_FORMAT = 'baileys-auth-state';
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const SCRYPT_OPTIONS: crypto.ScryptOptions = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions,
+) => Promise<Buffer>;
+
+export interface AuthBundleCredential {
+  key: string;
+  // BufferJSON-serialized value, as Baileys stores it
+  value: string;
+}
+
+export interface AuthBundle {
+  format: typeof BUNDLE_FORMAT;
+  sessionId: string;
+  exportedAt: string;
+  credentials: AuthBundleCredential[];
+}
+
+export class AuthBundleError extends Error {}
+
+/**
+ * Encrypt exported credentials with a key derived from `password` (scrypt + AES-256-GCM).
+ * The result is a single dot-separated string, safe to copy between environments.
+ */
+export async function sealAuthBundle(bundle: Omit<AuthBundle, 'format'>, password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const iv = crypto.randomBytes(IV_BYTES);
+  const key = await scrypt(password, salt, 32, SCRYPT_OPTIONS);
+
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(BUNDLE_PREFIX));
+  const plaintext = gzipSync(JSON.stringify({ format: BUNDLE_FORMAT, ...bundle }));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return [BUNDLE_PREFIX, salt, iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => (typeof part === 'string' ? part : part.toString('base64url')))
+    .join('.');
+}
+
+export async function openAuthBundle(sealed: string, password: string): Promise<AuthBundle> {
+  const [prefix, salt, iv, tag, ciphertext] = sealed.trim().split('.');
+  if (prefix !== BUNDLE_PREFIX || !salt || !iv || !tag || !ciphertext) {
+    throw new AuthBundleError('Not an auth state bundle');
+  }
+
+  let plaintext: Buffer;
+  try {
+    const key = await scrypt(password, Buffer.from(salt, 'base64url'), 32, SCRYPT_OPTIONS);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64url'));
+    decipher.setAAD(Buffer.from(BUNDLE_PREFIX));
+    const authTag = Buffer.from(tag, 'base64url');
+    if (authTag.length !== TAG_BYTES) throw new Error('Invalid authentication tag');
+    decipher.setAuthTag(authTag);
+    plaintext = Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]);
+  } catch {
+    throw new AuthBundleError('Wrong password or corrupted bundle');
+  }
+
+  let bundle: AuthBundle | undefined;
+  try {
+    bundle = JSON.parse(gunzipSync(plaintext).toString('utf8')) as AuthBundle;
+  } catch {
+    // Reported below
+  }
+  if (bundle?.format !== BUNDLE_FORMAT || typeof bundle.sessionId !== 'string' || !Array.isArray(bundle.credentials)) {
+    throw new AuthBundleError('Unsupported auth state bundle');
+  }
+  const malformed = bundle.credentials.findIndex((credential) => !isCredential(credential));
+  if (malformed !== -1) {
+    throw new AuthBundleError(`Bundle credential #${malformed} must have a string key and value`);
+  }
+  return bundle;
+}
+
+function isCredential(value: unknown): value is AuthBundleCredential {
+  return isRecord(value) && typeof value.key === 'string' && typeof value.value === 'string';
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object';
+}
+
+function isSerializedBuffer(value: unknown): boolean {
+  return isRecord(value) && value.type === 'Buffer';
+}
+
+function isKeyPair(value: unknown): boolean {
+  return isRecord(value) && isSerializedBuffer(value.public) && isSerializedBuffer(value.private);
+}
+
+/**
+ * Check that serialized Baileys creds are complete enough to log in without a new
+ * QR scan. Returns the problems found; an empty list means the creds are usable.
+ */
+export function validateSerializedCreds(serialized: string): string[] {
+  let creds: unknown;
+  try {
+    creds = JSON.parse(serialized);
+  } catch {
+    return ['creds is not valid JSON'];
+  }
+  if (!isRecord(creds)) return ['creds is not an object'];
+
+  const problems: string[] = [];
+  if (!isKeyPair(creds.noiseKey)) problems.push('noiseKey');
+  if (!isKeyPair(creds.pairingEphemeralKeyPair)) problems.push('pairingEphemeralKeyPair');
+  if (!isKeyPair(creds.signedIdentityKey)) problems.push('signedIdentityKey');
+  const signedPreKey = creds.signedPreKey;
+  if (
+    !isRecord(signedPreKey) ||
+    !isKeyPair(signedPreKey.keyPair) ||
+    !isSerializedBuffer(signedPreKey.signature) ||
+    typeof signedPreKey.keyId !== 'number'
+  ) {
+    problems.push('signedPreKey');
+  }
+  if (typeof creds.registrationId !== 'number') problems.push('registrationId');
+  if (typeof creds.advSecretKey !== 'string') problems.push('advSecretKey');
+  // Without `me` the creds were never linked to a phone and would only produce a new QR
+  if (!isRecord(creds.me) || typeof creds.me.id !== 'string') problems.push('me.id (session was never linked)');
+  return problems;
+}
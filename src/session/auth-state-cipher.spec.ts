@@ -0,0 +1,55 @@
+import * as crypto from 'crypto';
+import { AuthStateCipher, parseMasterKeys } from './auth-state-cipher';
+
+describe('AuthStateCipher', () => {
+  const oldKey = crypto.randomBytes(32).toString('base64');
+  const newKey = crypto.randomBytes(32).toString('base64');
+
+  function createCipher(config: Record<string, string | undefined>) {
+    return new AuthStateCipher({ get: jest.fn((name: string) => config[name]) } as never);
+  }
+
+  it('encrypts values so they only decrypt for the same session and key', () => {
+    const cipher = createCipher({ AUTH_ENCRYPTION_KEYS: `k1:${oldKey}` });
+
+    const stored = cipher.encrypt('session-1', 'creds', '{"me":"628111"}');
+
+    expect(stored.keyId).toBe('k1');
+    expect(stored.value).not.toContain('628111');
+    expect(cipher.decrypt('session-1', 'creds', stored)).toBe('{"me":"628111"}');
+    expect(() => cipher.decrypt('session-2', 'creds', stored)).toThrow();
+  });
+
+  it('passes plaintext through when no master key is configured', () => {
+    const cipher = createCipher({});
+
+    expect(cipher.encrypt('session-1', 'creds', 'plain')).toEqual({ value: 'plain', keyId: null });
+    expect(cipher.decrypt('session-1', 'creds', { value: 'plain', keyId: null })).toBe('plain');
+    expect(cipher.reencrypt('session-1', 'creds', { value: 'plain', keyId: null })).toBeNull();
+  });
+
+  it('rewraps values from an older master key and encrypts legacy plaintext', () => {
+    const before = createCipher({ AUTH_ENCRYPTION_KEYS: `k1:${oldKey}` });
+    const after = createCipher({ AUTH_ENCRYPTION_KEYS: `k1:${oldKey},k2:${newKey}`, AUTH_ENCRYPTION_KEY_ID: 'k2' });
+    const stored = before.encrypt('session-1', 'session-628111.0', 'secret');
+
+    const rotated = after.reencrypt('session-1', 'session-628111.0', stored)!;
+    const encrypted = after.reencrypt('session-1', 'creds', { value: 'legacy', keyId: null })!;
+
+    expect(rotated.keyId).toBe('k2');
+    expect(after.decrypt('session-1', 'session-628111.0', rotated)).toBe('secret');
+    expect(after.reencrypt('session-1', 'session-628111.0', rotated)).toBeNull();
+    expect(after.decrypt('session-1', 'creds', encrypted)).toBe('legacy');
+    // The old key is no longer needed once every row is rewrapped
+    expect(createCipher({ AUTH_ENCRYPTION_KEYS: `k2:${newKey}` }).decrypt('session-1', 'session-628111.0', rotated)).toBe(
+      'secret',
+    );
+  });
+
+  it('rejects malformed key configuration', () => {
+    expect(() => parseMasterKeys('k1:short')).toThrow('Invalid AUTH_ENCRYPTION_KEYS entry "k1"');
+    expect(() => createCipher({ AUTH_ENCRYPTION_KEYS: `k1:${oldKey}`, AUTH_ENCRYPTION_KEY_ID: 'k9' })).toThrow(
+      'AUTH_ENCRYPTION_KEY_ID "k9" is not defined',
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const ENVELOPE_VERSION = 'v1';
+
+export interface EncryptedAuthValue {
+  value: string;
+  // Master key the value's data key is wrapped with; null for plaintext rows
+  keyId: string | null;
+}
+
+/**
+ * Parse `AUTH_ENCRYPTION_KEYS` (`<id>:<base64 32-byte key>` entries separated by commas).
+ */
+export function parseMasterKeys(raw: string | undefined): Map<string, Buffer> {
+  const keys = new Map<string, Buffer>();
+  for (const entry of (raw ?? '').split(',').map((part) => part.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const id = separator > 0 ? entry.slice(0, separator) : '';
+    const key = Buffer.from(entry.slice(separator + 1), 'base64');
+    if (!id || key.length !== KEY_BYTES) {
+      throw new Error(`Invalid AUTH_ENCRYPTION_KEYS entry "${id || entry.slice(0, 8)}": expected <id>:<base64 ${KEY_BYTES}-byte key>`);
+    }
+    keys.set(id, key);
+  }
+  return keys;
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad: string): Buffer {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function unseal(key: Buffer, sealed: Buffer, aad: string): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, sealed.subarray(0, IV_BYTES));
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(sealed.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+/**
+ * Envelope encryption for `auth_credentials` values.
+ *
+ * Each value is encrypted with its own random data key (AES-256-GCM, bound to the
+ * session ID and credential key so rows cannot be swapped), and the data key is
+ * wrapped with the active master key. Rotating the master key only rewraps data keys.
+ * Without configured keys values are stored as plaintext, as before.
+ */
+@Injectable()
+export class AuthStateCipher {
+  private readonly logger = new Logger(AuthStateCipher.name);
+  private readonly masterKeys: Map<string, Buffer>;
+  readonly activeKeyId: string | null;
+
+  constructor(configService: ConfigService) {
+    this.masterKeys = parseMasterKeys(configService.get<string>('AUTH_ENCRYPTION_KEYS'));
+    const [firstKeyId] = this.masterKeys.keys();
+    this.activeKeyId = configService.get<string>('AUTH_ENCRYPTION_KEY_ID') || (firstKeyId ?? null);
+
+    if (this.activeKeyId && !this.masterKeys.has(this.activeKeyId)) {
+      throw new Error(`AUTH_ENCRYPTION_KEY_ID "${this.activeKeyId}" is not defined in AUTH_ENCRYPTION_KEYS`);
+    }
+    if (!this.activeKeyId) {
+      this.logger.warn('AUTH_ENCRYPTION_KEYS is not set: WhatsApp auth credentials are stored unencrypted');
+    }
+  }
+
+  encrypt(sessionId: string, key: string, plaintext: string): EncryptedAuthValue {
+    if (!this.activeKeyId) return { value: plaintext, keyId: null };
+
+    const dataKey = crypto.randomBytes(KEY_BYTES);
+    const payload = seal(dataKey, Buffer.from(plaintext, 'utf8'), this.dataAad(sessionId, key));
+    return { value: this.encode(this.activeKeyId, dataKey, payload), keyId: this.activeKeyId };
+  }
+
+  decrypt(sessionId: string, key: string, stored: EncryptedAuthValue): string {
+    if (stored.keyId === null) return stored.value;
+
+    const { dataKey, payload } = this.decode(stored);
+    return unseal(dataKey, payload, this.dataAad(sessionId, key)).toString('utf8');
+  }
+
+  /**
+   * Bring a stored value under the active master key: plaintext rows are encrypted,
+   * rows under an older key get their data key rewrapped. Returns null when the
+   * value is already current.
+   */
+  reencrypt(sessionId: string, key: string, stored: EncryptedAuthValue): EncryptedAuthValue | null {
+    if (!this.activeKeyId || stored.keyId === this.activeKeyId) return null;
+    if (stored.keyId === null) return this.encrypt(sessionId, key, stored.value);
+
+    const { dataKey, payload } = this.decode(stored);
+    return { value: this.encode(this.activeKeyId, dataKey, payload), keyId: this.activeKeyId };
+  }
+
+  private encode(keyId: string, dataKey: Buffer, payload: Buffer): string {
+    const wrappedKey = seal(this.masterKeys.get(keyId)!, dataKey, keyId);
+    return [ENVELOPE_VERSION, wrappedKey.toString('base64'), payload.toString('base64')].join('.');
+  }
+
+  private decode(stored: EncryptedAuthValue): { dataKey: Buffer; payload: Buffer } {
+    const masterKey = this.masterKeys.get(stored.keyId!);
+    if (!masterKey) throw new Error(`Auth credential is encrypted with unknown master key "${stored.keyId}"`);
+
+    const [version, wrappedKey, payload] = stored.value.split('.');
+    if (version !== ENVELOPE_VERSION || !wrappedKey || !payload) {
+      throw new Error('Auth credential has an invalid encryption envelope');
+    }
+    return {
+      dataKey: unseal(masterKey, Buffer.from(wrappedKey, 'base64'), stored.keyId!),
+      payload: Buffer.from(payload, 'base64'),
+    };
+  }
+
+  private dataAad(sessionId: string, key: string): string {
+    return `${sessionId}\u0000${key}`;
+  }
+}
@@ -0,0 +1,42 @@
+import { Controller, Post, Param, Body, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiSecurity, ApiParam } from '@nestjs/swagger';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator.js';
+import { CurrentApiKey } from '../common/decorators/current-api-key.decorator.js';
+import type { ApiKeyPrincipal } from '../api-key/api-key-scopes.js';
+import { AuthStateService } from './auth-state.service.js';
+import { ExportAuthStateDto, ImportAuthStateDto } from './dto/session.dto.js';
+
+@ApiTags('Session')
+@ApiSecurity('x-api-key')
+@RequireScopes('sessions:admin')
+@Controller('sessions')
+export class AuthStateController {
+  constructor(private readonly authStateService: AuthStateService) {}
+
+  @Post('auth/re-encrypt')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Re-encrypt stored auth credentials under the active master key' })
+  reencrypt(@CurrentApiKey() apiKey: ApiKeyPrincipal) {
+    return this.authStateService.reencrypt(apiKey.tenantId);
+  }
+
+  @Post(':sessionId/auth/export')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Export auth credentials as a password-protected bundle' })
+  @ApiParam({ name: 'sessionId', description: 'Session ID' })
+  export(@Param('sessionId') sessionId: string, @Body() dto: ExportAuthStateDto) {
+    return this.authStateService.export(sessionId, dto);
+  }
+
+  @Post(':sessionId/auth/import')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Import an exported bundle into a session that is not connected' })
+  @ApiParam({ name: 'sessionId', description: 'Target session ID (created when missing)' })
+  import(
+    @Param('sessionId') sessionId: string,
+    @Body() dto: ImportAuthStateDto,
+    @CurrentApiKey() apiKey: ApiKeyPrincipal,
+  ) {
+    return this.authStateService.import(sessionId, dto, apiKey.tenantId);
+  }
+}
@@ -0,0 +1,171 @@
+import { BadRequestException, ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import type { Prisma } from '../generated/prisma/client/client.js';
+import { PrismaService } from '../prisma/prisma.service.js';
+import { AuthStateCipher } from './auth-state-cipher.js';
+import { AuthBundleError, openAuthBundle, sealAuthBundle, validateSerializedCreds } from './auth-bundle.js';
+import { SessionService } from './session.service.js';
+import { ExportAuthStateDto, ImportAuthStateDto, SESSION_ID_PATTERN } from './dto/session.dto.js';
+
+const REENCRYPT_BATCH_SIZE = 500;
+
+@Injectable()
+export class AuthStateService {
+  private readonly logger = new Logger(AuthStateService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly cipher: AuthStateCipher,
+    private readonly sessionService: SessionService,
+  ) {}
+
+  /**
+   * Export a session's auth credentials as a password-protected bundle, so the linked
+   * number can be moved to another environment without a new QR scan.
+   */
+  async export(sessionId: string, dto: ExportAuthStateDto) {
+    const session = await this.prisma.session.findUnique({ where: { id: sessionId }, select: { id: true } });
+    if (!session) throw new NotFoundException(`Session "${sessionId}" not found`);
+
+    // A running socket buffers key writes; export what it would have stored
+    await this.sessionService.flushSessionKeys(sessionId);
+    const rows = await this.prisma.authCredential.findMany({
+      where: { sessionId },
+      select: { key: true, value: true, keyId: true },
+      orderBy: { key: 'asc' },
+    });
+    const credentials = rows.map((row) => ({ key: row.key, value: this.cipher.decrypt(sessionId, row.key, row) }));
+
+    const creds = credentials.find((credential) => credential.key === 'creds');
+    if (!creds || validateSerializedCreds(creds.value).length > 0) {
+      throw new BadRequestException(`Session "${sessionId}" is not linked to a WhatsApp account`);
+    }
+
+    const exportedAt = new Date().toISOString();
+    const bundle = await sealAuthBundle({ sessionId, exportedAt, credentials }, dto.password);
+
+    this.logger.log(`Exported ${credentials.length} auth credentials of session "${sessionId}"`);
+    return { sessionId, exportedAt, credentials: credentials.length, bundle };
+  }
+
+  /**
+   * Import an exported bundle into `sessionId`. The creds are validated first, and the
+   * target must not be connected, since its socket would keep writing its own keys.
+   */
+  async import(sessionId: string, dto: ImportAuthStateDto, tenantId: string | null) {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      throw new BadRequestException('Session ID must be alphanumeric with dashes/underscores');
+    }
+    if (await this.sessionService.isSessionActive(sessionId)) {
+      throw new ConflictException(`Session "${sessionId}" is connected; auth state can only be imported into an inactive session`);
+    }
+
+    let bundle: Awaited<ReturnType<typeof openAuthBundle>>;
+    try {
+      bundle = await openAuthBundle(dto.bundle, dto.password);
+    } catch (err) {
+      if (err instanceof AuthBundleError) throw new BadRequestException(err.message);
+      throw err;
+    }
+
+    // Later entries win, as they would have in the source store
+    const credentials = new Map(bundle.credentials.map((credential) => [credential.key, credential.value]));
+    const creds = credentials.get('creds');
+    if (!creds) throw new BadRequestException('Bundle does not contain creds');
+    const problems = validateSerializedCreds(creds);
+    if (problems.length > 0) {
+      throw new BadRequestException(`Bundle creds are invalid: ${problems.join(', ')}`);
+    }
+
+    const { exists, tenant } = await this.sessionService.resolveSessionTenant(sessionId, tenantId ?? undefined);
+    if (exists && !dto.overwrite) {
+      const existingCredentials = await this.prisma.authCredential.count({ where: { sessionId } });
+      if (existingCredentials > 0) {
+        throw new ConflictException(`Session "${sessionId}" already has auth credentials; pass overwrite: true to replace them`);
+      }
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.session.upsert({
+        where: { id: sessionId },
+        create: { id: sessionId, tenantId: tenant?.id, status: 'close' },
+        update: {},
+      }),
+      this.prisma.authCredential.deleteMany({ where: { sessionId } }),
+      this.prisma.authCredential.createMany({
+        data: [...credentials].map(([key, value]) => ({ sessionId, key, ...this.cipher.encrypt(sessionId, key, value) })),
+      }),
+    ]);
+
+    this.logger.log(`Imported ${credentials.size} auth credentials from session "${bundle.sessionId}" into "${sessionId}"`);
+    const result = {
+      sessionId,
+      sourceSessionId: bundle.sessionId,
+      exportedAt: bundle.exportedAt,
+      credentials: credentials.size,
+    };
+    if (!dto.connect) return { ...result, status: 'close' };
+
+    const session = await this.sessionService.createSession(sessionId, { tenantId: tenant?.id });
+    return { ...result, status: session.status };
+  }
+
+  /**
+   * Re-encrypt stored auth credentials under the active master key: plaintext rows are
+   * encrypted and rows under older keys are rewrapped. Rows written concurrently by a
+   * live session are skipped, since every write already uses the active key.
+   */
+  async reencrypt(tenantId: string | null) {
+    const activeKeyId = this.cipher.activeKeyId;
+    if (!activeKeyId) {
+      throw new BadRequestException('AUTH_ENCRYPTION_KEYS is not configured');
+    }
+
+    const where: Prisma.AuthCredentialWhereInput = {
+      OR: [{ keyId: null }, { keyId: { not: activeKeyId } }],
+      ...(tenantId ? { session: { tenantId } } : {}),
+    };
+
+    let reencrypted = 0;
+    let skipped = 0;
+    let failed = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const rows = await this.prisma.authCredential.findMany({
+        where: cursor ? { ...where, id: { gt: cursor } } : where,
+        select: { id: true, sessionId: true, key: true, value: true, keyId: true },
+        orderBy: { id: 'asc' },
+        take: REENCRYPT_BATCH_SIZE,
+      });
+      if (rows.length === 0) break;
+      cursor = rows[rows.length - 1].id;
+
+      const updates: Prisma.PrismaPromise<Prisma.BatchPayload>[] = [];
+      for (const row of rows) {
+        try {
+          const next = this.cipher.reencrypt(row.sessionId, row.key, row);
+          if (!next) continue;
+          // Only replace the exact value that was read, so a newer write is never overwritten
+          updates.push(
+            this.prisma.authCredential.updateMany({
+              where: { id: row.id, value: row.value },
+              data: next,
+            }),
+          );
+        } catch (err) {
+          failed++;
+          this.logger.warn(`Cannot re-encrypt auth credential ${row.sessionId}/${row.key}: ${(err as Error).message}`);
+        }
+      }
+
+      const results = updates.length > 0 ? await this.prisma.$transaction(updates) : [];
+      for (const result of results) {
+        if (result.count > 0) reencrypted++;
+        else skipped++;
+      }
+    }
+
+    this.logger.log(`Re-encrypted ${reencrypted} auth credentials under key "${activeKeyId}" (${skipped} skipped, ${failed} failed)`);
+    return { keyId: activeKeyId, reencrypted, skipped, failed };
+  }
+}
@@ -0,0 +1,30 @@
+import { BadRequestException, ValidationPipe } from '@nestjs/common';
+import { UpdateSessionDto } from './session.dto';
+
+describe('UpdateSessionDto', () => {
+  // Same options as the global pipe in main.ts
+  const pipe = new ValidationPipe({
+    whitelist: true,
+    forbidNonWhitelisted: true,
+    transform: true,
+    transformOptions: { enableImplicitConversion: true },
+  });
+  const validate = (body: Record<string, unknown>) => pipe.transform(body, { type: 'body', metatype: UpdateSessionDto });
+
+  it('accepts null for settings that fall back to a default', async () => {
+    await expect(
+      validate({ webhookUrl: null, displayName: null, proxyUrl: null, sendLimits: { ratePerMinute: null } }),
+    ).resolves.toBeInstanceOf(UpdateSessionDto);
+  });
+
+  it.each([
+    { tags: null },
+    { autoReconnect: null },
+    { markOnlineOnConnect: null },
+    { browserPlatform: null },
+    { reconnectPolicy: null },
+    { reconnectPolicy: { maxAttempts: null } },
+  ])('rejects null for settings that cannot be cleared: %j', async (body) => {
+    await expect(validate(body)).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
@@ -0,0 +1,98 @@
+import { usePrismaAuthState } from './prisma-auth-state';
+import { AuthStateCipher } from './auth-state-cipher';
+
+jest.mock('@whiskeysockets/baileys', () => ({
+  initAuthCreds: jest.fn(() => ({})),
+  BufferJSON: {
+    replacer: (_key: string, value: unknown) => value,
+    reviver: (_key: string, value: unknown) => value,
+  },
+  proto: {
+    Message: {
+      AppStateSyncKeyData: {
+        fromObject: jest.fn((value) => value),
+      },
+    },
+  },
+}));
+
+const LATENCY_MS = 1;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Wall-clock comparisons of the auth key cache and write batching against a simulated
+ * database. Timings depend on the machine, so these only run with `npm run test:bench`.
+ */
+describe('usePrismaAuthState benchmarks (1ms simulated database latency)', () => {
+  const cipher = new AuthStateCipher({ get: jest.fn() } as any);
+
+  // In-memory stand-in for auth_credentials; every query or transaction costs a round trip
+  function createPrisma() {
+    const rows = new Map<string, string>();
+    return {
+      rows,
+      authCredential: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn(async ({ where }: { where: { key: { in: string[] } } }) => {
+          await delay(LATENCY_MS);
+          return where.key.in.filter((key) => rows.has(key)).map((key) => ({ key, value: rows.get(key)!, keyId: null }));
+        }),
+        deleteMany: jest.fn((args) => ({ operation: 'deleteMany', args })),
+      },
+      $executeRawUnsafe: jest.fn((sql: string, ...params: (string | null)[]) => ({ operation: 'upsert', sql, params })),
+      $transaction: jest.fn(async (operations: any[]) => {
+        await delay(LATENCY_MS);
+        for (const operation of operations) {
+          if (operation.operation === 'upsert') {
+            for (let i = 0; i < operation.params.length; i += 5) {
+              rows.set(operation.params[i + 2], operation.params[i + 3]);
+            }
+          } else {
+            for (const key of operation.args.where.key.in) rows.delete(key);
+          }
+        }
+      }),
+    };
+  }
+
+  it('answers repeated lookups faster from the cache', async () => {
+    const run = async (cacheSize: number) => {
+      const prisma = createPrisma();
+      for (let i = 0; i < 50; i++) prisma.rows.set(`session-${i}`, `{"n":${i}}`);
+      const { state } = await usePrismaAuthState('session-1', prisma as any, cipher, { cacheSize });
+
+      const startedAt = performance.now();
+      for (let call = 0; call < 200; call++) {
+        await state.keys.get('session', [0, 1, 2, 3, 4].map((offset) => String((call + offset * 7) % 50)));
+      }
+      return performance.now() - startedAt;
+    };
+
+    const uncachedMs = await run(0);
+    const cachedMs = await run(5000);
+
+    console.log(`200 lookups: ${uncachedMs.toFixed(0)}ms uncached, ${cachedMs.toFixed(0)}ms cached`);
+    expect(cachedMs).toBeLessThan(uncachedMs / 2);
+  });
+
+  it('writes keys faster in bulk transactions', async () => {
+    const run = async (flushDelayMs: number) => {
+      const prisma = createPrisma();
+      const { state, flush } = await usePrismaAuthState('session-1', prisma as any, cipher, { flushDelayMs });
+
+      const startedAt = performance.now();
+      for (let i = 0; i < 1000; i++) {
+        await state.keys.set({ 'sender-key': { [`group-${i}`]: { n: i } as any } });
+      }
+      await flush();
+      return performance.now() - startedAt;
+    };
+
+    const writeThroughMs = await run(0);
+    const batchedMs = await run(100);
+
+    console.log(`1000 writes: ${writeThroughMs.toFixed(0)}ms write-through, ${batchedMs.toFixed(0)}ms batched`);
+    expect(batchedMs).toBeLessThan(writeThroughMs / 2);
+  });
+});
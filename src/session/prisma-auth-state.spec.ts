@@ -1,4 +1,5 @@
 import { usePrismaAuthState } from './prisma-auth-state';
+import { AuthStateCipher } from './auth-state-cipher';
 
 jest.mock('@whiskeysockets/baileys', () => ({
   initAuthCreds: jest.fn(() => ({})),
@@ -16,17 +17,43 @@ jest.mock('@whiskeysockets/baileys', () => ({
 }));
 
 describe('usePrismaAuthState', () => {
-  it('persists signal key mutations in a single transaction', async () => {
+  const cipher = new AuthStateCipher({ get: jest.fn() } as any);
+
+  // In-memory stand-in for auth_credentials
+  function createPrisma() {
+    const rows = new Map<string, string>();
     const prisma = {
+      rows,
       authCredential: {
         findUnique: jest.fn().mockResolvedValue(null),
-        findMany: jest.fn(),
-        upsert: jest.fn((args) => ({ operation: 'upsert', args })),
+        findMany: jest.fn(({ where }: { where: { key: { in: string[] } } }) =>
+          Promise.resolve(
+            where.key.in.filter((key) => rows.has(key)).map((key) => ({ key, value: rows.get(key)!, keyId: null })),
+          ),
+        ),
+        upsert: jest.fn(),
         deleteMany: jest.fn((args) => ({ operation: 'deleteMany', args })),
       },
-      $transaction: jest.fn().mockResolvedValue(undefined),
+      $executeRawUnsafe: jest.fn((sql: string, ...params: (string | null)[]) => ({ operation: 'upsert', sql, params })),
+      $transaction: jest.fn((operations: any[]) => {
+        for (const operation of operations) {
+          if (operation.operation === 'upsert') {
+            for (let i = 0; i < operation.params.length; i += 5) {
+              rows.set(operation.params[i + 2], operation.params[i + 3]);
+            }
+          } else {
+            for (const key of operation.args.where.key.in) rows.delete(key);
+          }
+        }
+        return Promise.resolve();
+      }),
     };
-    const { state } = await usePrismaAuthState('session-1', prisma as any);
+    return prisma;
+  }
+
+  it('persists signal key mutations in a single transaction', async () => {
+    const prisma = createPrisma();
+    const { state, flush } = await usePrismaAuthState('session-1', prisma as any, cipher);
 
     await state.keys.set({
       session: {
@@ -34,11 +61,74 @@ describe('usePrismaAuthState', () => {
         'key-2': null as any,
       },
     });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+
+    await flush();
 
     expect(prisma.$transaction).toHaveBeenCalledTimes(1);
     expect(prisma.$transaction).toHaveBeenCalledWith([
       expect.objectContaining({ operation: 'upsert' }),
       expect.objectContaining({ operation: 'deleteMany' }),
     ]);
+    expect(prisma.$executeRawUnsafe.mock.calls[0][0]).toContain('ON CONFLICT ("session_id", "key") DO UPDATE');
+    expect(prisma.rows.get('session-key-1')).toBe('{"value":"stored"}');
+  });
+
+  it('serves unflushed writes, cached values and known-missing keys from memory', async () => {
+    const prisma = createPrisma();
+    prisma.rows.set('pre-key-1', '{"id":1}');
+    const { state } = await usePrismaAuthState('session-1', prisma as any, cipher);
+
+    await expect(state.keys.get('pre-key', ['1', '2'])).resolves.toEqual({ '1': { id: 1 } });
+    await state.keys.set({ 'pre-key': { '3': { id: 3 } as any, '1': null as any } });
+
+    await expect(state.keys.get('pre-key', ['1', '2', '3'])).resolves.toEqual({ '3': { id: 3 } });
+    expect(prisma.authCredential.findMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops pending writes on dispose', async () => {
+    const prisma = createPrisma();
+    const { state, flush, dispose } = await usePrismaAuthState('session-1', prisma as any, cipher);
+
+    await state.keys.set({ session: { 'key-1': { value: 'stored' } as any } });
+    dispose();
+    await flush();
+
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  // Timings are measured by prisma-auth-state.bench-spec.ts (npm run test:bench)
+  it('answers repeated lookups from the cache instead of the database', async () => {
+    const run = async (cacheSize: number) => {
+      const prisma = createPrisma();
+      for (let i = 0; i < 50; i++) prisma.rows.set(`session-${i}`, `{"n":${i}}`);
+      const { state } = await usePrismaAuthState('session-1', prisma as any, cipher, { cacheSize });
+
+      for (let call = 0; call < 200; call++) {
+        await state.keys.get('session', [0, 1, 2, 3, 4].map((offset) => String((call + offset * 7) % 50)));
+      }
+      return prisma.authCredential.findMany.mock.calls.length;
+    };
+
+    expect(await run(0)).toBe(200);
+    expect(await run(5000)).toBeLessThanOrEqual(50);
+  });
+
+  it('coalesces key writes into a few bulk transactions', async () => {
+    const run = async (flushDelayMs: number) => {
+      const prisma = createPrisma();
+      const { state, flush } = await usePrismaAuthState('session-1', prisma as any, cipher, { flushDelayMs });
+
+      for (let i = 0; i < 1000; i++) {
+        await state.keys.set({ 'sender-key': { [`group-${i}`]: { n: i } as any } });
+      }
+      await flush();
+      return prisma;
+    };
+
+    expect((await run(0)).$transaction).toHaveBeenCalledTimes(1000);
+    const batched = await run(100);
+    expect(batched.$transaction.mock.calls.length).toBeLessThanOrEqual(3);
+    expect(batched.rows.size).toBe(1000);
   });
 });
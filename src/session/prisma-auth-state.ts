@@ -6,20 +6,100 @@ import type {
 } from '@whiskeysockets/baileys';
 import { proto } from '@whiskeysockets/baileys';
 import { initAuthCreds, BufferJSON } from '@whiskeysockets/baileys';
+import { Logger } from '@nestjs/common';
+import * as crypto from 'crypto';
+import type { Prisma } from '../generated/prisma/client/client.js';
 import type { PrismaService } from '../prisma/prisma.service.js';
+import type { AuthStateCipher } from './auth-state-cipher.js';
+
+const logger = new Logger('PrismaAuthState');
+
+// Rows per INSERT ... ON CONFLICT statement (5 bind parameters each, well below Postgres' 65535 limit)
+const UPSERT_CHUNK_SIZE = 1000;
+// Pending writes that trigger a flush before the delay expires
+const MAX_PENDING_WRITES = 500;
+const FLUSH_RETRY_MS = 1000;
+
+export interface AuthKeyStoreOptions {
+  // Signal keys kept in memory per session; 0 disables the cache
+  cacheSize?: number;
+  // How long key writes are coalesced before they are flushed; 0 writes on every set
+  flushDelayMs?: number;
+}
+
+export interface PrismaAuthState {
+  state: AuthenticationState;
+  saveCreds: () => Promise<void>;
+  // Write pending key changes to the database
+  flush: () => Promise<void>;
+  // Drop pending writes and the cache, e.g. when the session's rows are being deleted
+  dispose: () => void;
+}
 
 function buildKey(type: string, id: string): string {
   return `${type}-${id}`;
 }
 
+/**
+ * Least-recently-used cache on top of Map's insertion order. A `null` value records
+ * that the key does not exist, so repeated lookups of missing keys stay in memory.
+ */
+class LruCache<V> {
+  private readonly entries = new Map<string, V | null>();
+
+  constructor(private readonly capacity: number) {}
+
+  has(key: string): boolean {
+    return this.entries.has(key);
+  }
+
+  get(key: string): V | null | undefined {
+    if (!this.entries.has(key)) return undefined;
+    const value = this.entries.get(key)!;
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  set(key: string, value: V | null) {
+    if (this.capacity <= 0) return;
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    if (this.entries.size > this.capacity) {
+      const oldest = this.entries.keys().next();
+      if (!oldest.done) this.entries.delete(oldest.value);
+    }
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
+
 /**
  * Custom Prisma-backed auth state for Baileys.
  * Replaces `useMultiFileAuthState` with PostgreSQL storage via Prisma.
+ * Values are encrypted at rest by `cipher` when master keys are configured.
+ *
+ * Signal keys are read through a per-session LRU cache, and key writes are coalesced
+ * and flushed in bulk. Callers must `flush()` before the session is dropped or another
+ * store is opened for it.
  */
 export async function usePrismaAuthState(
   sessionId: string,
   prisma: PrismaService,
-): Promise<{ state: AuthenticationState; saveCreds: () => Promise<void> }> {
+  cipher: AuthStateCipher,
+  options: AuthKeyStoreOptions = {},
+): Promise<PrismaAuthState> {
+  const flushDelayMs = options.flushDelayMs ?? 100;
+  const cache = new LruCache<unknown>(options.cacheSize ?? 5000);
+  // Key writes not yet persisted (null = delete), and the batch currently being written
+  let pending = new Map<string, string | null>();
+  let flushing = new Map<string, string | null>();
+  let flushTimer: NodeJS.Timeout | undefined;
+  let flushInFlight: Promise<void> | undefined;
+  let disposed = false;
+
   // Load or initialize credentials
   const credsRow = await prisma.authCredential.findUnique({
     where: { sessionId_key: { sessionId, key: 'creds' } },
@@ -27,20 +107,100 @@ export async function usePrismaAuthState(
 
   let creds: AuthenticationCreds;
   if (credsRow) {
-    creds = JSON.parse(credsRow.value, BufferJSON.reviver);
+    creds = JSON.parse(cipher.decrypt(sessionId, 'creds', credsRow), BufferJSON.reviver) as AuthenticationCreds;
   } else {
     creds = initAuthCreds();
   }
 
   const saveCreds = async () => {
-    const value = JSON.stringify(creds, BufferJSON.replacer);
+    const encrypted = cipher.encrypt(sessionId, 'creds', JSON.stringify(creds, BufferJSON.replacer));
     await prisma.authCredential.upsert({
       where: { sessionId_key: { sessionId, key: 'creds' } },
-      create: { sessionId, key: 'creds', value },
-      update: { value },
+      create: { sessionId, key: 'creds', ...encrypted },
+      update: encrypted,
     });
   };
 
+  const writeBatch = async (batch: Map<string, string | null>) => {
+    const upserts: [string, string][] = [];
+    const deletes: string[] = [];
+    for (const [key, serialized] of batch) {
+      if (serialized === null) deletes.push(key);
+      else upserts.push([key, serialized]);
+    }
+
+    const operations: Prisma.PrismaPromise<unknown>[] = [];
+    for (let i = 0; i < upserts.length; i += UPSERT_CHUNK_SIZE) {
+      const chunk = upserts.slice(i, i + UPSERT_CHUNK_SIZE);
+      const params: (string | null)[] = [];
+      const rows = chunk.map(([key, serialized], index) => {
+        const { value, keyId } = cipher.encrypt(sessionId, key, serialized);
+        params.push(crypto.randomUUID(), sessionId, key, value, keyId);
+        const base = index * 5;
+        return `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, NOW())`;
+      });
+      operations.push(
+        prisma.$executeRawUnsafe(
+          'INSERT INTO "auth_credentials" ("id", "session_id", "key", "value", "key_id", "updated_at") ' +
+            `VALUES ${rows.join(', ')} ` +
+            'ON CONFLICT ("session_id", "key") DO UPDATE ' +
+            'SET "value" = EXCLUDED."value", "key_id" = EXCLUDED."key_id", "updated_at" = NOW()',
+          ...params,
+        ),
+      );
+    }
+    if (deletes.length > 0) {
+      operations.push(prisma.authCredential.deleteMany({ where: { sessionId, key: { in: deletes } } }));
+    }
+
+    if (operations.length > 0) {
+      await prisma.$transaction(operations);
+    }
+  };
+
+  const flush = async (): Promise<void> => {
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = undefined;
+    }
+    // One batch at a time, so a newer write can never be overtaken by an older one
+    while (flushInFlight) await flushInFlight.catch(() => undefined);
+    if (pending.size === 0 || disposed) return;
+
+    flushing = pending;
+    pending = new Map();
+    flushInFlight = writeBatch(flushing)
+      .catch((err: unknown) => {
+        // Keep the batch for the next flush, unless a newer write replaced an entry meanwhile
+        for (const [key, serialized] of flushing) {
+          if (!pending.has(key)) pending.set(key, serialized);
+        }
+        throw err;
+      })
+      .finally(() => {
+        flushing = new Map();
+        flushInFlight = undefined;
+      });
+    await flushInFlight;
+  };
+
+  const scheduleFlush = (delayMs = flushDelayMs) => {
+    if (flushTimer || disposed) return;
+    flushTimer = setTimeout(() => {
+      flushTimer = undefined;
+      flush().catch((err: unknown) => {
+        logger.error(`Failed to flush auth keys for "${sessionId}": ${(err as Error).message}`);
+        scheduleFlush(FLUSH_RETRY_MS);
+      });
+    }, delayMs);
+  };
+
+  const deserialize = <T extends keyof SignalDataTypeMap>(type: T, serialized: string): SignalDataTypeMap[T] => {
+    const parsed = JSON.parse(serialized, BufferJSON.reviver) as Record<string, unknown>;
+    const value = type === 'app-state-sync-key' ? proto.Message.AppStateSyncKeyData.fromObject(parsed) : parsed;
+    return value as SignalDataTypeMap[T];
+  };
+
   const state: AuthenticationState = {
     creds,
     keys: {
@@ -49,37 +209,51 @@ export async function usePrismaAuthState(
         ids: string[],
       ): Promise<Record<string, SignalDataTypeMap[T]>> => {
         const result: Record<string, SignalDataTypeMap[T]> = {};
+        const missing: string[] = [];
 
-        if (ids.length === 0) return result;
+        for (const id of ids) {
+          const key = buildKey(type, id);
+          // Unflushed writes are newer than anything in the database
+          const unflushed = pending.has(key) ? pending.get(key) : flushing.get(key);
+          if (unflushed !== undefined) {
+            if (unflushed !== null) result[id] = deserialize(type, unflushed);
+            continue;
+          }
+
+          const cached = cache.get(key);
+          if (cached === undefined) missing.push(key);
+          else if (cached !== null) result[id] = cached as SignalDataTypeMap[T];
+        }
+
+        if (missing.length === 0) return result;
 
-        const keys = ids.map((id) => buildKey(type, id));
         const rows = await prisma.authCredential.findMany({
           where: {
             sessionId,
-            key: { in: keys },
+            key: { in: missing },
           },
         });
 
+        const found = new Set<string>();
         for (const row of rows) {
           // Extract the id part from the key
           const prefix = `${type}-`;
           const id = row.key.slice(prefix.length);
 
-          let parsed = JSON.parse(row.value, BufferJSON.reviver);
-
-          if (type === 'app-state-sync-key') {
-            parsed = proto.Message.AppStateSyncKeyData.fromObject(parsed);
-          }
-
+          const parsed = deserialize(type, cipher.decrypt(sessionId, row.key, row));
           result[id] = parsed;
+          found.add(row.key);
+          // A write that landed while the query ran is newer than this row
+          if (!pending.has(row.key) && !flushing.has(row.key) && !cache.has(row.key)) cache.set(row.key, parsed);
+        }
+        for (const key of missing) {
+          if (!found.has(key) && !pending.has(key) && !flushing.has(key) && !cache.has(key)) cache.set(key, null);
         }
 
         return result;
       },
 
       set: async (data: SignalDataSet): Promise<void> => {
-        const operations: unknown[] = [];
-
         for (const _type in data) {
           const type = _type as keyof SignalDataTypeMap;
           const entries = data[type];
@@ -90,31 +264,31 @@ export async function usePrismaAuthState(
             const key = buildKey(type, id);
 
             if (value) {
-              const serialized = JSON.stringify(value, BufferJSON.replacer);
-              operations.push(
-                prisma.authCredential.upsert({
-                  where: { sessionId_key: { sessionId, key } },
-                  create: { sessionId, key, value: serialized },
-                  update: { value: serialized },
-                }),
-              );
+              pending.set(key, JSON.stringify(value, BufferJSON.replacer));
+              cache.set(key, value);
             } else {
-              // Delete the key
-              operations.push(
-                prisma.authCredential.deleteMany({
-                  where: { sessionId, key },
-                }),
-              );
+              pending.set(key, null);
+              cache.set(key, null);
             }
           }
         }
 
-        if (operations.length > 0) {
-          await prisma.$transaction(operations as any);
+        if (flushDelayMs <= 0 || pending.size >= MAX_PENDING_WRITES) {
+          await flush();
+        } else if (pending.size > 0) {
+          scheduleFlush();
         }
       },
     },
   };
 
-  return { state, saveCreds };
+  const dispose = () => {
+    disposed = true;
+    if (flushTimer) clearTimeout(flushTimer);
+    flushTimer = undefined;
+    pending.clear();
+    cache.clear();
+  };
+
+  return { state, saveCreds, flush, dispose };
 }
@@ -0,0 +1,51 @@
+import { DEFAULT_RECONNECT_POLICY, canRetry, reconnectDelay, reconnectPolicyOf } from './reconnect-policy';
+
+describe('reconnect policy', () => {
+  it('computes fixed, linear and exponential delays capped at the maximum', () => {
+    const policy = { ...DEFAULT_RECONNECT_POLICY, baseDelayMs: 1000, maxDelayMs: 5000 };
+
+    expect([1, 2, 3, 4].map((attempt) => reconnectDelay({ ...policy, backoff: 'fixed' }, attempt))).toEqual([
+      1000, 1000, 1000, 1000,
+    ]);
+    expect([1, 2, 3, 6].map((attempt) => reconnectDelay({ ...policy, backoff: 'linear' }, attempt))).toEqual([
+      1000, 2000, 3000, 5000,
+    ]);
+    expect([1, 2, 3, 4].map((attempt) => reconnectDelay({ ...policy, backoff: 'exponential' }, attempt))).toEqual([
+      1000, 2000, 4000, 5000,
+    ]);
+  });
+
+  it('spreads delays by the jitter fraction', () => {
+    const policy = { ...DEFAULT_RECONNECT_POLICY, backoff: 'fixed' as const, baseDelayMs: 1000, jitter: 0.2 };
+
+    expect(reconnectDelay(policy, 1, () => 0)).toBe(800);
+    expect(reconnectDelay(policy, 1, () => 0.5)).toBe(1000);
+    expect(reconnectDelay(policy, 1, () => 1)).toBe(1200);
+  });
+
+  it('limits attempts unless maxAttempts is 0', () => {
+    expect(canRetry({ ...DEFAULT_RECONNECT_POLICY, maxAttempts: 2 }, 2)).toBe(true);
+    expect(canRetry({ ...DEFAULT_RECONNECT_POLICY, maxAttempts: 2 }, 3)).toBe(false);
+    expect(canRetry({ ...DEFAULT_RECONNECT_POLICY, maxAttempts: 0 }, 1000)).toBe(true);
+  });
+
+  it('falls back to defaults for unknown stored values', () => {
+    const policy = reconnectPolicyOf({
+      reconnectMaxAttempts: 3,
+      reconnectBackoff: 'quadratic',
+      reconnectBaseDelayMs: 500,
+      reconnectMaxDelayMs: 10000,
+      reconnectJitter: 0.1,
+      reconnectGiveUpAction: 'explode',
+    });
+
+    expect(policy).toEqual({
+      maxAttempts: 3,
+      backoff: 'exponential',
+      baseDelayMs: 500,
+      maxDelayMs: 10000,
+      jitter: 0.1,
+      giveUpAction: 'close',
+    });
+  });
+});
@@ -0,0 +1,74 @@
+export const RECONNECT_BACKOFF_CURVES = ['fixed', 'linear', 'exponential'] as const;
+export type ReconnectBackoff = (typeof RECONNECT_BACKOFF_CURVES)[number];
+
+// What happens once a session runs out of reconnect attempts
+export const RECONNECT_GIVE_UP_ACTIONS = ['close', 'delete'] as const;
+export type ReconnectGiveUpAction = (typeof RECONNECT_GIVE_UP_ACTIONS)[number];
+
+export interface ReconnectPolicy {
+  // 0 retries forever
+  maxAttempts: number;
+  backoff: ReconnectBackoff;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Fraction of the delay added or subtracted at random (0-1)
+  jitter: number;
+  giveUpAction: ReconnectGiveUpAction;
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  maxAttempts: 5,
+  backoff: 'exponential',
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: 0,
+  giveUpAction: 'close',
+};
+
+/**
+ * Read the policy stored on a session row, falling back to the defaults for
+ * values the database does not know.
+ */
+export function reconnectPolicyOf(session: {
+  reconnectMaxAttempts: number;
+  reconnectBackoff: string;
+  reconnectBaseDelayMs: number;
+  reconnectMaxDelayMs: number;
+  reconnectJitter: number;
+  reconnectGiveUpAction: string;
+}): ReconnectPolicy {
+  return {
+    maxAttempts: session.reconnectMaxAttempts,
+    backoff: (RECONNECT_BACKOFF_CURVES as readonly string[]).includes(session.reconnectBackoff)
+      ? (session.reconnectBackoff as ReconnectBackoff)
+      : DEFAULT_RECONNECT_POLICY.backoff,
+    baseDelayMs: session.reconnectBaseDelayMs,
+    maxDelayMs: session.reconnectMaxDelayMs,
+    jitter: session.reconnectJitter,
+    giveUpAction: (RECONNECT_GIVE_UP_ACTIONS as readonly string[]).includes(session.reconnectGiveUpAction)
+      ? (session.reconnectGiveUpAction as ReconnectGiveUpAction)
+      : DEFAULT_RECONNECT_POLICY.giveUpAction,
+  };
+}
+
+export function canRetry(policy: ReconnectPolicy, attempt: number): boolean {
+  return policy.maxAttempts === 0 || attempt <= policy.maxAttempts;
+}
+
+/**
+ * Delay before reconnect `attempt` (1-based): `fixed` waits the base delay every
+ * time, `linear` adds it per attempt and `exponential` doubles it, capped at
+ * `maxDelayMs` before jitter is applied.
+ */
+export function reconnectDelay(policy: ReconnectPolicy, attempt: number, random: () => number = Math.random): number {
+  const steps = Math.max(attempt, 1);
+  const delay =
+    policy.backoff === 'fixed'
+      ? policy.baseDelayMs
+      : policy.backoff === 'linear'
+        ? policy.baseDelayMs * steps
+        : policy.baseDelayMs * 2 ** (steps - 1);
+  const capped = Math.min(delay, policy.maxDelayMs);
+  const jitter = capped * policy.jitter * (random() * 2 - 1);
+  return Math.max(0, Math.round(capped + jitter));
+}
@@ -0,0 +1,59 @@
+import { NotFoundException } from '@nestjs/common';
+import { SessionBulkService } from './session-bulk.service';
+import { bulkProgressOf } from './session-bulk';
+
+describe('SessionBulkService', () => {
+  const principal = (sessionIds: string[]) => ({ id: 'key-1', tenantId: null, name: 'ops', scopes: ['sessions:admin'], sessionIds });
+
+  function createService(options: { sessions?: { id: string; status: string }[]; liveStatus?: Record<string, string> } = {}) {
+    const prisma = {
+      session: { findMany: jest.fn().mockResolvedValue(options.sessions ?? []) },
+    };
+    const queueService = {
+      addSessionBulkJob: jest.fn().mockResolvedValue('job-1'),
+      getSessionBulkJob: jest.fn(),
+    };
+    const sessionService = {
+      statusFilter: jest.fn((status: string) => ({ status })),
+      statusOf: jest.fn((session: { id: string; status: string }) => options.liveStatus?.[session.id] ?? session.status),
+    };
+    const service = new SessionBulkService(prisma as any, queueService as any, sessionService as any);
+    return { service, prisma, queueService, sessionService };
+  }
+
+  it('selects sessions by the status they report', async () => {
+    const { service, queueService, sessionService } = createService({
+      sessions: [
+        { id: 'sales-1', status: 'open' },
+        { id: 'sales-2', status: 'open' },
+      ],
+      liveStatus: { 'sales-2': 'connecting' },
+    });
+
+    await expect(service.start({ action: 'pause', selector: { status: 'open' } }, principal([]))).resolves.toEqual(
+      expect.objectContaining({ total: 1, sessionIds: ['sales-1'] }),
+    );
+    expect(sessionService.statusFilter).toHaveBeenCalledWith('open');
+    expect(queueService.addSessionBulkJob).toHaveBeenCalledWith(expect.objectContaining({ sessionIds: ['sales-1'] }));
+  });
+
+  it('only reports the results of sessions the key can access', async () => {
+    const { service, queueService } = createService();
+    const results = [
+      { sessionId: 'sales-1', success: true, status: 'paused' },
+      { sessionId: 'support-1', success: false, error: 'offline' },
+    ];
+    queueService.getSessionBulkJob.mockResolvedValue({
+      data: { action: 'pause', sessionIds: ['sales-1', 'support-1'], tenantId: null },
+      returnvalue: bulkProgressOf(2, results),
+      timestamp: Date.now(),
+      getState: jest.fn().mockResolvedValue('completed'),
+    });
+
+    await expect(service.getJob('job-1', principal(['sales-*']))).resolves.toEqual(
+      expect.objectContaining({ total: 1, processed: 1, succeeded: 1, failed: 0, results: [results[0]] }),
+    );
+    await expect(service.getJob('job-1', principal(['billing-*']))).rejects.toBeInstanceOf(NotFoundException);
+    await expect(service.getJob('job-1', principal([]))).resolves.toEqual(expect.objectContaining({ total: 2, results }));
+  });
+});
@@ -0,0 +1,96 @@
+import { BadRequestException, ForbiddenException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import type { Prisma } from '../generated/prisma/client/client.js';
+import { PrismaService } from '../prisma/prisma.service.js';
+import { QueueService } from '../queue/queue.service.js';
+import { canAccessSession, type ApiKeyPrincipal } from '../api-key/api-key-scopes.js';
+import { BulkSessionActionDto } from './dto/session.dto.js';
+import { SessionService } from './session.service.js';
+import { bulkProgressOf, type SessionBulkAction, type SessionBulkProgress } from './session-bulk.js';
+
+/**
+ * Starts bulk session operations and reports on them. The selector is resolved
+ * to session IDs up front, limited to what the API key may access; the work runs
+ * on the session-bulk queue.
+ */
+@Injectable()
+export class SessionBulkService {
+  private readonly logger = new Logger(SessionBulkService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly queueService: QueueService,
+    private readonly sessionService: SessionService,
+  ) {}
+
+  async start(dto: BulkSessionActionDto, apiKey: ApiKeyPrincipal) {
+    const { sessionIds, status, tag, tenantId } = dto.selector;
+    if (!sessionIds?.length && !status && !tag && !tenantId) {
+      throw new BadRequestException('Select sessions by sessionIds, status, tag or tenantId');
+    }
+    if (apiKey.tenantId && tenantId && tenantId !== apiKey.tenantId) {
+      throw new ForbiddenException('Tenant API keys can only act on sessions in their own tenant');
+    }
+
+    const where: Prisma.SessionWhereInput = {};
+    if (sessionIds?.length) where.id = { in: sessionIds };
+    // Matched on the status the session reports, as in the session list
+    if (status) where.AND = [this.sessionService.statusFilter(status)];
+    if (tag) where.tags = { has: tag };
+    const scopedTenantId = apiKey.tenantId ?? tenantId;
+    if (scopedTenantId) where.tenantId = scopedTenantId;
+
+    const sessions = await this.prisma.session.findMany({
+      where,
+      select: { id: true, status: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    const selected = sessions
+      .filter((session) => canAccessSession(apiKey, session.id))
+      .filter((session) => !status || this.sessionService.statusOf(session) === status)
+      .map((session) => session.id);
+    if (selected.length === 0) throw new BadRequestException('No sessions match the selector');
+
+    const action = dto.action as SessionBulkAction;
+    const jobId = await this.queueService.addSessionBulkJob({
+      action,
+      sessionIds: selected,
+      webhookUrl: dto.webhookUrl,
+      tenantId: apiKey.tenantId,
+    });
+
+    this.logger.log(`Queued bulk ${action} job ${jobId} for ${selected.length} session(s)`);
+    return { jobId, action, total: selected.length, sessionIds: selected };
+  }
+
+  async getJob(jobId: string, apiKey: ApiKeyPrincipal) {
+    const job = await this.queueService.getSessionBulkJob(jobId);
+    // Jobs of another tenant, or on none of the key's sessions, look like missing ones
+    const visible = job?.data.sessionIds.filter((sessionId) => canAccessSession(apiKey, sessionId)) ?? [];
+    if (!job || (apiKey.tenantId && job.data.tenantId !== apiKey.tenantId) || visible.length === 0) {
+      throw new NotFoundException(`Bulk job "${jobId}" not found`);
+    }
+
+    const state = await job.getState();
+    let progress: SessionBulkProgress =
+      (job.returnvalue as SessionBulkProgress | null) ??
+      (typeof job.progress === 'object' ? (job.progress as unknown as SessionBulkProgress) : null) ??
+      bulkProgressOf(job.data.sessionIds.length, []);
+    // Keys restricted to some sessions only see how those went
+    if (visible.length < job.data.sessionIds.length) {
+      progress = bulkProgressOf(
+        visible.length,
+        progress.results.filter((result) => canAccessSession(apiKey, result.sessionId)),
+      );
+    }
+
+    return {
+      jobId,
+      action: job.data.action,
+      state,
+      ...progress,
+      error: job.failedReason ?? null,
+      createdAt: new Date(job.timestamp),
+      finishedAt: job.finishedOn ? new Date(job.finishedOn) : null,
+    };
+  }
+}
@@ -0,0 +1,34 @@
+export const SESSION_BULK_ACTIONS = ['reconnect', 'logout', 'delete', 'update-webhook', 'pause'] as const;
+export type SessionBulkAction = (typeof SESSION_BULK_ACTIONS)[number];
+
+export interface SessionBulkParams {
+  // update-webhook only; null falls back to the tenant or global default
+  webhookUrl?: string | null;
+}
+
+export interface SessionBulkJobData extends SessionBulkParams {
+  action: SessionBulkAction;
+  sessionIds: string[];
+  // Tenant of the API key that started the job; other tenants cannot read it
+  tenantId: string | null;
+}
+
+export interface SessionBulkResult {
+  sessionId: string;
+  success: boolean;
+  status?: string;
+  error?: string;
+}
+
+export interface SessionBulkProgress {
+  total: number;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  results: SessionBulkResult[];
+}
+
+export function bulkProgressOf(total: number, results: SessionBulkResult[]): SessionBulkProgress {
+  const succeeded = results.filter((result) => result.success).length;
+  return { total, processed: results.length, succeeded, failed: results.length - succeeded, results };
+}
@@ -14,12 +14,16 @@ jest.mock('./prisma-auth-state', () => ({
   usePrismaAuthState: jest.fn(),
 }));
 
+jest.mock('https-proxy-agent', () => ({ HttpsProxyAgent: jest.fn() }));
+
+jest.mock('socks-proxy-agent', () => ({ SocksProxyAgent: jest.fn() }));
+
 describe('SessionController', () => {
   it('delegates reconnect lifecycle to SessionService', async () => {
     const sessionService = {
       reconnectSession: jest.fn().mockResolvedValue({ sessionId: 'session-1', status: 'connecting' }),
     };
-    const controller = new SessionController(sessionService as any);
+    const controller = new SessionController(sessionService as any, {} as any);
 
     await expect(controller.reconnect('session-1')).resolves.toEqual({
       sessionId: 'session-1',
@@ -3,45 +3,110 @@ import {
   Post,
   Delete,
   Get,
+  Patch,
   Param,
   Body,
   Query,
   HttpCode,
   HttpStatus,
+  ForbiddenException,
+  StreamableFile,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiSecurity, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiSecurity, ApiParam, ApiQuery, ApiProduces } from '@nestjs/swagger';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator.js';
+import { CurrentApiKey } from '../common/decorators/current-api-key.decorator.js';
+import { canAccessSession, type ApiKeyPrincipal } from '../api-key/api-key-scopes.js';
 import { SessionService } from './session.service.js';
-import { CreateSessionDto } from './dto/session.dto.js';
+import { SessionBulkService } from './session-bulk.service.js';
+import {
+  BulkSessionActionDto,
+  CreateSessionDto,
+  GetQrCodeDto,
+  ListSessionEventsDto,
+  ListSessionsDto,
+  RequestPairingCodeDto,
+  UpdateSessionDto,
+} from './dto/session.dto.js';
 
 @ApiTags('Session')
 @ApiSecurity('x-api-key')
+@RequireScopes('sessions:admin')
 @Controller('sessions')
 export class SessionController {
-  constructor(private readonly sessionService: SessionService) {}
+  constructor(
+    private readonly sessionService: SessionService,
+    private readonly sessionBulkService: SessionBulkService,
+  ) {}
 
   @Post()
   @ApiOperation({ summary: 'Create a new WhatsApp session' })
-  async create(@Body() dto: CreateSessionDto) {
+  async create(@Body() dto: CreateSessionDto, @CurrentApiKey() apiKey: ApiKeyPrincipal) {
+    if (apiKey.tenantId && dto.tenantId && dto.tenantId !== apiKey.tenantId) {
+      throw new ForbiddenException('Tenant API keys can only create sessions in their own tenant');
+    }
+
     return this.sessionService.createSession(dto.sessionId, {
       webhookUrl: dto.webhookUrl,
       pairingCode: dto.pairingCode,
       phoneNumber: dto.phoneNumber,
+      tenantId: apiKey.tenantId ?? dto.tenantId,
+      socketOptions: dto.socketOptions,
     });
   }
 
   @Get()
-  @ApiOperation({ summary: 'List all sessions (from database)' })
-  async getAll() {
-    return this.sessionService.getAllSessions();
+  @RequireScopes('read-only')
+  @ApiOperation({ summary: 'List sessions (from database) with filters, cursor pagination and counters' })
+  async getAll(@Query() query: ListSessionsDto, @CurrentApiKey() apiKey: ApiKeyPrincipal) {
+    return this.sessionService.listSessions(query, apiKey);
+  }
+
+  @Post('bulk')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Reconnect, logout, delete, pause or re-point the webhook of many sessions' })
+  async bulk(@Body() dto: BulkSessionActionDto, @CurrentApiKey() apiKey: ApiKeyPrincipal) {
+    return this.sessionBulkService.start(dto, apiKey);
+  }
+
+  @Get('bulk/:jobId')
+  @ApiOperation({ summary: 'Progress and per-session results of a bulk operation' })
+  @ApiParam({ name: 'jobId', description: 'Job ID returned when the operation was started' })
+  async getBulkJob(@Param('jobId') jobId: string, @CurrentApiKey() apiKey: ApiKeyPrincipal) {
+    return this.sessionBulkService.getJob(jobId, apiKey);
+  }
+
+  @Get('wa-version')
+  @ApiOperation({ summary: 'WhatsApp Web version in use, per session' })
+  async getWaVersions(@CurrentApiKey() apiKey: ApiKeyPrincipal) {
+    const versions = await this.sessionService.getWaVersions(apiKey.tenantId);
+    return {
+      ...versions,
+      sessions: versions.sessions.filter((session) => canAccessSession(apiKey, session.sessionId)),
+    };
+  }
+
+  @Post('wa-version/refresh')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Fetch the latest WhatsApp Web version again (applies on the next connect)' })
+  async refreshWaVersion() {
+    return this.sessionService.refreshWaVersion();
   }
 
   @Get(':sessionId')
+  @RequireScopes('read-only')
   @ApiOperation({ summary: 'Get session status' })
   @ApiParam({ name: 'sessionId', description: 'Session ID' })
   async getStatus(@Param('sessionId') sessionId: string) {
     return this.sessionService.getStatus(sessionId);
   }
 
+  @Patch(':sessionId')
+  @ApiOperation({ summary: 'Update session settings without reconnecting' })
+  @ApiParam({ name: 'sessionId', description: 'Session ID' })
+  async update(@Param('sessionId') sessionId: string, @Body() dto: UpdateSessionDto) {
+    return this.sessionService.updateSession(sessionId, dto);
+  }
+
   @Delete(':sessionId')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Delete a session and remove all data' })
@@ -50,6 +115,22 @@ export class SessionController {
     return this.sessionService.deleteSession(sessionId);
   }
 
+  @Get(':sessionId/qr')
+  @ApiOperation({ summary: 'Get the current QR code as an image or terminal text' })
+  @ApiParam({ name: 'sessionId', description: 'Session ID' })
+  @ApiProduces('image/png', 'image/svg+xml', 'text/plain')
+  async getQr(@Param('sessionId') sessionId: string, @Query() query: GetQrCodeDto) {
+    const { data, contentType } = await this.sessionService.getQrCode(sessionId, query.format, (query.wait ?? 0) * 1000);
+    return new StreamableFile(data, { type: contentType });
+  }
+
+  @Post(':sessionId/pairing-code')
+  @ApiOperation({ summary: 'Request a new pairing code for a session that is not linked yet' })
+  @ApiParam({ name: 'sessionId', description: 'Session ID' })
+  async requestPairingCode(@Param('sessionId') sessionId: string, @Body() dto: RequestPairingCodeDto) {
+    return this.sessionService.requestPairingCode(sessionId, dto.phoneNumber);
+  }
+
   @Post(':sessionId/logout')
   @ApiOperation({ summary: 'Logout from WhatsApp and delete session' })
   @ApiParam({ name: 'sessionId', description: 'Session ID' })
@@ -57,6 +138,13 @@ export class SessionController {
     return this.sessionService.logoutSession(sessionId);
   }
 
+  @Post(':sessionId/pause')
+  @ApiOperation({ summary: 'Close the connection without logging out; stays closed until reconnected' })
+  @ApiParam({ name: 'sessionId', description: 'Session ID' })
+  async pause(@Param('sessionId') sessionId: string) {
+    return this.sessionService.pauseSession(sessionId);
+  }
+
   @Post(':sessionId/reconnect')
   @ApiOperation({ summary: 'Force reconnect a session from stored auth state' })
   @ApiParam({ name: 'sessionId', description: 'Session ID' })
@@ -66,7 +154,16 @@ export class SessionController {
 
   // === Data Access Endpoints ===
 
+  @Get(':sessionId/events')
+  @RequireScopes('read-only')
+  @ApiOperation({ summary: 'Connection state history (transitions with disconnect reasons)' })
+  @ApiParam({ name: 'sessionId', description: 'Session ID' })
+  async getEvents(@Param('sessionId') sessionId: string, @Query() query: ListSessionEventsDto) {
+    return this.sessionService.getSessionEvents(sessionId, query);
+  }
+
   @Get(':sessionId/messages/:jid')
+  @RequireScopes('read-only')
   @ApiOperation({ summary: 'Get message history for a chat (from database)' })
   @ApiParam({ name: 'sessionId', description: 'Session ID' })
   @ApiParam({ name: 'jid', description: 'Chat JID' })
@@ -82,6 +179,7 @@ export class SessionController {
   }
 
   @Get(':sessionId/contacts')
+  @RequireScopes('read-only')
   @ApiOperation({ summary: 'Get stored contacts (from database)' })
   @ApiParam({ name: 'sessionId', description: 'Session ID' })
   @ApiQuery({ name: 'search', required: false, type: String, description: 'Search by name or JID' })
@@ -97,6 +195,7 @@ export class SessionController {
   }
 
   @Get(':sessionId/chats')
+  @RequireScopes('read-only')
   @ApiOperation({ summary: 'Get stored chats (from database)' })
   @ApiParam({ name: 'sessionId', description: 'Session ID' })
   @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Limit (default: 50)' })
@@ -108,17 +207,4 @@ export class SessionController {
   ) {
     return this.sessionService.getChats(sessionId, limit || 50, offset || 0);
   }
-
-  @Get(':sessionId/webhooks/logs')
-  @ApiOperation({ summary: 'Get webhook delivery logs (from database)' })
-  @ApiParam({ name: 'sessionId', description: 'Session ID' })
-  @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Limit (default: 50)' })
-  @ApiQuery({ name: 'offset', required: false, type: Number, description: 'Offset (default: 0)' })
-  async getWebhookLogs(
-    @Param('sessionId') sessionId: string,
-    @Query('limit') limit?: number,
-    @Query('offset') offset?: number,
-  ) {
-    return this.sessionService.getWebhookLogs(sessionId, limit || 50, offset || 0);
-  }
 }
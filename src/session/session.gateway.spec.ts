@@ -0,0 +1,171 @@
+import { WsException } from '@nestjs/websockets';
+import { SessionGateway } from './session.gateway';
+
+describe('SessionGateway', () => {
+  const gateways: SessionGateway[] = [];
+
+  afterEach(() => {
+    for (const gateway of gateways.splice(0)) gateway.onModuleDestroy();
+  });
+
+  function createSocket(overrides: { auth?: Record<string, unknown>; headers?: Record<string, string> } = {}) {
+    return {
+      id: 'socket-1',
+      handshake: { auth: overrides.auth ?? {}, headers: overrides.headers ?? {} },
+      data: {} as Record<string, any>,
+      join: jest.fn(),
+      leave: jest.fn(),
+      emit: jest.fn(),
+    };
+  }
+
+  function createGateway(options: { principal?: Record<string, unknown>; error?: Error; sessionTenant?: string | null }) {
+    const apiKeyService = {
+      resolvePrincipal: options.error
+        ? jest.fn().mockRejectedValue(options.error)
+        : jest.fn().mockResolvedValue(options.principal),
+    };
+    const tenantService = {
+      getSessionTenant: jest.fn().mockResolvedValue(options.sessionTenant),
+    };
+    const channelHandlers = new Map<string, (payload: unknown) => void>();
+    const clusterService = {
+      publish: jest.fn().mockResolvedValue(undefined),
+      subscribe: jest.fn((channel: string, handler: (payload: unknown) => void) => channelHandlers.set(channel, handler)),
+    };
+    const gateway = new SessionGateway(apiKeyService as never, tenantService as never, clusterService as never);
+    gateways.push(gateway);
+
+    let middleware: (socket: unknown, next: (err?: Error) => void) => void = () => undefined;
+    const sockets: ReturnType<typeof createSocket>[] = [];
+    const server = {
+      use: jest.fn((fn: typeof middleware) => (middleware = fn)),
+      in: jest.fn(() => ({ fetchSockets: jest.fn().mockResolvedValue(sockets) })),
+      adapter: { rooms: new Map<string, Set<string>>() },
+    };
+    gateway.server = server as never;
+    gateway.afterInit(server as never);
+
+    const handshake = (socket: ReturnType<typeof createSocket>) =>
+      new Promise<Error | undefined>((resolve) => middleware(socket, resolve));
+
+    return { gateway, apiKeyService, tenantService, clusterService, channelHandlers, server, sockets, handshake };
+  }
+
+  const readKey = {
+    id: 'key-1',
+    tenantId: null,
+    name: 'dashboard',
+    scopes: ['read-only'],
+    sessionIds: ['crm-*'],
+  };
+
+  it('rejects handshakes the API key service refuses', async () => {
+    const { handshake } = createGateway({ error: new Error('Invalid API key') });
+
+    const err = await handshake(createSocket({ auth: { apiKey: 'bad' } }));
+
+    expect(err?.message).toBe('Invalid API key');
+  });
+
+  it('rejects keys without read-only scope and reads the key from the header', async () => {
+    const { handshake, apiKeyService } = createGateway({ principal: { ...readKey, scopes: ['messages:send'] } });
+
+    const err = await handshake(createSocket({ headers: { 'x-api-key': 'bsk_header' } }));
+
+    expect(apiKeyService.resolvePrincipal).toHaveBeenCalledWith('bsk_header');
+    expect(err?.message).toBe('API key requires scope: read-only');
+  });
+
+  it('only lets clients subscribe to sessions their key can access', async () => {
+    const { gateway, handshake } = createGateway({ principal: readKey });
+    const socket = createSocket({ auth: { apiKey: 'bsk_good' } });
+    await expect(handshake(socket)).resolves.toBeUndefined();
+
+    await expect(gateway.handleSubscribe(socket as never, { sessionId: 'billing' })).rejects.toThrow(WsException);
+    await expect(gateway.handleSubscribe(socket as never, { sessionId: 'crm-1', events: ['messages.*'] })).resolves.toEqual({
+      sessionId: 'crm-1',
+      events: ['messages.*'],
+    });
+    expect(socket.join).toHaveBeenCalledWith('session:crm-1');
+  });
+
+  it('hides sessions of other tenants from tenant keys', async () => {
+    const { gateway, handshake } = createGateway({
+      principal: { ...readKey, tenantId: 'tenant-a', sessionIds: [] },
+      sessionTenant: 'tenant-b',
+    });
+    const socket = createSocket({ auth: { apiKey: 'bsk_tenant' } });
+    await handshake(socket);
+
+    await expect(gateway.handleSubscribe(socket as never, { sessionId: 'crm-1' })).rejects.toThrow(
+      'Session "crm-1" not found',
+    );
+    expect(socket.join).not.toHaveBeenCalled();
+  });
+
+  it('emits only to the session room, honouring each client filter', async () => {
+    const { gateway, handshake, server, sockets } = createGateway({ principal: readKey });
+    const all = createSocket({ auth: { apiKey: 'bsk_good' } });
+    const messagesOnly = createSocket({ auth: { apiKey: 'bsk_good' } });
+    await handshake(all);
+    await handshake(messagesOnly);
+    await gateway.handleSubscribe(all as never, { sessionId: 'crm-1' });
+    await gateway.handleSubscribe(messagesOnly as never, { sessionId: 'crm-1', events: ['messages.*'] });
+    sockets.push(all, messagesOnly);
+
+    await gateway.handleBaileysEvent({ sessionId: 'crm-1', event: 'presence.update', data: {} });
+    await gateway.handleQr({ sessionId: 'crm-1', qr: 'data:image/png;base64,' });
+    await gateway.handleBaileysEvent({ sessionId: 'crm-1', event: 'messages.upsert', data: {} });
+
+    expect(server.in).toHaveBeenCalledWith('session:crm-1');
+    expect(all.emit).toHaveBeenCalledTimes(3);
+    expect(messagesOnly.emit).toHaveBeenCalledTimes(1);
+    expect(messagesOnly.emit).toHaveBeenCalledWith('baileys-event', expect.objectContaining({ event: 'messages.upsert' }));
+  });
+
+  it('relays events only while clients of other replicas are subscribed to the session', async () => {
+    const { gateway, clusterService, channelHandlers } = createGateway({ principal: readKey });
+    const connected = { sessionId: 'crm-1', user: { id: '1@s.whatsapp.net' } };
+
+    await gateway.handleConnected(connected);
+    expect(clusterService.publish).not.toHaveBeenCalledWith('ws-events', expect.anything());
+
+    channelHandlers.get('ws-watch')!({ sessionIds: ['crm-1'] });
+    await gateway.handleConnected(connected);
+    expect(clusterService.publish).toHaveBeenCalledWith('ws-events', {
+      sessionId: 'crm-1',
+      event: 'connected',
+      payload: connected,
+      filterName: 'connected',
+    });
+
+    clusterService.publish.mockClear();
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now + 60_000);
+    await gateway.handleConnected(connected);
+    clock.mockRestore();
+    expect(clusterService.publish).not.toHaveBeenCalledWith('ws-events', expect.anything());
+  });
+
+  it('announces subscribed sessions to other replicas and emits events relayed by them', async () => {
+    const { gateway, handshake, clusterService, channelHandlers, server, sockets } = createGateway({ principal: readKey });
+    const client = createSocket({ auth: { apiKey: 'bsk_good' } });
+    await handshake(client);
+    await gateway.handleSubscribe(client as never, { sessionId: 'crm-1', events: ['messages.*'] });
+    sockets.push(client);
+    expect(clusterService.publish).toHaveBeenCalledWith('ws-watch', { sessionIds: ['crm-1'] });
+
+    clusterService.publish.mockClear();
+    server.adapter.rooms.set('session:crm-1', new Set([client.id]));
+    channelHandlers.get('ws-watch-sync')!({});
+    expect(clusterService.publish).toHaveBeenCalledWith('ws-watch', { sessionIds: ['crm-1'] });
+
+    const relayed = { sessionId: 'crm-1', event: 'messages.upsert', data: {} };
+    channelHandlers.get('ws-events')!({ sessionId: 'crm-1', event: 'baileys-event', payload: relayed, filterName: 'messages.upsert' });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(client.emit).toHaveBeenCalledTimes(1);
+    expect(client.emit).toHaveBeenCalledWith('baileys-event', relayed);
+  });
+});
@@ -1,54 +1,261 @@
 import {
   WebSocketGateway,
   WebSocketServer,
+  OnGatewayInit,
   OnGatewayConnection,
   OnGatewayDisconnect,
+  SubscribeMessage,
+  ConnectedSocket,
+  MessageBody,
+  WsException,
 } from '@nestjs/websockets';
-import { Logger } from '@nestjs/common';
+import { Logger, OnModuleDestroy } from '@nestjs/common';
 import { OnEvent } from '@nestjs/event-emitter';
-import { Server, Socket } from 'socket.io';
+import { SkipThrottle } from '@nestjs/throttler';
+import { Namespace, Socket } from 'socket.io';
+import { ApiKeyService } from '../api-key/api-key.service.js';
+import { TenantService } from '../tenant/tenant.service.js';
+import { ClusterService } from '../cluster/cluster.service.js';
+import { Public } from '../common/decorators/public.decorator.js';
+import { canAccessSession, hasRequiredScope, type ApiKeyPrincipal } from '../api-key/api-key-scopes.js';
+import { matchesEventFilter } from '../webhook/webhook-event-filter.js';
 
+interface ClientData {
+  apiKey: ApiKeyPrincipal;
+  // Event filter per subscribed session; an empty filter receives every event
+  subscriptions: Record<string, string[]>;
+}
+
+// Events of sessions owned by this instance, relayed to clients connected to other replicas
+interface RelayedEvent {
+  sessionId: string;
+  event: string;
+  payload: unknown;
+  filterName: string;
+}
+
+const RELAY_CHANNEL = 'ws-events';
+
+// Replicas announce the sessions their clients subscribe to, so the owner relays only
+// events someone elsewhere is waiting for. Announcements are repeated while clients stay
+// subscribed and forgotten once they stop; a starting replica asks the others to repeat theirs.
+interface WatchAnnouncement {
+  sessionIds: string[];
+}
+
+const WATCH_CHANNEL = 'ws-watch';
+const WATCH_SYNC_CHANNEL = 'ws-watch-sync';
+const WATCH_ANNOUNCE_INTERVAL_MS = 15_000;
+const WATCH_EXPIRY_MS = WATCH_ANNOUNCE_INTERVAL_MS * 3;
+const ROOM_PREFIX = 'session:';
+
+interface SubscribePayload {
+  sessionId?: unknown;
+  events?: unknown;
+}
+
+function sessionRoom(sessionId: string): string {
+  return `${ROOM_PREFIX}${sessionId}`;
+}
+
+// Clients authenticate once during the handshake, so the global HTTP guards skip message handlers
+@Public()
+@SkipThrottle()
 @WebSocketGateway({
   cors: { origin: '*' },
   namespace: '/ws',
 })
-export class SessionGateway implements OnGatewayConnection, OnGatewayDisconnect {
+export class SessionGateway implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect, OnModuleDestroy {
   private readonly logger = new Logger(SessionGateway.name);
+  // Sessions with subscribers on other replicas, until when the last announcement holds
+  private readonly remoteWatchers = new Map<string, number>();
+  private announceTimer?: NodeJS.Timeout;
 
   @WebSocketServer()
-  server!: Server;
+  server!: Namespace;
+
+  constructor(
+    private readonly apiKeyService: ApiKeyService,
+    private readonly tenantService: TenantService,
+    private readonly clusterService: ClusterService,
+  ) {}
+
+  afterInit(server: Namespace) {
+    // Authenticate during the handshake; rejected clients receive a connect_error with the reason
+    server.use((socket, next) => {
+      this.authenticate(socket)
+        .then((apiKey) => {
+          socket.data = { apiKey, subscriptions: {} } satisfies ClientData;
+          next();
+        })
+        .catch((err: unknown) => next(err instanceof Error ? err : new Error('Unauthorized')));
+    });
+
+    this.clusterService.subscribe<RelayedEvent>(RELAY_CHANNEL, ({ sessionId, event, payload, filterName }) => {
+      this.emitToSession(sessionId, event, payload, filterName).catch((err) =>
+        this.logger.error(`Failed to emit relayed ${event} for ${sessionId}: ${err}`),
+      );
+    });
+
+    this.clusterService.subscribe<WatchAnnouncement>(WATCH_CHANNEL, ({ sessionIds }) => {
+      const expiresAt = Date.now() + WATCH_EXPIRY_MS;
+      for (const sessionId of sessionIds) this.remoteWatchers.set(sessionId, expiresAt);
+    });
+    this.clusterService.subscribe(WATCH_SYNC_CHANNEL, () => this.announce(this.watchedSessions()));
+    this.clusterService
+      .publish(WATCH_SYNC_CHANNEL, {})
+      .catch((err) => this.logger.error(`Failed to request WebSocket subscriptions of other instances: ${err}`));
+    this.announceTimer = setInterval(() => this.announce(this.watchedSessions()), WATCH_ANNOUNCE_INTERVAL_MS);
+  }
+
+  onModuleDestroy() {
+    if (this.announceTimer) clearInterval(this.announceTimer);
+  }
 
   handleConnection(client: Socket) {
-    this.logger.log(`Client connected: ${client.id}`);
+    this.logger.log(`Client connected: ${client.id} (${(client.data as ClientData).apiKey.name})`);
   }
 
   handleDisconnect(client: Socket) {
     this.logger.log(`Client disconnected: ${client.id}`);
   }
 
+  @SubscribeMessage('subscribe')
+  async handleSubscribe(@ConnectedSocket() client: Socket, @MessageBody() payload: SubscribePayload) {
+    const sessionId = payload?.sessionId;
+    if (typeof sessionId !== 'string' || !sessionId) throw new WsException('sessionId is required');
+    const events = Array.isArray(payload.events)
+      ? payload.events.filter((event): event is string => typeof event === 'string')
+      : [];
+
+    const data = client.data as ClientData;
+    await this.assertSessionAccess(data.apiKey, sessionId);
+
+    data.subscriptions[sessionId] = events;
+    await client.join(sessionRoom(sessionId));
+    this.announce([sessionId]);
+    return { sessionId, events };
+  }
+
+  @SubscribeMessage('unsubscribe')
+  async handleUnsubscribe(@ConnectedSocket() client: Socket, @MessageBody() payload: SubscribePayload) {
+    const sessionId = payload?.sessionId;
+    if (typeof sessionId !== 'string' || !sessionId) throw new WsException('sessionId is required');
+
+    delete (client.data as ClientData).subscriptions[sessionId];
+    await client.leave(sessionRoom(sessionId));
+    return { sessionId };
+  }
+
   @OnEvent('session.qr')
   handleQr(payload: { sessionId: string; qr: string }) {
-    this.server.emit('qr', payload);
+    return this.broadcast(payload.sessionId, 'qr', payload);
   }
 
   @OnEvent('session.pairing-code')
   handlePairingCode(payload: { sessionId: string; pairingCode: string }) {
-    this.server.emit('pairing-code', payload);
+    return this.broadcast(payload.sessionId, 'pairing-code', payload);
   }
 
   @OnEvent('session.connected')
   handleConnected(payload: { sessionId: string; user: unknown }) {
-    this.server.emit('connected', payload);
+    return this.broadcast(payload.sessionId, 'connected', payload);
   }
 
   @OnEvent('session.logged-out')
   handleLoggedOut(payload: { sessionId: string }) {
-    this.server.emit('logged-out', payload);
+    return this.broadcast(payload.sessionId, 'logged-out', payload);
+  }
+
+  @OnEvent('session.gave-up')
+  handleGaveUp(payload: { sessionId: string; attempts: number; action: string }) {
+    return this.broadcast(payload.sessionId, 'gave-up', payload);
+  }
+
+  @OnEvent('webhook.disabled')
+  handleWebhookDisabled(payload: { sessionId: string; url: string }) {
+    return this.broadcast(payload.sessionId, 'webhook.disabled', payload);
+  }
+
+  @OnEvent('webhook.recovered')
+  handleWebhookRecovered(payload: { sessionId: string; url: string }) {
+    return this.broadcast(payload.sessionId, 'webhook.recovered', payload);
   }
 
   @OnEvent('baileys.*')
-  handleBaileysEvent(payload: { sessionId: string; data: unknown }) {
-    // Forward all baileys events via WebSocket
-    this.server.emit('baileys-event', payload);
+  handleBaileysEvent(payload: { sessionId: string; event: string; data: unknown }) {
+    // Forward all baileys events via WebSocket; filters match the Baileys event name
+    return this.broadcast(payload.sessionId, 'baileys-event', payload, payload.event);
+  }
+
+  private async authenticate(socket: Socket): Promise<ApiKeyPrincipal> {
+    const auth = socket.handshake.auth as { apiKey?: unknown } | undefined;
+    const header = socket.handshake.headers['x-api-key'];
+    const key = typeof auth?.apiKey === 'string' ? auth.apiKey : typeof header === 'string' ? header : undefined;
+
+    const apiKey = await this.apiKeyService.resolvePrincipal(key);
+    if (!hasRequiredScope(apiKey, ['read-only'])) {
+      throw new Error('API key requires scope: read-only');
+    }
+    return apiKey;
+  }
+
+  /**
+   * Same rules as HTTP routes: session patterns of the key, and tenant keys only
+   * see existing sessions of their own tenant.
+   */
+  private async assertSessionAccess(apiKey: ApiKeyPrincipal, sessionId: string) {
+    if (!canAccessSession(apiKey, sessionId)) {
+      throw new WsException(`API key cannot access session "${sessionId}"`);
+    }
+    if (apiKey.tenantId) {
+      const owner = await this.tenantService.getSessionTenant(sessionId);
+      if (owner !== apiKey.tenantId) throw new WsException(`Session "${sessionId}" not found`);
+    }
+  }
+
+  /**
+   * Emit to local subscribers, and relay to the other replicas when clients connected
+   * to one of them are subscribed to the same session.
+   */
+  private async broadcast(sessionId: string, event: string, payload: unknown, filterName = event) {
+    if (this.isWatchedRemotely(sessionId)) {
+      this.clusterService
+        .publish<RelayedEvent>(RELAY_CHANNEL, { sessionId, event, payload, filterName })
+        .catch((err) => this.logger.error(`Failed to relay ${event} for ${sessionId}: ${err}`));
+    }
+    await this.emitToSession(sessionId, event, payload, filterName);
+  }
+
+  private isWatchedRemotely(sessionId: string): boolean {
+    const expiresAt = this.remoteWatchers.get(sessionId);
+    if (expiresAt === undefined) return false;
+    if (expiresAt > Date.now()) return true;
+    this.remoteWatchers.delete(sessionId);
+    return false;
+  }
+
+  // Sessions that clients connected to this instance are subscribed to
+  private watchedSessions(): string[] {
+    const sessionIds: string[] = [];
+    for (const [room, sockets] of this.server.adapter.rooms) {
+      if (room.startsWith(ROOM_PREFIX) && sockets.size > 0) sessionIds.push(room.slice(ROOM_PREFIX.length));
+    }
+    return sessionIds;
+  }
+
+  private announce(sessionIds: string[]) {
+    if (sessionIds.length === 0) return;
+    this.clusterService
+      .publish<WatchAnnouncement>(WATCH_CHANNEL, { sessionIds })
+      .catch((err) => this.logger.error(`Failed to announce WebSocket subscriptions: ${err}`));
+  }
+
+  private async emitToSession(sessionId: string, event: string, payload: unknown, filterName = event) {
+    const sockets = await this.server.in(sessionRoom(sessionId)).fetchSockets();
+    for (const socket of sockets) {
+      const filter = (socket.data as ClientData).subscriptions?.[sessionId] ?? [];
+      if (matchesEventFilter(filter, filterName)) socket.emit(event, payload);
+    }
   }
 }
@@ -2,11 +2,20 @@ import { Global, Module } from '@nestjs/common';
 import { SessionService } from './session.service.js';
 import { SessionController } from './session.controller.js';
 import { SessionGateway } from './session.gateway.js';
+import { AuthStateCipher } from './auth-state-cipher.js';
+import { AuthStateService } from './auth-state.service.js';
+import { AuthStateController } from './auth-state.controller.js';
+import { WaVersionService } from './wa-version.service.js';
+import { SessionBulkService } from './session-bulk.service.js';
+import { WebhookModule } from '../webhook/webhook.module.js';
+import { ApiKeyModule } from '../api-key/api-key.module.js';
+import { TenantModule } from '../tenant/tenant.module.js';
 
 @Global()
 @Module({
-  providers: [SessionService, SessionGateway],
-  controllers: [SessionController],
+  imports: [WebhookModule, ApiKeyModule, TenantModule],
+  providers: [SessionService, SessionGateway, AuthStateCipher, AuthStateService, WaVersionService, SessionBulkService],
+  controllers: [SessionController, AuthStateController],
   exports: [SessionService],
 })
 export class SessionModule {}
@@ -6,34 +6,89 @@ import {
   NotFoundException,
   ConflictException,
   BadRequestException,
+  ForbiddenException,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { EventEmitter2 } from '@nestjs/event-emitter';
+import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
 import makeWASocket, {
   DisconnectReason,
-  fetchLatestBaileysVersion,
   type WASocket,
   type ConnectionState,
   type BaileysEventMap,
   type WAMessage,
+  type SocketConfig,
   Browsers,
 } from '@whiskeysockets/baileys';
 import * as QRCode from 'qrcode';
 import pino from 'pino';
-import type { Prisma } from '../generated/prisma/client/client.js';
+import type { Prisma, Session } from '../generated/prisma/client/client.js';
 import { PrismaService } from '../prisma/prisma.service.js';
 import { QueueService } from '../queue/queue.service.js';
+import { WebhookService } from '../webhook/webhook.service.js';
 import { usePrismaAuthState } from './prisma-auth-state.js';
+import { AuthStateCipher } from './auth-state-cipher.js';
+import { ClusterService } from '../cluster/cluster.service.js';
+import { canAccessSession, type ApiKeyPrincipal } from '../api-key/api-key-scopes.js';
+import {
+  ListSessionEventsDto,
+  ListSessionsDto,
+  type QrFormat,
+  SessionSocketOptionsDto,
+  UpdateSessionDto,
+} from './dto/session.dto.js';
+import { canRetry, reconnectDelay, reconnectPolicyOf, type ReconnectPolicy } from './reconnect-policy.js';
+import {
+  browserPlatformOf,
+  createProxyAgents,
+  DEFAULT_BROWSER_NAME,
+  formatWaVersion,
+  redactProxyUrl,
+} from './socket-options.js';
+import { WaVersionService, type ResolvedWaVersion } from './wa-version.service.js';
+import type { SessionBulkAction, SessionBulkParams } from './session-bulk.js';
+
+// Cluster method running a bulk action on the instance that owns the session
+const SESSION_ACTION_METHOD = 'session-action';
+
+type SessionOptions = {
+  webhookUrl?: string;
+  pairingCode?: boolean;
+  phoneNumber?: string;
+  tenantId?: string;
+  // Stored on the session, so reconnects reuse them
+  socketOptions?: SessionSocketOptionsDto;
+  // Set when the socket replaces one that dropped, so attempts add up until the session is back
+  reconnectAttempt?: number;
+};
+
+interface SessionTransition {
+  status: string;
+  prevStatus?: string;
+  reasonCode?: number;
+  message?: string;
+  attempt?: number;
+  delayMs?: number;
+}
 
 interface SessionData {
   socket: WASocket;
   status: 'connecting' | 'open' | 'close';
+  // Data URL, as sent in events; `rawQr` is the content it encodes
   qr?: string;
+  rawQr?: string;
   pairingCode?: string;
+  // Link with a pairing code for `phoneNumber` instead of a QR code
+  usePairingCode: boolean;
+  phoneNumber?: string;
   webhookUrl?: string;
   user?: Record<string, unknown>;
   retryCount: number;
+  autoReconnect: boolean;
+  reconnectPolicy: ReconnectPolicy;
+  waVersion: ResolvedWaVersion;
   saveCreds: () => Promise<void>;
+  flushKeys: () => Promise<void>;
+  disposeKeys: () => void;
 }
 
 @Injectable()
@@ -41,68 +96,124 @@ export class SessionService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(SessionService.name);
   private readonly sessions = new Map<string, SessionData>();
   private readonly reconnectTimers = new Map<string, NodeJS.Timeout>();
+  private takeoverTimer?: NodeJS.Timeout;
+  private claiming = false;
 
   constructor(
     private readonly configService: ConfigService,
     private readonly eventEmitter: EventEmitter2,
     private readonly prisma: PrismaService,
     private readonly queueService: QueueService,
+    private readonly webhookService: WebhookService,
+    private readonly authStateCipher: AuthStateCipher,
+    private readonly clusterService: ClusterService,
+    private readonly waVersionService: WaVersionService,
   ) { }
 
   async onModuleInit() {
+    this.clusterService.handle(
+      SESSION_ACTION_METHOD,
+      ({ sessionId, action, params }: { sessionId: string; action: SessionBulkAction; params: SessionBulkParams }) =>
+        this.applySessionAction(sessionId, action, params),
+    );
+
     // Schedule the daily message cleanup
     await this.queueService.scheduleMessageCleanup();
 
     // Auto-reconnect sessions that were open before shutdown
     await this.autoReconnectSessions();
+
+    // Take over sessions of replicas that stopped renewing their leases
+    this.takeoverTimer = setInterval(() => {
+      this.autoReconnectSessions().catch((err) => this.logger.error(`Session takeover failed: ${err}`));
+    }, this.clusterService.leaseTtlMs);
   }
 
   async onModuleDestroy() {
+    if (this.takeoverTimer) clearInterval(this.takeoverTimer);
     this.clearAllReconnectTimers();
 
-    for (const [id, session] of this.sessions) {
+    // The DB status stays 'open', so another replica (or this one after a restart)
+    // reconnects the sessions once their leases are released
+    const sessions = [...this.sessions];
+    this.sessions.clear();
+    for (const [id, session] of sessions) {
       try {
         session.socket.end(undefined);
       } catch {
         // Socket may already be closed
       }
-      // Update DB status to 'close' for graceful shutdown
-      await this.prisma.session.update({
-        where: { id },
-        data: { status: 'close' },
-      }).catch(() => { });
+      await session.flushKeys().catch((err) => this.logger.error(`Failed to flush auth keys for ${id}: ${err}`));
+      await this.releaseLease(id);
     }
-    this.sessions.clear();
   }
 
   /**
-   * Auto-reconnect sessions that were connected before server restart.
+   * Reconnect sessions that were connected, connecting or waiting for a reconnect
+   * attempt but have no live owner: on boot, and periodically afterwards, so sessions
+   * of a replica that died are taken over once its leases expire. Sessions leased by
+   * another instance are skipped.
    */
   private async autoReconnectSessions() {
-    const sessionsToReconnect = await this.prisma.session.findMany({
-      where: { status: 'open' },
-    });
+    if (this.claiming) return;
+    this.claiming = true;
+    try {
+      // A retry in progress is stored as closed with a retry count; giving up resets it
+      const sessionsToReconnect = await this.prisma.session.findMany({
+        where: {
+          OR: [
+            { status: 'open' },
+            { status: 'connecting', autoReconnect: true },
+            { status: 'close', autoReconnect: true, retryCount: { gt: 0 } },
+          ],
+        },
+      });
 
-    if (sessionsToReconnect.length === 0) {
-      this.logger.log('No sessions to auto-reconnect');
-      return;
+      let reconnected = 0;
+      for (const dbSession of sessionsToReconnect) {
+        if (this.sessions.has(dbSession.id) || this.reconnectTimers.has(dbSession.id)) continue;
+        if (!(await this.clusterService.acquireLease(dbSession.id))) continue;
+
+        try {
+          await this.createSession(dbSession.id, {
+            webhookUrl: dbSession.webhookUrl ?? undefined,
+            reconnectAttempt: dbSession.retryCount || undefined,
+          });
+          reconnected++;
+          this.logger.log(`Auto-reconnected session "${dbSession.id}"`);
+        } catch (err) {
+          this.logger.error(`Failed to auto-reconnect session "${dbSession.id}": ${err}`);
+          await this.prisma.session.update({
+            where: { id: dbSession.id },
+            data: { status: 'close' },
+          }).catch(() => { });
+        }
+      }
+
+      if (reconnected > 0) this.logger.log(`Auto-reconnected ${reconnected} session(s)`);
+    } finally {
+      this.claiming = false;
     }
+  }
 
-    this.logger.log(`Auto-reconnecting ${sessionsToReconnect.length} session(s)...`);
+  /**
+   * Another instance owns the session now (this one failed to renew the lease in
+   * time): drop the local socket without touching the session's state in the DB.
+   */
+  @OnEvent('cluster.lease-lost')
+  handleLeaseLost({ sessionId }: { sessionId: string }) {
+    this.clearReconnectTimer(sessionId);
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
 
-    for (const dbSession of sessionsToReconnect) {
-      try {
-        await this.createSession(dbSession.id, {
-          webhookUrl: dbSession.webhookUrl ?? undefined,
-        });
-        this.logger.log(`Auto-reconnected session "${dbSession.id}"`);
-      } catch (err) {
-        this.logger.error(`Failed to auto-reconnect session "${dbSession.id}": ${err}`);
-        await this.prisma.session.update({
-          where: { id: dbSession.id },
-          data: { status: 'close' },
-        }).catch(() => { });
-      }
+    this.logger.warn(`Session "${sessionId}" is owned by another instance, closing the local socket`);
+    this.sessions.delete(sessionId);
+    // Pending key writes are older than what the new owner writes
+    session.disposeKeys();
+    try {
+      session.socket.end(undefined);
+    } catch {
+      // Socket may already be closed
     }
   }
 
@@ -123,53 +234,104 @@ export class SessionService implements OnModuleInit, OnModuleDestroy {
     return this.sessions.has(sessionId);
   }
 
-  async createSession(
-    sessionId: string,
-    options: { webhookUrl?: string; pairingCode?: boolean; phoneNumber?: string } = {},
-  ) {
+  /**
+   * Whether a socket runs for the session on this or another instance.
+   */
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    return this.sessions.has(sessionId) || (await this.clusterService.getLeaseOwner(sessionId)) !== null;
+  }
+
+  /**
+   * Write the auth key updates the session's socket still buffers. Requests for a
+   * session are routed to its owner, so a running socket is found here.
+   */
+  async flushSessionKeys(sessionId: string): Promise<void> {
+    await this.sessions.get(sessionId)?.flushKeys();
+  }
+
+  async createSession(sessionId: string, options: SessionOptions = {}) {
     this.clearReconnectTimer(sessionId);
 
     if (this.sessions.has(sessionId)) {
       throw new ConflictException(`Session "${sessionId}" already exists`);
     }
+    if (!(await this.clusterService.acquireLease(sessionId))) {
+      throw new ConflictException(`Session "${sessionId}" is connected on another instance`);
+    }
+
+    try {
+      return await this.connectSession(sessionId, options);
+    } catch (err) {
+      // Without a socket the lease would only keep other replicas from taking over
+      if (!this.sessions.has(sessionId)) await this.releaseLease(sessionId);
+      throw err;
+    }
+  }
+
+  private async connectSession(sessionId: string, options: SessionOptions) {
+    const { tenant, webhookUrl: storedWebhookUrl } = await this.resolveSessionTenant(sessionId, options.tenantId);
+
+    // An explicit URL wins over the one stored for the session (set at creation or via PATCH)
+    const webhookUrl = options.webhookUrl || storedWebhookUrl || this.defaultWebhookUrl(tenant);
+
+    const socketOptions = this.socketOptionsData(options.socketOptions ?? {});
 
     // Preserve related data (messages, contacts, chats) when reconnecting an existing session.
-    await this.prisma.session.upsert({
+    const dbSession = await this.prisma.session.upsert({
       where: { id: sessionId },
       create: {
         id: sessionId,
+        tenantId: tenant?.id,
         status: 'connecting',
-        webhookUrl: options.webhookUrl || this.configService.get<string>('WEBHOOK_URL') || null,
+        webhookUrl,
+        ...socketOptions,
       },
       update: {
         status: 'connecting',
-        webhookUrl: options.webhookUrl || this.configService.get<string>('WEBHOOK_URL') || null,
+        webhookUrl,
+        ...socketOptions,
       },
     });
 
     // Use Prisma-backed auth state instead of filesystem
-    const { state, saveCreds } = await usePrismaAuthState(sessionId, this.prisma);
-    const { version } = await fetchLatestBaileysVersion();
+    const { state, saveCreds, flush, dispose } = await usePrismaAuthState(sessionId, this.prisma, this.authStateCipher, {
+      cacheSize: Number(this.configService.get('AUTH_KEY_CACHE_SIZE', 5000)),
+      flushDelayMs: Number(this.configService.get('AUTH_KEY_FLUSH_DELAY_MS', 100)),
+    });
+    const waVersion = await this.waVersionService.resolve(dbSession.waVersion);
+    const proxy = dbSession.proxyUrl ? createProxyAgents(dbSession.proxyUrl) : undefined;
 
     const socket = makeWASocket({
-      version,
+      version: waVersion.version,
       auth: state,
       printQRInTerminal: false,
       logger: pino({ level: 'silent' }) as any,
-      browser: Browsers.ubuntu('Baileys Server'),
-      generateHighQualityLinkPreview: true,
-      markOnlineOnConnect: true,
+      browser: Browsers[browserPlatformOf(dbSession.browserPlatform)](dbSession.browserName ?? DEFAULT_BROWSER_NAME),
+      generateHighQualityLinkPreview: dbSession.linkPreviews,
+      markOnlineOnConnect: dbSession.markOnlineOnConnect,
+      syncFullHistory: dbSession.syncFullHistory,
+      agent: proxy?.agent,
+      // Typed as an https agent, but Baileys hands it to fetch() as the undici dispatcher
+      fetchAgent: proxy?.fetchAgent as unknown as SocketConfig['fetchAgent'],
     });
 
     const sessionData: SessionData = {
       socket,
       status: 'connecting',
-      webhookUrl: options.webhookUrl || this.configService.get<string>('WEBHOOK_URL'),
-      retryCount: 0,
+      usePairingCode: !!options.pairingCode,
+      phoneNumber: options.phoneNumber,
+      webhookUrl: webhookUrl ?? undefined,
+      retryCount: options.reconnectAttempt ?? 0,
+      autoReconnect: dbSession.autoReconnect,
+      reconnectPolicy: reconnectPolicyOf(dbSession),
+      waVersion,
       saveCreds,
+      flushKeys: flush,
+      disposeKeys: dispose,
     };
 
     this.sessions.set(sessionId, sessionData);
+    this.recordTransition(sessionId, { status: 'connecting', attempt: options.reconnectAttempt });
 
     // Handle pairing code auth
     if (options.pairingCode && options.phoneNumber) {
@@ -189,17 +351,24 @@ export class SessionService implements OnModuleInit, OnModuleDestroy {
     socket.ev.on('connection.update', async (update: Partial<ConnectionState>) => {
       const { connection, lastDisconnect, qr } = update;
 
-      if (qr && !options.pairingCode) {
+      if (qr && !sessionData.usePairingCode) {
         const qrBase64 = await QRCode.toDataURL(qr);
         sessionData.qr = qrBase64;
+        sessionData.rawQr = qr;
         sessionData.status = 'connecting';
         this.eventEmitter.emit('session.qr', { sessionId, qr: qrBase64 });
         this.emitWebhook(sessionId, 'qr', { qr: qrBase64 });
       }
 
       if (connection === 'open') {
+        this.recordTransition(sessionId, {
+          status: 'open',
+          prevStatus: sessionData.status,
+          attempt: sessionData.retryCount || undefined,
+        });
         sessionData.status = 'open';
         sessionData.qr = undefined;
+        sessionData.rawQr = undefined;
         sessionData.retryCount = 0;
         sessionData.user = socket.user ? { ...socket.user } : undefined;
         this.logger.log(`Session "${sessionId}" connected as ${socket.user?.id}`);
@@ -212,6 +381,7 @@ export class SessionService implements OnModuleInit, OnModuleDestroy {
             userJid: socket.user?.id ?? null,
             userName: (socket.user as any)?.name ?? null,
             retryCount: 0,
+            activeWaVersion: formatWaVersion(waVersion.version),
           },
         }).catch((err) => this.logger.error(`DB update failed for ${sessionId}: ${err}`));
 
@@ -220,22 +390,38 @@ export class SessionService implements OnModuleInit, OnModuleDestroy {
       }
 
       if (connection === 'close') {
+        // Sockets closed on shutdown or after losing the lease no longer speak for the session
+        if (this.sessions.get(sessionId) !== sessionData) return;
+        const prevStatus = sessionData.status;
         sessionData.status = 'close';
-        const statusCode = (lastDisconnect?.error as any)?.output?.statusCode;
+        const error = lastDisconnect?.error as (Error & { output?: { statusCode?: number } }) | undefined;
+        const statusCode = error?.output?.statusCode;
         const shouldReconnect = statusCode !== DisconnectReason.loggedOut;
+        const attempt = sessionData.retryCount + 1;
+        const willRetry =
+          shouldReconnect && sessionData.autoReconnect && canRetry(sessionData.reconnectPolicy, attempt);
+        const delay = willRetry ? reconnectDelay(sessionData.reconnectPolicy, attempt) : undefined;
 
         this.logger.warn(
-          `Session "${sessionId}" disconnected (code: ${statusCode}), reconnect: ${shouldReconnect}`,
+          `Session "${sessionId}" disconnected (code: ${statusCode}), reconnect: ${willRetry}`,
         );
 
         this.emitWebhook(sessionId, 'connection', {
           status: 'close',
           reason: statusCode,
-          shouldReconnect,
+          shouldReconnect: willRetry,
+        });
+        this.recordTransition(sessionId, {
+          status: 'close',
+          prevStatus,
+          reasonCode: statusCode,
+          message: error?.message,
+          attempt: willRetry ? attempt : undefined,
+          delayMs: delay,
         });
 
-        if (shouldReconnect && sessionData.retryCount < 5) {
-          sessionData.retryCount++;
+        if (willRetry) {
+          sessionData.retryCount = attempt;
 
           await this.prisma.session.update({
             where: { id: sessionId },
@@ -245,7 +431,6 @@ export class SessionService implements OnModuleInit, OnModuleDestroy {
             },
           }).catch(() => { });
 
-          const delay = Math.min(1000 * Math.pow(2, sessionData.retryCount), 30000);
           this.logger.log(`Reconnecting "${sessionId}" in ${delay}ms (attempt ${sessionData.retryCount})`);
 
           this.clearReconnectTimer(sessionId);
@@ -253,15 +438,30 @@ export class SessionService implements OnModuleInit, OnModuleDestroy {
             this.reconnectTimers.delete(sessionId);
             if (!this.sessions.has(sessionId)) return;
             this.sessions.delete(sessionId);
-            this.createSession(sessionId, options).catch((err) => {
-              this.logger.error(`Failed to reconnect "${sessionId}": ${err}`);
-            });
+            // The new auth store reads from the database, so pending key writes must land first
+            sessionData
+              .flushKeys()
+              .catch((err) => this.logger.error(`Failed to flush auth keys for ${sessionId}: ${err}`))
+              // The stored webhook URL and socket options may have been changed since the session was created
+              .then(() =>
+                this.createSession(sessionId, {
+                  ...options,
+                  webhookUrl: undefined,
+                  socketOptions: undefined,
+                  reconnectAttempt: attempt,
+                }),
+              )
+              .catch((err) => {
+                this.logger.error(`Failed to reconnect "${sessionId}": ${err}`);
+              });
           }, delay);
           this.reconnectTimers.set(sessionId, timer);
         } else if (!shouldReconnect) {
           this.logger.log(`Session "${sessionId}" logged out, cleaning up`);
           this.clearReconnectTimer(sessionId);
           this.sessions.delete(sessionId);
+          sessionData.disposeKeys();
+          await this.releaseLease(sessionId);
 
           // Clean up DB — cascade delete auth credentials
           await this.prisma.session.delete({
@@ -270,6 +470,14 @@ export class SessionService implements OnModuleInit, OnModuleDestroy {
 
           this.eventEmitter.emit('session.logged-out', { sessionId });
           this.emitWebhook(sessionId, 'connection', { status: 'logged-out' });
+        } else if (!sessionData.autoReconnect) {
+          // The session stays down until it is reconnected via the API
+          await this.prisma.session.update({
+            where: { id: sessionId },
+            data: { status: 'close', retryCount: 0 },
+          }).catch(() => { });
+        } else {
+          await this.giveUp(sessionId, sessionData);
         }
       }
     });
@@ -323,6 +531,203 @@ export class SessionService implements OnModuleInit, OnModuleDestroy {
     };
   }
 
+  /**
+   * The session ran out of reconnect attempts: record it, notify subscribers and
+   * apply the policy's give-up action.
+   */
+  private async giveUp(sessionId: string, sessionData: SessionData) {
+    const { giveUpAction } = sessionData.reconnectPolicy;
+    const attempts = sessionData.retryCount;
+    this.logger.warn(`Session "${sessionId}" gave up reconnecting after ${attempts} attempt(s), action: ${giveUpAction}`);
+
+    this.recordTransition(sessionId, { status: 'gave-up', prevStatus: 'close', attempt: attempts });
+    this.eventEmitter.emit('session.gave-up', { sessionId, attempts, action: giveUpAction });
+    this.emitWebhook(sessionId, 'connection', { status: 'gave-up', attempts, action: giveUpAction });
+
+    if (giveUpAction === 'delete') {
+      await this.deleteSession(sessionId).catch((err) => this.logger.error(`Failed to delete "${sessionId}": ${err}`));
+      return;
+    }
+    await this.prisma.session.update({
+      where: { id: sessionId },
+      data: { status: 'close', retryCount: 0 },
+    }).catch(() => { });
+  }
+
+  private recordTransition(sessionId: string, transition: SessionTransition) {
+    // Numeric enums map codes back to their names
+    const reason =
+      transition.reasonCode !== undefined
+        ? (DisconnectReason as unknown as Record<number, string | undefined>)[transition.reasonCode]
+        : undefined;
+    this.prisma.sessionEvent
+      .create({
+        data: {
+          sessionId,
+          status: transition.status,
+          prevStatus: transition.prevStatus ?? null,
+          reasonCode: transition.reasonCode ?? null,
+          reason: reason ?? null,
+          message: transition.message ?? null,
+          attempt: transition.attempt ?? null,
+          delayMs: transition.delayMs ?? null,
+        },
+      })
+      .catch((err) => this.logger.error(`Failed to record ${transition.status} event for ${sessionId}: ${err}`));
+  }
+
+  /**
+   * State transitions of a session, newest first.
+   */
+  async getSessionEvents(sessionId: string, query: ListSessionEventsDto) {
+    const dbSession = await this.prisma.session.findUnique({ where: { id: sessionId }, select: { id: true } });
+    if (!dbSession) throw new NotFoundException(`Session "${sessionId}" not found`);
+
+    const where: Prisma.SessionEventWhereInput = { sessionId };
+    if (query.status) where.status = query.status;
+    if (query.from || query.to) {
+      where.createdAt = {
+        ...(query.from ? { gte: new Date(query.from) } : {}),
+        ...(query.to ? { lt: new Date(query.to) } : {}),
+      };
+    }
+
+    const limit = query.limit ?? 50;
+    const offset = query.offset ?? 0;
+    const [events, total] = await Promise.all([
+      this.prisma.sessionEvent.findMany({ where, orderBy: { createdAt: 'desc' }, take: limit, skip: offset }),
+      this.prisma.sessionEvent.count({ where }),
+    ]);
+    return { events, total, limit, offset };
+  }
+
+  /**
+   * Resolve the tenant of a session that is about to be created or reused. A session
+   * ID owned by another tenant must not be taken over, and new sessions count
+   * against the tenant's quota.
+   */
+  async resolveSessionTenant(sessionId: string, requestedTenantId?: string) {
+    const existing = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { tenantId: true, webhookUrl: true },
+    });
+    if (existing && requestedTenantId !== undefined && existing.tenantId !== requestedTenantId) {
+      throw new ConflictException(`Session "${sessionId}" already exists`);
+    }
+
+    const tenantId = existing ? existing.tenantId : (requestedTenantId ?? null);
+    const tenant = tenantId ? await this.prisma.tenant.findUnique({ where: { id: tenantId } }) : null;
+    if (tenantId && !tenant) throw new NotFoundException(`Tenant "${tenantId}" not found`);
+
+    if (!existing && tenant && tenant.maxSessions !== null) {
+      const sessionCount = await this.prisma.session.count({ where: { tenantId: tenant.id } });
+      if (sessionCount >= tenant.maxSessions) {
+        throw new ForbiddenException(`Tenant "${tenant.name}" has reached its quota of ${tenant.maxSessions} session(s)`);
+      }
+    }
+
+    return { exists: !!existing, tenant, webhookUrl: existing?.webhookUrl ?? null };
+  }
+
+  // Tenant sessions fall back to the tenant's default webhook; WEBHOOK_URL only applies outside tenants
+  private defaultWebhookUrl(tenant: { webhookUrl: string | null } | null): string | null {
+    return (tenant ? tenant.webhookUrl : this.configService.get<string>('WEBHOOK_URL')) || null;
+  }
+
+  /**
+   * Change a session's settings. They are persisted and applied to a running
+   * socket without reconnecting; socket options other than `markOnlineOnConnect`
+   * only take effect on the next connect.
+   */
+  async updateSession(sessionId: string, dto: UpdateSessionDto) {
+    const existing = await this.prisma.session.findUnique({ where: { id: sessionId }, include: { tenant: true } });
+    if (!existing) throw new NotFoundException(`Session "${sessionId}" not found`);
+
+    const data: Prisma.SessionUpdateInput = {};
+    if (dto.webhookUrl !== undefined) data.webhookUrl = dto.webhookUrl;
+    if (dto.displayName !== undefined) data.displayName = dto.displayName;
+    if (dto.description !== undefined) data.description = dto.description;
+    if (dto.tags !== undefined) data.tags = [...new Set(dto.tags.map((tag) => tag.trim()).filter(Boolean))];
+    if (dto.autoReconnect !== undefined) data.autoReconnect = dto.autoReconnect;
+    const policy = dto.reconnectPolicy;
+    if (policy?.maxAttempts !== undefined) data.reconnectMaxAttempts = policy.maxAttempts;
+    if (policy?.backoff !== undefined) data.reconnectBackoff = policy.backoff;
+    if (policy?.baseDelayMs !== undefined) data.reconnectBaseDelayMs = policy.baseDelayMs;
+    if (policy?.maxDelayMs !== undefined) data.reconnectMaxDelayMs = policy.maxDelayMs;
+    if (policy?.jitter !== undefined) data.reconnectJitter = policy.jitter;
+    if (policy?.giveUpAction !== undefined) data.reconnectGiveUpAction = policy.giveUpAction;
+    const limits = dto.sendLimits;
+    if (limits?.ratePerMinute !== undefined) data.sendRatePerMinute = limits.ratePerMinute;
+    if (limits?.jitterMs !== undefined) data.sendJitterMs = limits.jitterMs;
+    if (limits?.dailyCap !== undefined) data.sendDailyCap = limits.dailyCap;
+    Object.assign(data, this.socketOptionsData(dto));
+    if (Object.keys(data).length === 0) throw new BadRequestException('No settings to update');
+
+    const updated = await this.prisma.session.update({ where: { id: sessionId }, data });
+
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.webhookUrl = (updated.webhookUrl || this.defaultWebhookUrl(existing.tenant)) ?? undefined;
+      session.autoReconnect = updated.autoReconnect;
+      session.reconnectPolicy = reconnectPolicyOf(updated);
+      if (dto.markOnlineOnConnect !== undefined && session.status === 'open') {
+        await session.socket
+          .sendPresenceUpdate(dto.markOnlineOnConnect ? 'available' : 'unavailable')
+          .catch((err) => this.logger.warn(`Failed to update presence for ${sessionId}: ${err}`));
+      }
+    }
+
+    this.logger.log(`Session "${sessionId}" settings updated: ${Object.keys(data).join(', ')}`);
+    return this.toSessionSettings(updated);
+  }
+
+  private toSessionSettings(session: Session) {
+    return {
+      sessionId: session.id,
+      webhookUrl: session.webhookUrl,
+      displayName: session.displayName,
+      description: session.description,
+      tags: session.tags,
+      autoReconnect: session.autoReconnect,
+      reconnectPolicy: reconnectPolicyOf(session),
+      // null uses the instance default
+      sendLimits: {
+        ratePerMinute: session.sendRatePerMinute,
+        jitterMs: session.sendJitterMs,
+        dailyCap: session.sendDailyCap,
+      },
+      markOnlineOnConnect: session.markOnlineOnConnect,
+      browserName: session.browserName,
+      browserPlatform: session.browserPlatform,
+      syncFullHistory: session.syncFullHistory,
+      linkPreviews: session.linkPreviews,
+      proxyUrl: redactProxyUrl(session.proxyUrl),
+      waVersion: session.waVersion,
+    };
+  }
+
+  // Stored columns of the socket options given in the request; omitted options keep their value
+  private socketOptionsData(dto: SessionSocketOptionsDto) {
+    const data: Pick<
+      Prisma.SessionCreateInput,
+      | 'proxyUrl'
+      | 'browserPlatform'
+      | 'browserName'
+      | 'markOnlineOnConnect'
+      | 'syncFullHistory'
+      | 'linkPreviews'
+      | 'waVersion'
+    > = {};
+    if (dto.proxyUrl !== undefined) data.proxyUrl = dto.proxyUrl;
+    if (dto.browserPlatform !== undefined) data.browserPlatform = dto.browserPlatform;
+    if (dto.browserName !== undefined) data.browserName = dto.browserName;
+    if (dto.markOnlineOnConnect !== undefined) data.markOnlineOnConnect = dto.markOnlineOnConnect;
+    if (dto.syncFullHistory !== undefined) data.syncFullHistory = dto.syncFullHistory;
+    if (dto.linkPreviews !== undefined) data.linkPreviews = dto.linkPreviews;
+    if (dto.waVersion !== undefined) data.waVersion = dto.waVersion;
+    return data;
+  }
+
   async deleteSession(sessionId: string) {
     this.clearReconnectTimer(sessionId);
     const session = this.sessions.get(sessionId);
@@ -338,13 +743,16 @@ export class SessionService implements OnModuleInit, OnModuleDestroy {
       } catch {
         // Socket may already be closed
       }
+      session.disposeKeys();
       this.sessions.delete(sessionId);
     }
+    await this.releaseLease(sessionId);
 
-    // Delete from DB (cascades to auth_credentials, messages, contacts, chats, webhook_logs)
+    // Delete from DB (cascades to auth_credentials, messages, contacts, chats, webhooks)
     await this.prisma.session.delete({
       where: { id: sessionId },
     }).catch(() => { });
+    this.webhookService.invalidate(sessionId);
 
     this.logger.log(`Session "${sessionId}" deleted`);
     return { sessionId, status: 'deleted' };
@@ -361,22 +769,162 @@ export class SessionService implements OnModuleInit, OnModuleDestroy {
       // Ignore
     }
 
+    session.disposeKeys();
     this.sessions.delete(sessionId);
+    await this.releaseLease(sessionId);
 
     // Delete from DB
     await this.prisma.session.delete({
       where: { id: sessionId },
     }).catch(() => { });
+    this.webhookService.invalidate(sessionId);
 
     return { sessionId, status: 'logged-out' };
   }
 
   async reconnectSession(sessionId: string) {
-    this.removeFromMemory(sessionId);
+    await this.removeFromMemory(sessionId);
     return this.createSession(sessionId);
   }
 
-  removeFromMemory(sessionId: string) {
+  /**
+   * QR code of a connecting session, rendered as PNG, SVG or terminal text. With
+   * `waitMs`, first waits up to that long for the next QR code or the connection to open.
+   */
+  async getQrCode(sessionId: string, format: QrFormat = 'png', waitMs = 0) {
+    if (waitMs > 0 && this.getSessionData(sessionId).status !== 'open') {
+      await this.waitForQrOrOpen(sessionId, waitMs);
+    }
+
+    // Looked up again: the socket may have been replaced while waiting
+    const session = this.getSessionData(sessionId);
+    if (session.status === 'open') throw new ConflictException(`Session "${sessionId}" is already connected`);
+    if (!session.rawQr) {
+      throw new NotFoundException(
+        session.usePairingCode
+          ? `Session "${sessionId}" links with a pairing code`
+          : `Session "${sessionId}" has no QR code yet`,
+      );
+    }
+
+    switch (format) {
+      case 'svg':
+        return { data: Buffer.from(await QRCode.toString(session.rawQr, { type: 'svg' })), contentType: 'image/svg+xml' };
+      case 'ascii':
+        return {
+          data: Buffer.from(await QRCode.toString(session.rawQr, { type: 'terminal', small: true })),
+          contentType: 'text/plain; charset=utf-8',
+        };
+      default:
+        return { data: await QRCode.toBuffer(session.rawQr, { type: 'png', width: 400 }), contentType: 'image/png' };
+    }
+  }
+
+  private waitForQrOrOpen(sessionId: string, timeoutMs: number): Promise<void> {
+    return new Promise((resolve) => {
+      const onEvent = (payload: { sessionId: string }) => {
+        if (payload.sessionId === sessionId) done();
+      };
+      const done = () => {
+        clearTimeout(timer);
+        this.eventEmitter.off('session.qr', onEvent);
+        this.eventEmitter.off('session.connected', onEvent);
+        resolve();
+      };
+      const timer = setTimeout(done, timeoutMs);
+      this.eventEmitter.on('session.qr', onEvent);
+      this.eventEmitter.on('session.connected', onEvent);
+    });
+  }
+
+  /**
+   * Request a new pairing code for a session that is not linked yet, e.g. after the
+   * previous code expired. A session that showed QR codes switches to the pairing code.
+   */
+  async requestPairingCode(sessionId: string, phoneNumber?: string) {
+    const session = this.getSessionData(sessionId);
+    if (session.status === 'open' || session.socket.authState.creds.registered) {
+      throw new ConflictException(`Session "${sessionId}" is already linked`);
+    }
+    const number = phoneNumber ?? session.phoneNumber;
+    if (!number) throw new BadRequestException(`Session "${sessionId}" was created without a phone number`);
+
+    let code: string;
+    try {
+      code = await session.socket.requestPairingCode(number);
+    } catch (err) {
+      throw new BadRequestException(`Failed to request pairing code: ${(err as Error).message}`);
+    }
+
+    session.usePairingCode = true;
+    session.phoneNumber = number;
+    session.pairingCode = code;
+    session.qr = undefined;
+    session.rawQr = undefined;
+    this.eventEmitter.emit('session.pairing-code', { sessionId, pairingCode: code });
+    this.logger.log(`Pairing code refreshed for "${sessionId}"`);
+    return { sessionId, pairingCode: code };
+  }
+
+  /**
+   * Close a session's socket without logging out. The session stays closed, also
+   * across restarts and takeovers, until it is reconnected.
+   */
+  async pauseSession(sessionId: string) {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      const dbSession = await this.prisma.session.findUnique({ where: { id: sessionId } });
+      if (!dbSession) throw new NotFoundException(`Session "${sessionId}" not found`);
+    }
+
+    await this.removeFromMemory(sessionId);
+    await this.releaseLease(sessionId);
+    await this.prisma.session.update({
+      where: { id: sessionId },
+      data: { status: 'close', retryCount: 0 },
+    });
+    if (session) this.recordTransition(sessionId, { status: 'paused', prevStatus: session.status });
+
+    this.logger.log(`Session "${sessionId}" paused`);
+    return { sessionId, status: 'paused' };
+  }
+
+  /**
+   * Apply a bulk action to one session, on the instance that owns its socket.
+   */
+  async runSessionAction(
+    sessionId: string,
+    action: SessionBulkAction,
+    params: SessionBulkParams = {},
+  ): Promise<{ status?: string }> {
+    const owner = await this.clusterService.getLeaseOwner(sessionId);
+    if (owner && owner !== this.clusterService.instanceId) {
+      return this.clusterService.call(owner, SESSION_ACTION_METHOD, { sessionId, action, params });
+    }
+    return this.applySessionAction(sessionId, action, params);
+  }
+
+  private async applySessionAction(
+    sessionId: string,
+    action: SessionBulkAction,
+    params: SessionBulkParams,
+  ): Promise<{ status?: string }> {
+    switch (action) {
+      case 'reconnect':
+        return this.reconnectSession(sessionId);
+      case 'logout':
+        return this.logoutSession(sessionId);
+      case 'delete':
+        return this.deleteSession(sessionId);
+      case 'pause':
+        return this.pauseSession(sessionId);
+      case 'update-webhook':
+        await this.updateSession(sessionId, { webhookUrl: params.webhookUrl ?? null });
+        return { status: 'updated' };
+    }
+  }
+
+  async removeFromMemory(sessionId: string) {
     this.clearReconnectTimer(sessionId);
     const session = this.sessions.get(sessionId);
     if (session) {
@@ -386,9 +934,16 @@ export class SessionService implements OnModuleInit, OnModuleDestroy {
         // Socket may already be closed
       }
       this.sessions.delete(sessionId);
+      await session.flushKeys().catch((err) => this.logger.error(`Failed to flush auth keys for ${sessionId}: ${err}`));
     }
   }
 
+  private async releaseLease(sessionId: string) {
+    await this.clusterService
+      .releaseLease(sessionId)
+      .catch((err) => this.logger.error(`Failed to release the lease of ${sessionId}: ${err}`));
+  }
+
   async getStatus(sessionId: string): Promise<Record<string, unknown>> {
     // First check in-memory
     const session = this.sessions.get(sessionId);
@@ -413,21 +968,200 @@ export class SessionService implements OnModuleInit, OnModuleDestroy {
     };
   }
 
-  async getAllSessions() {
-    // Get all sessions from DB (includes offline sessions)
+  /**
+   * Sessions from the DB, newest first, filtered and paginated by cursor. Each
+   * carries its message, chat and contact totals and its dead-lettered webhook deliveries
+   * of the last 24 hours, counted per page.
+   */
+  async listSessions(query: ListSessionsDto, apiKey: ApiKeyPrincipal) {
+    const limit = query.limit ?? 50;
+    const where: Prisma.SessionWhereInput[] = [];
+    // Limited to the caller's tenant
+    if (apiKey.tenantId) where.push({ tenantId: apiKey.tenantId });
+    const patterns = this.sessionPatternFilter(apiKey);
+    if (patterns) where.push(patterns);
+    if (query.status) where.push(this.statusFilter(query.status));
+    if (query.tag) where.push({ tags: { has: query.tag } });
+    if (query.userJid) where.push({ userJid: { startsWith: query.userJid } });
+    if (query.createdFrom || query.createdTo) {
+      where.push({ createdAt: { gte: this.toDate(query.createdFrom), lt: this.toDate(query.createdTo) } });
+    }
+    if (query.updatedFrom || query.updatedTo) {
+      where.push({ updatedAt: { gte: this.toDate(query.updatedFrom), lt: this.toDate(query.updatedTo) } });
+    }
+    if (query.search) {
+      const contains = { contains: query.search, mode: 'insensitive' as const };
+      where.push({
+        OR: [
+          { id: contains },
+          { displayName: contains },
+          { description: contains },
+          { userJid: contains },
+          { userName: contains },
+        ],
+      });
+    }
+
+    const failedWebhooksSince = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const include = {
+      _count: {
+        select: {
+          messages: true,
+          chats: true,
+          contacts: true,
+          // Deliveries that used up their retries, not every failed attempt
+          webhookLogs: { where: { deadLetter: true, test: false, createdAt: { gte: failedWebhooksSince } } },
+        },
+      },
+    } satisfies Prisma.SessionInclude;
+    const page: Prisma.SessionGetPayload<{ include: typeof include }>[] = [];
+    let after = query.cursor ? this.decodeSessionCursor(query.cursor) : null;
+
+    // Session ID patterns with several `*` and sessions on this instance whose live status
+    // differs from the stored one are only filtered here, so pages are topped up
+    while (page.length <= limit) {
+      const position: Prisma.SessionWhereInput[] = after
+        ? [{ OR: [{ createdAt: { lt: after.createdAt } }, { createdAt: after.createdAt, id: { lt: after.id } }] }]
+        : [];
+      const batch = await this.prisma.session.findMany({
+        where: { AND: [...where, ...position] },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit + 1,
+        include,
+      });
+      page.push(
+        ...batch.filter(
+          (session) =>
+            canAccessSession(apiKey, session.id) && (!query.status || this.statusOf(session) === query.status),
+        ),
+      );
+      if (batch.length <= limit) break;
+      after = batch[batch.length - 1];
+    }
+
+    const sessions = page.slice(0, limit);
+    const last = sessions[sessions.length - 1];
+    return {
+      sessions: sessions.map((s) => ({
+        sessionId: s.id,
+        tenantId: s.tenantId,
+        displayName: s.displayName,
+        description: s.description,
+        tags: s.tags,
+        status: this.statusOf(s),
+        user: s.userJid ? { id: s.userJid, name: s.userName } : null,
+        counts: {
+          messages: s._count.messages,
+          chats: s._count.chats,
+          contacts: s._count.contacts,
+          failedWebhooks24h: s._count.webhookLogs,
+        },
+        createdAt: s.createdAt,
+        updatedAt: s.updatedAt,
+      })),
+      nextCursor: page.length > limit ? this.encodeSessionCursor(last) : null,
+    };
+  }
+
+  /**
+   * The key's session patterns as a query: exact for IDs and patterns with one `*`,
+   * wider for the others, which `canAccessSession` narrows down.
+   */
+  private sessionPatternFilter(apiKey: ApiKeyPrincipal): Prisma.SessionWhereInput | null {
+    if (apiKey.sessionIds.length === 0 || apiKey.sessionIds.includes('*')) return null;
+    return {
+      OR: apiKey.sessionIds.map((pattern): Prisma.SessionWhereInput => {
+        const parts = pattern.split('*');
+        if (parts.length === 1) return { id: pattern };
+        const inner = parts.slice(1, -1).filter(Boolean);
+        return {
+          AND: [
+            { id: { startsWith: parts[0] } },
+            { id: { endsWith: parts[parts.length - 1] } },
+            ...inner.map((part) => ({ id: { contains: part } })),
+          ],
+        };
+      }),
+    };
+  }
+
+  /**
+   * The status a session reports: the live one when this instance holds its socket,
+   * else the one stored in the DB.
+   */
+  statusOf(session: Pick<Session, 'id' | 'status'>): string {
+    return this.sessions.get(session.id)?.status ?? session.status;
+  }
+
+  /**
+   * Sessions that may report `status`. Sessions on this instance report their live
+   * status, which the DB may not have yet, so check matches with `statusOf`.
+   */
+  statusFilter(status: string): Prisma.SessionWhereInput {
+    const live = [...this.sessions].filter(([, session]) => session.status === status).map(([id]) => id);
+    return { OR: [{ status }, { id: { in: live } }] };
+  }
+
+  private toDate(value?: string) {
+    return value ? new Date(value) : undefined;
+  }
+
+  // Opaque keyset cursor: the position of the last session of a page
+  private encodeSessionCursor(session: { id: string; createdAt: Date }) {
+    return Buffer.from(JSON.stringify([session.createdAt.toISOString(), session.id])).toString('base64url');
+  }
+
+  private decodeSessionCursor(cursor: string): { id: string; createdAt: Date } {
+    try {
+      const [createdAt, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString()) as [string, string];
+      const date = new Date(createdAt);
+      if (typeof id !== 'string' || Number.isNaN(date.getTime())) throw new Error('Malformed cursor');
+      return { id, createdAt: date };
+    } catch {
+      throw new BadRequestException('Invalid cursor');
+    }
+  }
+
+  /**
+   * WhatsApp Web version new sockets get, and the version each session runs with:
+   * the live socket's on this instance, else the one it last connected with.
+   */
+  async getWaVersions(tenantId?: string | null) {
+    const current = await this.waVersionService.getDefault();
     const dbSessions = await this.prisma.session.findMany({
+      where: tenantId ? { tenantId } : undefined,
+      select: { id: true, status: true, waVersion: true, activeWaVersion: true },
       orderBy: { createdAt: 'desc' },
     });
 
-    return dbSessions.map((s) => ({
-      sessionId: s.id,
-      status: this.sessions.has(s.id)
-        ? this.sessions.get(s.id)!.status
-        : s.status,
-      user: s.userJid ? { id: s.userJid, name: s.userName } : null,
-      createdAt: s.createdAt,
-      updatedAt: s.updatedAt,
-    }));
+    return {
+      default: this.toWaVersionInfo(current),
+      sessions: dbSessions.map((s) => {
+        const live = this.sessions.get(s.id);
+        return {
+          sessionId: s.id,
+          status: live?.status ?? s.status,
+          override: s.waVersion,
+          version: live ? formatWaVersion(live.waVersion.version) : s.activeWaVersion,
+          source: live?.waVersion.source ?? (s.waVersion ? 'session' : null),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Fetch the latest WhatsApp Web version again; sockets pick it up on their next connect.
+   */
+  async refreshWaVersion() {
+    return this.toWaVersionInfo(await this.waVersionService.refresh());
+  }
+
+  private toWaVersionInfo(resolved: ResolvedWaVersion) {
+    return {
+      version: formatWaVersion(resolved.version),
+      source: resolved.source,
+      resolvedAt: resolved.resolvedAt,
+    };
   }
 
   /**
@@ -509,26 +1243,6 @@ export class SessionService implements OnModuleInit, OnModuleDestroy {
     return { chats: serializedChats, total, limit, offset };
   }
 
-  /**
-   * Get webhook delivery logs from DB.
-   */
-  async getWebhookLogs(sessionId: string, limit = 50, offset = 0) {
-    const dbSession = await this.prisma.session.findUnique({ where: { id: sessionId } });
-    if (!dbSession) throw new NotFoundException(`Session "${sessionId}" not found`);
-
-    const [logs, total] = await Promise.all([
-      this.prisma.webhookLog.findMany({
-        where: { sessionId },
-        orderBy: { createdAt: 'desc' },
-        take: limit,
-        skip: offset,
-      }),
-      this.prisma.webhookLog.count({ where: { sessionId } }),
-    ]);
-
-    return { logs, total, limit, offset };
-  }
-
   async findMessage(sessionId: string, jid: string, messageId: string): Promise<WAMessage | undefined> {
     const storedMessage = await this.prisma.message.findFirst({
       where: { sessionId, remoteJid: jid, messageId },
@@ -559,21 +1273,22 @@ export class SessionService implements OnModuleInit, OnModuleDestroy {
 
     for (const event of eventsToForward) {
       socket.ev.on(event, (data: unknown) => {
-        this.eventEmitter.emit(`baileys.${event}`, { sessionId, data });
+        this.eventEmitter.emit(`baileys.${event}`, { sessionId, event, data });
         this.emitWebhook(sessionId, event, data);
       });
     }
   }
 
-  private emitWebhook(sessionId: string, event: string, data: unknown) {
+  /**
+   * Push an event to the session's webhooks. The session-level URL is only known on
+   * the instance that owns the session; subscriptions get the event on any instance.
+   */
+  emitWebhook(sessionId: string, event: string, data: unknown) {
     const session = this.sessions.get(sessionId);
-    const webhookUrl = session?.webhookUrl;
-    if (webhookUrl) {
-      // Use BullMQ queue for async delivery with retry
-      this.queueService.addWebhookDeliveryJob(sessionId, webhookUrl, event, data).catch((err) => {
-        this.logger.error(`Failed to queue webhook for ${sessionId}: ${err}`);
-      });
-    }
+    // Session-level URL receives every event; subscriptions apply their own filters
+    this.webhookService.dispatch(sessionId, event, data, session?.webhookUrl).catch((err) => {
+      this.logger.error(`Failed to queue webhook for ${sessionId}: ${err}`);
+    });
   }
 
   private clearReconnectTimer(sessionId: string) {
@@ -0,0 +1,101 @@
+import type { Agent } from 'https';
+import type { WAVersion } from '@whiskeysockets/baileys';
+import * as tls from 'tls';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import { SocksProxyAgent } from 'socks-proxy-agent';
+import { SocksClient } from 'socks';
+import { Agent as DispatcherAgent, ProxyAgent, type Dispatcher, type buildConnector } from 'undici';
+
+export const PROXY_PROTOCOLS = ['http', 'https', 'socks', 'socks4', 'socks4a', 'socks5', 'socks5h'];
+
+// Keys of Baileys' `Browsers`: the OS the linked device reports (`appropriate` uses the host's)
+export const BROWSER_PLATFORMS = ['ubuntu', 'macOS', 'windows', 'baileys', 'appropriate'] as const;
+export type BrowserPlatform = (typeof BROWSER_PLATFORMS)[number];
+
+export const DEFAULT_BROWSER_NAME = 'Baileys Server';
+
+// WhatsApp Web version as written in config and the API, e.g. 2.3000.1027934701
+export const WA_VERSION_PATTERN = /^\d+\.\d+\.\d+$/;
+
+export function parseWaVersion(value: string): WAVersion | null {
+  if (!WA_VERSION_PATTERN.test(value.trim())) return null;
+  return value.trim().split('.').map(Number) as WAVersion;
+}
+
+export function formatWaVersion(version: WAVersion): string {
+  return version.join('.');
+}
+
+export function browserPlatformOf(platform: string): BrowserPlatform {
+  return (BROWSER_PLATFORMS as readonly string[]).includes(platform) ? (platform as BrowserPlatform) : 'ubuntu';
+}
+
+export interface SessionProxyAgents {
+  // WhatsApp websocket
+  agent: Agent;
+  // Media uploads and downloads, which Baileys sends through fetch()
+  fetchAgent: Dispatcher;
+}
+
+/**
+ * Build the agents that route a session's traffic through `proxyUrl`
+ * (`http(s)://` proxies via CONNECT, `socks4://` / `socks5://` via SOCKS).
+ */
+export function createProxyAgents(proxyUrl: string): SessionProxyAgents {
+  const url = new URL(proxyUrl);
+  if (url.protocol.startsWith('socks')) {
+    return {
+      agent: new SocksProxyAgent(url),
+      fetchAgent: new DispatcherAgent({ connect: socksConnector(url) }),
+    };
+  }
+  return {
+    agent: new HttpsProxyAgent(url),
+    fetchAgent: new ProxyAgent(url.toString()),
+  };
+}
+
+/**
+ * Proxy URL safe to return from the API: the password is masked.
+ */
+export function redactProxyUrl(proxyUrl: string | null): string | null {
+  if (!proxyUrl) return null;
+  try {
+    const url = new URL(proxyUrl);
+    if (url.password) url.password = '***';
+    return url.toString();
+  } catch {
+    return '[invalid]';
+  }
+}
+
+function socksConnector(proxy: URL): buildConnector.connector {
+  const type = proxy.protocol === 'socks4:' || proxy.protocol === 'socks4a:' ? 4 : 5;
+
+  return (options, callback) => {
+    const secure = options.protocol === 'https:';
+    SocksClient.createConnection({
+      proxy: {
+        host: proxy.hostname,
+        port: Number(proxy.port) || 1080,
+        type,
+        userId: proxy.username ? decodeURIComponent(proxy.username) : undefined,
+        password: proxy.password ? decodeURIComponent(proxy.password) : undefined,
+      },
+      command: 'connect',
+      destination: { host: options.hostname, port: Number(options.port) || (secure ? 443 : 80) },
+    }).then(
+      ({ socket }) => {
+        if (!secure) return callback(null, socket);
+        const tlsSocket = tls.connect({ socket, servername: options.servername ?? options.hostname });
+        const onError = (err: Error) => callback(err, null);
+        tlsSocket.once('error', onError);
+        tlsSocket.once('secureConnect', () => {
+          tlsSocket.removeListener('error', onError);
+          callback(null, tlsSocket);
+        });
+      },
+      (err: Error) => callback(err, null),
+    );
+  };
+}
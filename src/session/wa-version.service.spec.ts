@@ -0,0 +1,98 @@
+import { fetchLatestBaileysVersion } from '@whiskeysockets/baileys';
+import { WaVersionService } from './wa-version.service';
+
+jest.mock('@whiskeysockets/baileys', () => ({
+  DEFAULT_CONNECTION_CONFIG: { version: [2, 3000, 1] },
+  fetchLatestBaileysVersion: jest.fn(),
+}));
+
+jest.mock('https-proxy-agent', () => ({ HttpsProxyAgent: jest.fn() }));
+
+jest.mock('socks-proxy-agent', () => ({ SocksProxyAgent: jest.fn() }));
+
+describe('WaVersionService', () => {
+  function createService(config: Record<string, string | undefined> = {}) {
+    const clusterService = {
+      getShared: jest.fn().mockResolvedValue(null),
+      setShared: jest.fn().mockResolvedValue(undefined),
+      deleteShared: jest.fn().mockResolvedValue(undefined),
+      publish: jest.fn().mockResolvedValue(undefined),
+      subscribe: jest.fn(),
+    };
+    const configService = { get: jest.fn((key: string, fallback?: unknown) => config[key] ?? fallback) };
+    return { service: new WaVersionService(configService as never, clusterService as never), clusterService };
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (fetchLatestBaileysVersion as jest.Mock).mockResolvedValue({ version: [2, 3000, 1027934701], isLatest: true });
+  });
+
+  it('fetches the latest version once and shares it with the other replicas', async () => {
+    const { service, clusterService } = createService();
+
+    const [first, second] = await Promise.all([service.resolve(), service.resolve(null)]);
+    const third = await service.resolve();
+
+    expect(fetchLatestBaileysVersion).toHaveBeenCalledTimes(1);
+    expect(first).toEqual(expect.objectContaining({ version: [2, 3000, 1027934701], source: 'fetched' }));
+    expect(second).toBe(first);
+    expect(third).toBe(first);
+    expect(clusterService.setShared).toHaveBeenCalledWith(
+      'wa-version',
+      expect.stringContaining('"version":"2.3000.1027934701"'),
+      21600000,
+    );
+  });
+
+  it('uses the version another replica fetched', async () => {
+    const { service, clusterService } = createService();
+    clusterService.getShared.mockResolvedValue('{"version":"2.3000.1020000000","resolvedAt":"2026-10-19T10:00:00.000Z"}');
+
+    await expect(service.getDefault()).resolves.toEqual({
+      version: [2, 3000, 1020000000],
+      source: 'cache',
+      resolvedAt: new Date('2026-10-19T10:00:00.000Z'),
+    });
+    expect(fetchLatestBaileysVersion).not.toHaveBeenCalled();
+  });
+
+  it('never fetches when the version is pinned per session or in config', async () => {
+    const { service } = createService({ WA_VERSION: '2.3000.1015901307' });
+
+    await expect(service.resolve('2.3000.1010000000')).resolves.toEqual(
+      expect.objectContaining({ version: [2, 3000, 1010000000], source: 'session' }),
+    );
+    await expect(service.resolve()).resolves.toEqual(
+      expect.objectContaining({ version: [2, 3000, 1015901307], source: 'config' }),
+    );
+    expect(fetchLatestBaileysVersion).not.toHaveBeenCalled();
+    expect(() => createService({ WA_VERSION: 'latest' })).toThrow('Invalid WA_VERSION');
+  });
+
+  it('falls back to the bundled version when fetching fails or is disabled', async () => {
+    (fetchLatestBaileysVersion as jest.Mock).mockResolvedValue({
+      version: [2, 3000, 1],
+      isLatest: false,
+      error: new Error('getaddrinfo ENOTFOUND'),
+    });
+    const { service, clusterService } = createService();
+
+    await expect(service.getDefault()).resolves.toEqual(expect.objectContaining({ version: [2, 3000, 1], source: 'bundled' }));
+    expect(clusterService.setShared).not.toHaveBeenCalled();
+
+    const offline = createService({ WA_VERSION_FETCH: 'false' }).service;
+    await expect(offline.getDefault()).resolves.toEqual(expect.objectContaining({ source: 'bundled' }));
+    expect(fetchLatestBaileysVersion).toHaveBeenCalledTimes(1);
+  });
+
+  it('refetches on refresh and tells the other replicas to drop their copy', async () => {
+    const { service, clusterService } = createService();
+    await service.getDefault();
+    (fetchLatestBaileysVersion as jest.Mock).mockResolvedValue({ version: [2, 3000, 1030000000], isLatest: true });
+
+    await expect(service.refresh()).resolves.toEqual(expect.objectContaining({ version: [2, 3000, 1030000000] }));
+    expect(clusterService.deleteShared).toHaveBeenCalledWith('wa-version');
+    expect(clusterService.publish).toHaveBeenCalledWith('wa-version-refresh', {});
+  });
+});
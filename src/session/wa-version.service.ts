@@ -0,0 +1,142 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DEFAULT_CONNECTION_CONFIG, fetchLatestBaileysVersion, type WAVersion } from '@whiskeysockets/baileys';
+import { ClusterService } from '../cluster/cluster.service.js';
+import { formatWaVersion, parseWaVersion } from './socket-options.js';
+
+const CACHE_KEY = 'wa-version';
+
+// Tells the other replicas to forget their copy after a refresh
+const REFRESH_CHANNEL = 'wa-version-refresh';
+
+// How long a failed fetch falls back to the bundled version before fetching again
+const RETRY_AFTER_FAILURE_MS = 5 * 60 * 1000;
+
+export type WaVersionSource = 'session' | 'config' | 'cache' | 'fetched' | 'bundled';
+
+export interface ResolvedWaVersion {
+  version: WAVersion;
+  source: WaVersionSource;
+  resolvedAt: Date;
+}
+
+/**
+ * Resolves the WhatsApp Web version sockets announce. A per-session override or
+ * `WA_VERSION` pins it; otherwise the latest version is fetched once, shared with
+ * the other replicas through Redis and refreshed after `WA_VERSION_CACHE_TTL_MS`.
+ * When fetching is disabled or fails, the version bundled with Baileys is used.
+ */
+@Injectable()
+export class WaVersionService implements OnModuleInit {
+  private readonly logger = new Logger(WaVersionService.name);
+  private readonly pinned: WAVersion | null;
+  private readonly fetchEnabled: boolean;
+  private readonly cacheTtlMs: number;
+  private current?: ResolvedWaVersion;
+  private expiresAt = 0;
+  private pending?: Promise<ResolvedWaVersion>;
+
+  constructor(
+    configService: ConfigService,
+    private readonly clusterService: ClusterService,
+  ) {
+    const pinned = configService.get<string>('WA_VERSION');
+    this.pinned = pinned ? parseWaVersion(pinned) : null;
+    if (pinned && !this.pinned) {
+      throw new Error(`Invalid WA_VERSION "${pinned}": expected <major>.<minor>.<revision>, e.g. 2.3000.1027934701`);
+    }
+    this.fetchEnabled = configService.get<string>('WA_VERSION_FETCH', 'true') !== 'false';
+    this.cacheTtlMs = Number(configService.get('WA_VERSION_CACHE_TTL_MS', 6 * 60 * 60 * 1000));
+  }
+
+  onModuleInit() {
+    this.clusterService.subscribe(REFRESH_CHANNEL, () => this.forget());
+  }
+
+  /**
+   * Version for a session: its own override, else the instance-wide version.
+   */
+  async resolve(override?: string | null): Promise<ResolvedWaVersion> {
+    const version = override ? parseWaVersion(override) : null;
+    if (version) return { version, source: 'session', resolvedAt: new Date() };
+    if (override) this.logger.warn(`Ignoring invalid session WA version "${override}"`);
+    return this.getDefault();
+  }
+
+  /**
+   * Instance-wide version, fetched at most once per cache period.
+   */
+  getDefault(): Promise<ResolvedWaVersion> {
+    if (this.pinned) return Promise.resolve({ version: this.pinned, source: 'config', resolvedAt: new Date() });
+    if (this.current && Date.now() < this.expiresAt) return Promise.resolve(this.current);
+    // Sessions reconnecting together share one lookup
+    this.pending ??= this.load().finally(() => {
+      this.pending = undefined;
+    });
+    return this.pending;
+  }
+
+  /**
+   * Drop the cached version (on every replica) and fetch it again.
+   */
+  async refresh(): Promise<ResolvedWaVersion> {
+    this.forget();
+    try {
+      await this.clusterService.deleteShared(CACHE_KEY);
+      await this.clusterService.publish(REFRESH_CHANNEL, {});
+    } catch (err) {
+      this.logger.warn(`Failed to clear the shared WA version: ${err}`);
+    }
+    return this.getDefault();
+  }
+
+  private forget() {
+    this.current = undefined;
+    this.expiresAt = 0;
+  }
+
+  private async load(): Promise<ResolvedWaVersion> {
+    const cached = await this.readShared();
+    if (cached) return this.remember(cached.version, 'cache', cached.resolvedAt, this.cacheTtlMs);
+
+    if (!this.fetchEnabled) {
+      return this.remember(DEFAULT_CONNECTION_CONFIG.version, 'bundled', new Date(), this.cacheTtlMs);
+    }
+
+    const { version, isLatest, error } = await fetchLatestBaileysVersion();
+    if (!isLatest) {
+      this.logger.warn(`Failed to fetch the latest WA version, using the bundled one: ${(error as Error)?.message ?? error}`);
+      return this.remember(DEFAULT_CONNECTION_CONFIG.version, 'bundled', new Date(), RETRY_AFTER_FAILURE_MS);
+    }
+
+    const resolved = this.remember(version, 'fetched', new Date(), this.cacheTtlMs);
+    await this.clusterService
+      .setShared(
+        CACHE_KEY,
+        JSON.stringify({ version: formatWaVersion(version), resolvedAt: resolved.resolvedAt }),
+        this.cacheTtlMs,
+      )
+      .catch((err) => this.logger.warn(`Failed to share the WA version: ${err}`));
+    this.logger.log(`Using WA version ${formatWaVersion(version)}`);
+    return resolved;
+  }
+
+  private async readShared(): Promise<{ version: WAVersion; resolvedAt: Date } | null> {
+    try {
+      const raw = await this.clusterService.getShared(CACHE_KEY);
+      if (!raw) return null;
+      const cached = JSON.parse(raw) as { version: string; resolvedAt: string };
+      const version = parseWaVersion(cached.version);
+      return version ? { version, resolvedAt: new Date(cached.resolvedAt) } : null;
+    } catch (err) {
+      this.logger.warn(`Failed to read the shared WA version: ${err}`);
+      return null;
+    }
+  }
+
+  private remember(version: WAVersion, source: WaVersionSource, resolvedAt: Date, ttlMs: number) {
+    this.current = { version, source, resolvedAt };
+    this.expiresAt = Date.now() + ttlMs;
+    return this.current;
+  }
+}
@@ -0,0 +1,23 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { IsInt, IsNotEmpty, IsOptional, IsString, IsUrl, MaxLength, Min } from 'class-validator';
+
+export class CreateTenantDto {
+  @ApiProperty({ description: 'Unique tenant name', example: 'sales-apac' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name!: string;
+
+  @ApiPropertyOptional({ description: 'Maximum number of sessions (unlimited when omitted)', example: 20 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxSessions?: number;
+
+  @ApiPropertyOptional({ description: 'Default webhook URL for sessions created without one' })
+  @IsOptional()
+  @IsUrl()
+  webhookUrl?: string;
+}
+
+export class UpdateTenantDto extends PartialType(CreateTenantDto) {}
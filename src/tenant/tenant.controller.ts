@@ -0,0 +1,47 @@
+import { Controller, Get, Post, Patch, Delete, Param, Body, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiSecurity, ApiParam } from '@nestjs/swagger';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator.js';
+import { TenantService } from './tenant.service.js';
+import { CreateTenantDto, UpdateTenantDto } from './dto/tenant.dto.js';
+
+@ApiTags('Tenant')
+@ApiSecurity('x-api-key')
+@RequireScopes('tenants:admin')
+@Controller('tenants')
+export class TenantController {
+  constructor(private readonly tenantService: TenantService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a tenant (session quota, default webhook URL)' })
+  create(@Body() dto: CreateTenantDto) {
+    return this.tenantService.create(dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List tenants with session and API key counts' })
+  list() {
+    return this.tenantService.list();
+  }
+
+  @Get(':tenantId')
+  @ApiOperation({ summary: 'Get a tenant' })
+  @ApiParam({ name: 'tenantId', description: 'Tenant ID' })
+  get(@Param('tenantId') tenantId: string) {
+    return this.tenantService.get(tenantId);
+  }
+
+  @Patch(':tenantId')
+  @ApiOperation({ summary: 'Update a tenant' })
+  @ApiParam({ name: 'tenantId', description: 'Tenant ID' })
+  update(@Param('tenantId') tenantId: string, @Body() dto: UpdateTenantDto) {
+    return this.tenantService.update(tenantId, dto);
+  }
+
+  @Delete(':tenantId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete a tenant without sessions (its API keys are deleted too)' })
+  @ApiParam({ name: 'tenantId', description: 'Tenant ID' })
+  delete(@Param('tenantId') tenantId: string) {
+    return this.tenantService.delete(tenantId);
+  }
+}
@@ -0,0 +1,77 @@
+import { ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service.js';
+import { CreateTenantDto, UpdateTenantDto } from './dto/tenant.dto.js';
+
+@Injectable()
+export class TenantService {
+  private readonly logger = new Logger(TenantService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async list() {
+    return this.prisma.tenant.findMany({
+      include: { _count: { select: { sessions: true, apiKeys: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async get(tenantId: string) {
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { id: tenantId },
+      include: { _count: { select: { sessions: true, apiKeys: true } } },
+    });
+    if (!tenant) throw new NotFoundException(`Tenant "${tenantId}" not found`);
+    return tenant;
+  }
+
+  async create(dto: CreateTenantDto) {
+    await this.assertNameAvailable(dto.name);
+
+    const tenant = await this.prisma.tenant.create({
+      data: { name: dto.name, maxSessions: dto.maxSessions, webhookUrl: dto.webhookUrl },
+    });
+    this.logger.log(`Created tenant "${tenant.name}"`);
+    return tenant;
+  }
+
+  async update(tenantId: string, dto: UpdateTenantDto) {
+    const existing = await this.get(tenantId);
+    if (dto.name && dto.name !== existing.name) await this.assertNameAvailable(dto.name);
+
+    return this.prisma.tenant.update({
+      where: { id: tenantId },
+      data: { name: dto.name, maxSessions: dto.maxSessions, webhookUrl: dto.webhookUrl },
+    });
+  }
+
+  /**
+   * Delete a tenant and its API keys. Its sessions have to be deleted first.
+   */
+  async delete(tenantId: string) {
+    const tenant = await this.get(tenantId);
+    if (tenant._count.sessions > 0) {
+      throw new ConflictException(`Tenant "${tenant.name}" still owns ${tenant._count.sessions} session(s)`);
+    }
+
+    await this.prisma.tenant.delete({ where: { id: tenantId } });
+    this.logger.log(`Deleted tenant "${tenant.name}"`);
+    return { tenantId, status: 'deleted' };
+  }
+
+  /**
+   * Owner of a session: a tenant ID, null for sessions outside any tenant,
+   * or undefined when the session does not exist.
+   */
+  async getSessionTenant(sessionId: string): Promise<string | null | undefined> {
+    const session = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { tenantId: true },
+    });
+    return session ? session.tenantId : undefined;
+  }
+
+  private async assertNameAvailable(name: string) {
+    const existing = await this.prisma.tenant.findUnique({ where: { name } });
+    if (existing) throw new ConflictException(`Tenant "${name}" already exists`);
+  }
+}
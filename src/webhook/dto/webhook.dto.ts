@@ -0,0 +1,239 @@
+import { ApiProperty, ApiPropertyOptional, OmitType, PartialType } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsIn,
+  IsISO8601,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+  MinLength,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { CLOUD_EVENTS_MODES, WEBHOOK_PAYLOAD_FORMATS } from '../webhook-payload.js';
+
+export class CreateWebhookSubscriptionDto {
+  @ApiProperty({ description: 'Endpoint that receives webhook deliveries', example: 'https://crm.example.com/hooks/whatsapp' })
+  @IsUrl()
+  url!: string;
+
+  @ApiPropertyOptional({
+    description: 'Event names or wildcards to deliver (empty = all events)',
+    example: ['messages.*', 'connection'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @Matches(/^(\*|[a-zA-Z0-9_-]+(\.([a-zA-Z0-9_-]+|\*))*)$/, {
+    each: true,
+    message: 'Each event must be an event name, a namespace wildcard (e.g. messages.*) or *',
+  })
+  events?: string[];
+
+  @ApiPropertyOptional({ description: 'Whether deliveries are sent to this endpoint', default: true })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Deliver events of the same chat strictly in order, with a per-chat sequence number',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  ordered?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Aggregate events into batched deliveries (array payload). Batches wait in memory until sent, so events not yet sent are lost if the instance crashes',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  batchEnabled?: boolean;
+
+  @ApiPropertyOptional({ description: 'Maximum events per batch', default: 100 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  batchMaxEvents?: number;
+
+  @ApiPropertyOptional({ description: 'Maximum time an event waits in a batch (ms)', default: 2000 })
+  @IsOptional()
+  @IsInt()
+  @Min(100)
+  @Max(60000)
+  batchMaxWaitMs?: number;
+
+  @ApiPropertyOptional({ description: 'Maximum serialized size of a batch (bytes)', default: 524288 })
+  @IsOptional()
+  @IsInt()
+  @Min(1024)
+  @Max(5242880)
+  batchMaxBytes?: number;
+
+  @ApiPropertyOptional({
+    description: 'Request body format: native payload, CloudEvents 1.0, or a custom template',
+    enum: WEBHOOK_PAYLOAD_FORMATS,
+    default: 'native',
+  })
+  @IsOptional()
+  @IsIn(WEBHOOK_PAYLOAD_FORMATS)
+  payloadFormat?: string;
+
+  @ApiPropertyOptional({
+    description: 'CloudEvents content mode (batches always use the JSON batch format)',
+    enum: CLOUD_EVENTS_MODES,
+    default: 'structured',
+  })
+  @IsOptional()
+  @IsIn(CLOUD_EVENTS_MODES)
+  cloudEventsMode?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Template for the "template" format. Strings starting with $ are JSONPath lookups into the native payload; ' +
+      '{{ $.path }} placeholders are interpolated into other strings',
+    example: { phone: '$.data.messages[0].key.remoteJid', text: '$.data.messages[0].message.conversation' },
+  })
+  @IsOptional()
+  @IsObject()
+  payloadTemplate?: Record<string, unknown>;
+
+  @ApiPropertyOptional({
+    description: 'Static headers added to every delivery',
+    example: { Authorization: 'Bearer <token>' },
+  })
+  @IsOptional()
+  @IsObject()
+  headers?: Record<string, string>;
+
+  @ApiPropertyOptional({ description: 'Signing secret (generated when omitted; only returned on create and rotate)' })
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  secret?: string;
+}
+
+export class UpdateWebhookSubscriptionDto extends PartialType(
+  OmitType(CreateWebhookSubscriptionDto, ['secret'] as const),
+) {}
+
+export class RotateWebhookSecretDto {
+  @ApiPropertyOptional({
+    description: 'Minutes the previous secret keeps signing deliveries alongside the new one',
+    default: 1440,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10080)
+  gracePeriodMinutes?: number;
+}
+
+export class WebhookLogFilterDto {
+  @ApiPropertyOptional({ description: 'Only deliveries of this event', example: 'messages.upsert' })
+  @IsOptional()
+  @IsString()
+  event?: string;
+
+  @ApiPropertyOptional({ description: 'Only deliveries for this subscription' })
+  @IsOptional()
+  @IsString()
+  subscriptionId?: string;
+
+  @ApiPropertyOptional({ description: 'Only deliveries whose last response had this HTTP status', example: 503 })
+  @IsOptional()
+  @IsInt()
+  statusCode?: number;
+
+  @ApiPropertyOptional({ description: 'Logged at or after this time (ISO 8601)', example: '2026-01-01T00:00:00.000Z' })
+  @IsOptional()
+  @IsISO8601()
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'Logged before this time (ISO 8601)' })
+  @IsOptional()
+  @IsISO8601()
+  to?: string;
+}
+
+export class ListWebhookLogsDto extends WebhookLogFilterDto {
+  @ApiPropertyOptional({ description: 'Only successful (true) or failed (false) deliveries' })
+  @IsOptional()
+  @Transform(({ obj, key }: { obj: Record<string, unknown>; key: string }) =>
+    obj[key] === 'true' ? true : obj[key] === 'false' ? false : obj[key],
+  )
+  @IsBoolean()
+  success?: boolean;
+
+  @ApiPropertyOptional({ description: 'Limit', default: 50 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+
+  @ApiPropertyOptional({ description: 'Offset', default: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
+
+export class ListDeadLettersDto extends WebhookLogFilterDto {
+  @ApiPropertyOptional({ description: 'Limit', default: 50 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+
+  @ApiPropertyOptional({ description: 'Offset', default: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
+
+export class ReplayDeadLettersDto extends WebhookLogFilterDto {
+  @ApiPropertyOptional({ description: 'Maximum number of dead letters to replay (oldest first)', default: 1000 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10000)
+  limit?: number;
+}
+
+export class TestWebhookDto {
+  @ApiProperty({ description: 'Event name to simulate', example: 'messages.upsert' })
+  @IsString()
+  @IsNotEmpty()
+  event!: string;
+
+  @ApiPropertyOptional({ description: 'Send through this subscription (its URL, secret, format and headers)' })
+  @IsOptional()
+  @IsString()
+  subscriptionId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Send to this URL instead (defaults to the session webhook URL); must be the session webhook URL or a subscription URL of the session',
+  })
+  @IsOptional()
+  @IsUrl()
+  url?: string;
+
+  @ApiPropertyOptional({ description: 'Event data (defaults to a sample shaped like the Baileys event)' })
+  @IsOptional()
+  @IsObject()
+  data?: Record<string, unknown>;
+}
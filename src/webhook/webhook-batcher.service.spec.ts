@@ -0,0 +1,80 @@
+import { WebhookBatcher } from './webhook-batcher.service';
+
+describe('WebhookBatcher', () => {
+  const subscription = {
+    id: 'sub-1',
+    sessionId: 'session-1',
+    url: 'https://receiver.test/hook',
+    batchMaxEvents: 3,
+    batchMaxWaitMs: 1000,
+    batchMaxBytes: 1024 * 1024,
+  };
+
+  function createBatcher() {
+    const queueService = { addWebhookBatchJob: jest.fn().mockResolvedValue(undefined) };
+    const prisma = { webhookLog: { create: jest.fn().mockResolvedValue({}) } };
+    return { batcher: new WebhookBatcher(queueService as any, prisma as any), queueService, prisma };
+  }
+
+  afterEach(() => jest.useRealTimers());
+
+  it('queues a single batch once the event limit is reached', async () => {
+    const { batcher, queueService } = createBatcher();
+
+    await batcher.add(subscription as any, 'messages.upsert', { n: 1 });
+    await batcher.add(subscription as any, 'messages.upsert', { n: 2 });
+    expect(queueService.addWebhookBatchJob).not.toHaveBeenCalled();
+
+    await batcher.add(subscription as any, 'messages.update', { n: 3 });
+    expect(queueService.addWebhookBatchJob).toHaveBeenCalledTimes(1);
+    expect(queueService.addWebhookBatchJob).toHaveBeenCalledWith('session-1', subscription.url, 'sub-1', [
+      expect.objectContaining({ event: 'messages.upsert', data: { n: 1 } }),
+      expect.objectContaining({ event: 'messages.upsert', data: { n: 2 } }),
+      expect.objectContaining({ event: 'messages.update', data: { n: 3 } }),
+    ]);
+  });
+
+  it('flushes a partial batch after the maximum wait', async () => {
+    jest.useFakeTimers();
+    const { batcher, queueService } = createBatcher();
+
+    await batcher.add(subscription as any, 'connection', { status: 'open' });
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(queueService.addWebhookBatchJob).toHaveBeenCalledWith('session-1', subscription.url, 'sub-1', [
+      expect.objectContaining({ event: 'connection' }),
+    ]);
+  });
+
+  it('starts a new batch instead of exceeding the byte limit', async () => {
+    const { batcher, queueService } = createBatcher();
+    const small = { ...subscription, batchMaxBytes: 200 };
+
+    await batcher.add(small as any, 'messages.upsert', { text: 'x'.repeat(80) });
+    await batcher.add(small as any, 'messages.upsert', { text: 'y'.repeat(80) });
+
+    expect(queueService.addWebhookBatchJob).toHaveBeenCalledTimes(1);
+    expect(queueService.addWebhookBatchJob.mock.calls[0][3]).toHaveLength(1);
+    await batcher.onModuleDestroy();
+    expect(queueService.addWebhookBatchJob).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps a batch that cannot be queued as a dead letter', async () => {
+    const { batcher, queueService, prisma } = createBatcher();
+    queueService.addWebhookBatchJob.mockRejectedValue(new Error('Redis unavailable'));
+
+    await batcher.add(subscription as any, 'messages.upsert', { n: 1 });
+    await batcher.onModuleDestroy();
+
+    expect(prisma.webhookLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        sessionId: 'session-1',
+        subscriptionId: 'sub-1',
+        event: 'batch',
+        payload: [expect.objectContaining({ event: 'messages.upsert', data: { n: 1 } })],
+        eventCount: 1,
+        deadLetter: true,
+      }),
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import type { Prisma, WebhookSubscription } from '../generated/prisma/client/client.js';
+import { PrismaService } from '../prisma/prisma.service.js';
+import { QueueService, type WebhookBatchEvent } from '../queue/queue.service.js';
+
+interface PendingBatch {
+  sessionId: string;
+  subscriptionId: string;
+  url: string;
+  events: WebhookBatchEvent[];
+  bytes: number;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Aggregates events for batching subscriptions in memory and queues each batch
+ * as a single delivery once it reaches `batchMaxEvents`, `batchMaxBytes` or
+ * `batchMaxWaitMs`, whichever comes first. Pending batches are flushed on shutdown,
+ * but are lost if the process crashes. A batch that cannot be queued is stored as a
+ * dead letter, so it can be replayed.
+ */
+@Injectable()
+export class WebhookBatcher implements OnModuleDestroy {
+  private readonly logger = new Logger(WebhookBatcher.name);
+  private readonly batches = new Map<string, PendingBatch>();
+
+  constructor(
+    private readonly queueService: QueueService,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  async onModuleDestroy() {
+    await Promise.all([...this.batches.keys()].map((subscriptionId) => this.flush(subscriptionId)));
+  }
+
+  async add(subscription: WebhookSubscription, event: string, data: unknown) {
+    const entry: WebhookBatchEvent = { event, data, timestamp: new Date().toISOString() };
+    const size = Buffer.byteLength(JSON.stringify(entry));
+
+    // Send what is buffered first if this event would push the batch over its byte limit
+    const pending = this.batches.get(subscription.id);
+    if (pending && pending.bytes + size > subscription.batchMaxBytes) {
+      await this.flush(subscription.id);
+    }
+
+    let batch = this.batches.get(subscription.id);
+    if (!batch) {
+      batch = {
+        sessionId: subscription.sessionId,
+        subscriptionId: subscription.id,
+        url: subscription.url,
+        events: [],
+        bytes: 0,
+        timer: setTimeout(() => void this.flush(subscription.id), subscription.batchMaxWaitMs),
+      };
+      this.batches.set(subscription.id, batch);
+    }
+
+    batch.events.push(entry);
+    batch.bytes += size;
+
+    if (batch.events.length >= subscription.batchMaxEvents || batch.bytes >= subscription.batchMaxBytes) {
+      await this.flush(subscription.id);
+    }
+  }
+
+  private async flush(subscriptionId: string) {
+    const batch = this.batches.get(subscriptionId);
+    if (!batch) return;
+
+    clearTimeout(batch.timer);
+    this.batches.delete(subscriptionId);
+
+    try {
+      await this.queueService.addWebhookBatchJob(batch.sessionId, batch.url, batch.subscriptionId, batch.events);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.logger.error(
+        `Failed to queue webhook batch of ${batch.events.length} event(s) for ${batch.sessionId}, keeping it as a dead letter: ${message}`,
+      );
+      await this.deadLetter(batch, message);
+    }
+  }
+
+  // Logged like a batch whose deliveries all failed, so the dead letter replay sends it again
+  private async deadLetter(batch: PendingBatch, error: string) {
+    try {
+      await this.prisma.webhookLog.create({
+        data: {
+          sessionId: batch.sessionId,
+          subscriptionId: batch.subscriptionId,
+          event: 'batch',
+          url: batch.url,
+          payload: JSON.parse(JSON.stringify(batch.events)) as Prisma.InputJsonValue,
+          success: false,
+          error: `Batch could not be queued: ${error}`,
+          attempts: 0,
+          eventCount: batch.events.length,
+          deadLetter: true,
+        },
+      });
+    } catch (err: unknown) {
+      this.logger.error(
+        `Dropped webhook batch of ${batch.events.length} event(s) for ${batch.sessionId}: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { WebhookCircuitBreaker } from './webhook-circuit-breaker.service';
+
+describe('WebhookCircuitBreaker', () => {
+  const url = 'https://receiver.test/hook';
+
+  function createBreaker(circuit: Record<string, unknown> | null) {
+    const prisma = {
+      webhookCircuit: {
+        findUnique: jest.fn().mockResolvedValue(circuit),
+        upsert: jest.fn().mockResolvedValue(circuit),
+        update: jest.fn().mockResolvedValue(circuit),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+    const configService = {
+      get: jest.fn((key: string, fallback: unknown) =>
+        key === 'WEBHOOK_CIRCUIT_FAILURE_THRESHOLD' ? 3 : fallback,
+      ),
+    };
+    const eventEmitter = { emit: jest.fn() };
+
+    return {
+      breaker: new WebhookCircuitBreaker(prisma as any, configService as any, eventEmitter as any),
+      prisma,
+      eventEmitter,
+    };
+  }
+
+  it('opens the circuit and announces it once the failure threshold is reached', async () => {
+    const { breaker, prisma, eventEmitter } = createBreaker({
+      id: 'circuit-1',
+      state: 'closed',
+      consecutiveFailures: 3,
+    });
+
+    await breaker.recordFailure('session-1', url, 'Request failed with status code 503');
+
+    expect(prisma.webhookCircuit.update).toHaveBeenCalledWith({
+      where: { id: 'circuit-1' },
+      data: expect.objectContaining({ state: 'open', openedAt: expect.any(Date) }),
+    });
+    expect(eventEmitter.emit).toHaveBeenCalledWith(
+      'webhook.disabled',
+      expect.objectContaining({ sessionId: 'session-1', url, consecutiveFailures: 3 }),
+    );
+  });
+
+  it('parks deliveries until the next probe time', async () => {
+    const nextProbeAt = new Date(Date.now() + 60_000);
+    const { breaker, prisma } = createBreaker({ id: 'circuit-1', state: 'open', nextProbeAt });
+
+    await expect(breaker.beforeDelivery('session-1', url)).resolves.toEqual({
+      allowed: false,
+      retryAt: nextProbeAt,
+    });
+    expect(prisma.webhookCircuit.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('lets a single probe through once the probe time has passed', async () => {
+    const { breaker, prisma } = createBreaker({
+      id: 'circuit-1',
+      state: 'open',
+      nextProbeAt: new Date(Date.now() - 1000),
+    });
+
+    await expect(breaker.beforeDelivery('session-1', url)).resolves.toEqual({ allowed: true });
+
+    prisma.webhookCircuit.updateMany.mockResolvedValue({ count: 0 });
+    await expect(breaker.beforeDelivery('session-1', url)).resolves.toEqual(
+      expect.objectContaining({ allowed: false }),
+    );
+  });
+
+  it('closes the circuit and announces recovery after a successful probe', async () => {
+    const { breaker, prisma, eventEmitter } = createBreaker({
+      id: 'circuit-1',
+      state: 'half-open',
+      consecutiveFailures: 6,
+    });
+
+    await breaker.recordSuccess('session-1', url);
+
+    expect(prisma.webhookCircuit.update).toHaveBeenCalledWith({
+      where: { id: 'circuit-1' },
+      data: expect.objectContaining({ state: 'closed', consecutiveFailures: 0 }),
+    });
+    expect(eventEmitter.emit).toHaveBeenCalledWith('webhook.recovered', { sessionId: 'session-1', url });
+  });
+});
@@ -0,0 +1,144 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { PrismaService } from '../prisma/prisma.service.js';
+
+export type WebhookCircuitState = 'closed' | 'open' | 'half-open';
+
+export type CircuitDecision = { allowed: true } | { allowed: false; retryAt: Date };
+
+/**
+ * Per-endpoint circuit breaker for webhook deliveries, keyed by session and URL.
+ *
+ * After `WEBHOOK_CIRCUIT_FAILURE_THRESHOLD` consecutive failed attempts the circuit
+ * opens and deliveries are parked until the next probe. Once the probe time passes,
+ * one delivery is let through (half-open); its result closes or re-opens the circuit.
+ */
+@Injectable()
+export class WebhookCircuitBreaker {
+  private readonly logger = new Logger(WebhookCircuitBreaker.name);
+  private readonly failureThreshold: number;
+  private readonly probeIntervalMs: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {
+    this.failureThreshold = Number(this.configService.get('WEBHOOK_CIRCUIT_FAILURE_THRESHOLD', 5));
+    this.probeIntervalMs = Number(this.configService.get('WEBHOOK_CIRCUIT_PROBE_INTERVAL_MS', 60000));
+  }
+
+  async beforeDelivery(sessionId: string, url: string): Promise<CircuitDecision> {
+    const circuit = await this.prisma.webhookCircuit.findUnique({
+      where: { sessionId_url: { sessionId, url } },
+    });
+    if (!circuit || circuit.state === 'closed') return { allowed: true };
+
+    const now = new Date();
+    if (circuit.nextProbeAt && circuit.nextProbeAt > now) {
+      return { allowed: false, retryAt: circuit.nextProbeAt };
+    }
+
+    // Claim the probe; only one delivery wins when several wake up together
+    const nextProbeAt = new Date(now.getTime() + this.probeIntervalMs);
+    const claimed = await this.prisma.webhookCircuit.updateMany({
+      where: {
+        id: circuit.id,
+        state: { in: ['open', 'half-open'] },
+        OR: [{ nextProbeAt: null }, { nextProbeAt: { lte: now } }],
+      },
+      data: { state: 'half-open', nextProbeAt },
+    });
+
+    return claimed.count === 1 ? { allowed: true } : { allowed: false, retryAt: nextProbeAt };
+  }
+
+  async recordSuccess(sessionId: string, url: string) {
+    const circuit = await this.prisma.webhookCircuit.findUnique({
+      where: { sessionId_url: { sessionId, url } },
+    });
+    if (!circuit || (circuit.state === 'closed' && circuit.consecutiveFailures === 0)) return;
+
+    await this.close(circuit.id);
+
+    if (circuit.state !== 'closed') {
+      this.logger.log(`Webhook endpoint recovered: ${url} (session "${sessionId}")`);
+      this.eventEmitter.emit('webhook.recovered', { sessionId, url });
+    }
+  }
+
+  async recordFailure(sessionId: string, url: string, error: string) {
+    const circuit = await this.prisma.webhookCircuit.upsert({
+      where: { sessionId_url: { sessionId, url } },
+      create: { sessionId, url, consecutiveFailures: 1, lastError: error },
+      update: { consecutiveFailures: { increment: 1 }, lastError: error },
+    });
+
+    const state = circuit.state as WebhookCircuitState;
+    const shouldOpen =
+      state === 'half-open' ||
+      (state === 'closed' && circuit.consecutiveFailures >= this.failureThreshold);
+    if (!shouldOpen) return;
+
+    const nextProbeAt = new Date(Date.now() + this.probeIntervalMs);
+    await this.prisma.webhookCircuit.update({
+      where: { id: circuit.id },
+      data: {
+        state: 'open',
+        nextProbeAt,
+        openedAt: state === 'closed' ? new Date() : undefined,
+      },
+    });
+
+    // A failed probe keeps the endpoint disabled without announcing it again
+    if (state === 'closed') {
+      this.logger.warn(
+        `Webhook endpoint disabled after ${circuit.consecutiveFailures} failures: ${url} (session "${sessionId}")`,
+      );
+      this.eventEmitter.emit('webhook.disabled', {
+        sessionId,
+        url,
+        consecutiveFailures: circuit.consecutiveFailures,
+        lastError: error,
+        nextProbeAt,
+      });
+    }
+  }
+
+  async listCircuits(sessionId: string) {
+    return this.prisma.webhookCircuit.findMany({
+      where: { sessionId },
+      orderBy: { updatedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Close a circuit manually, e.g. after the receiver has been fixed.
+   */
+  async reset(sessionId: string, circuitId: string) {
+    const circuit = await this.prisma.webhookCircuit.findFirst({
+      where: { id: circuitId, sessionId },
+    });
+    if (!circuit) throw new NotFoundException(`Webhook circuit "${circuitId}" not found`);
+
+    const updated = await this.close(circuit.id);
+    if (circuit.state !== 'closed') {
+      this.eventEmitter.emit('webhook.recovered', { sessionId, url: circuit.url });
+    }
+    return updated;
+  }
+
+  private close(circuitId: string) {
+    return this.prisma.webhookCircuit.update({
+      where: { id: circuitId },
+      data: {
+        state: 'closed',
+        consecutiveFailures: 0,
+        lastError: null,
+        openedAt: null,
+        nextProbeAt: null,
+      },
+    });
+  }
+}
@@ -0,0 +1,24 @@
+import { matchesEventFilter } from './webhook-event-filter';
+
+describe('matchesEventFilter', () => {
+  it('matches every event when the filter is empty', () => {
+    expect(matchesEventFilter([], 'messages.upsert')).toBe(true);
+    expect(matchesEventFilter([], 'connection')).toBe(true);
+  });
+
+  it('matches exact event names only', () => {
+    expect(matchesEventFilter(['messages.upsert'], 'messages.upsert')).toBe(true);
+    expect(matchesEventFilter(['messages.upsert'], 'messages.update')).toBe(false);
+    expect(matchesEventFilter(['connection'], 'connection')).toBe(true);
+  });
+
+  it('matches namespace wildcards without leaking into similar prefixes', () => {
+    expect(matchesEventFilter(['messages.*'], 'messages.update')).toBe(true);
+    expect(matchesEventFilter(['messages.*'], 'message-receipt.update')).toBe(false);
+    expect(matchesEventFilter(['messages.*'], 'messages')).toBe(false);
+  });
+
+  it('matches everything with a global wildcard', () => {
+    expect(matchesEventFilter(['*'], 'group-participants.update')).toBe(true);
+  });
+});
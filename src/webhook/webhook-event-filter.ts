@@ -0,0 +1,15 @@
+/**
+ * Check whether an event name matches a subscription's event filter.
+ *
+ * Patterns are exact event names (`connection`, `messages.upsert`), a
+ * namespace wildcard (`messages.*`) or `*`. An empty filter matches every event.
+ */
+export function matchesEventFilter(patterns: string[], event: string): boolean {
+  if (patterns.length === 0) return true;
+
+  return patterns.some((pattern) => {
+    if (pattern === '*') return true;
+    if (pattern.endsWith('.*')) return event.startsWith(pattern.slice(0, -1));
+    return pattern === event;
+  });
+}
@@ -0,0 +1,45 @@
+import { resolveChatJid, splitByChat } from './webhook-lane';
+
+describe('resolveChatJid', () => {
+  const jid = '6281234567890@s.whatsapp.net';
+
+  it('uses the message key for message events', () => {
+    expect(resolveChatJid('messages.upsert', { messages: [{ key: { remoteJid: jid } }], type: 'notify' })).toBe(jid);
+    expect(resolveChatJid('messages.update', [{ key: { remoteJid: jid }, update: {} }])).toBe(jid);
+    expect(resolveChatJid('messages.delete', { keys: [{ remoteJid: jid }] })).toBe(jid);
+    expect(resolveChatJid('messages.status', { id: 'out-1', to: jid, status: 'read' })).toBe(jid);
+  });
+
+  it('uses the chat or group id for chat and group events', () => {
+    expect(resolveChatJid('chats.update', [{ id: jid }])).toBe(jid);
+    expect(resolveChatJid('group-participants.update', { id: '1203@g.us', participants: [] })).toBe('1203@g.us');
+  });
+
+  it('returns undefined for session-wide events', () => {
+    expect(resolveChatJid('connection', { status: 'open' })).toBeUndefined();
+    expect(resolveChatJid('messages.update', [])).toBeUndefined();
+  });
+});
+
+describe('splitByChat', () => {
+  const a = { key: { remoteJid: '111@s.whatsapp.net' } };
+  const b = { key: { remoteJid: '222@s.whatsapp.net' } };
+
+  it('splits events spanning several chats, keeping the order within each chat', () => {
+    expect(splitByChat('messages.upsert', { messages: [a, b, a], type: 'notify' })).toEqual([
+      { messages: [a, a], type: 'notify' },
+      { messages: [b], type: 'notify' },
+    ]);
+    expect(splitByChat('messages.update', [a, b])).toEqual([[a], [b]]);
+    expect(splitByChat('chats.delete', ['111@s.whatsapp.net', '222@s.whatsapp.net'])).toEqual([
+      ['111@s.whatsapp.net'],
+      ['222@s.whatsapp.net'],
+    ]);
+  });
+
+  it('leaves events of a single chat or none as they are', () => {
+    const upsert = { messages: [a, a], type: 'notify' };
+    expect(splitByChat('messages.upsert', upsert)[0]).toBe(upsert);
+    expect(splitByChat('connection', { status: 'open' })).toEqual([{ status: 'open' }]);
+  });
+});
@@ -0,0 +1,87 @@
+type Keyed = { key?: { remoteJid?: string | null } | null };
+
+/**
+ * Resolve the chat an event belongs to, used as the ordering lane for
+ * ordered webhook subscriptions. Events that are not tied to a single chat
+ * (connection, qr, labels, ...) return `undefined` and share a session-wide lane.
+ */
+export function resolveChatJid(event: string, data: unknown): string | undefined {
+  if (!data || typeof data !== 'object') return undefined;
+
+  switch (event) {
+    case 'messages.upsert':
+      return (data as { messages?: Keyed[] }).messages?.[0]?.key?.remoteJid ?? undefined;
+    case 'messages.update':
+    case 'messages.reaction':
+    case 'message-receipt.update':
+      return (data as Keyed[])[0]?.key?.remoteJid ?? undefined;
+    case 'messages.delete': {
+      const deletion = data as { keys?: Array<{ remoteJid?: string | null }>; jid?: string };
+      return deletion.jid ?? deletion.keys?.[0]?.remoteJid ?? undefined;
+    }
+    case 'messages.status':
+      return (data as { to?: string }).to;
+    case 'presence.update':
+      return (data as { id?: string }).id;
+    case 'chats.upsert':
+    case 'chats.update':
+    case 'groups.upsert':
+    case 'groups.update':
+      return (data as Array<{ id?: string | null }>)[0]?.id ?? undefined;
+    case 'chats.delete':
+      return (data as string[])[0];
+    case 'group-participants.update':
+      return (data as { id?: string }).id;
+    default:
+      return undefined;
+  }
+}
+
+function groupByChat<T>(items: T[], chatOf: (item: T) => string | null | undefined): T[][] {
+  const groups = new Map<string | null | undefined, T[]>();
+  for (const item of items) {
+    const chat = chatOf(item);
+    const group = groups.get(chat);
+    if (group) group.push(item);
+    else groups.set(chat, [item]);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Split an event that spans several chats into one payload per chat, keeping the
+ * order of items within each chat, so every part can go down its own lane.
+ * Events of a single chat (or none) come back as they are.
+ */
+export function splitByChat(event: string, data: unknown): unknown[] {
+  if (!data || typeof data !== 'object') return [data];
+
+  let parts: unknown[] | undefined;
+  switch (event) {
+    case 'messages.upsert': {
+      const upsert = data as { messages?: Keyed[] };
+      parts = groupByChat(upsert.messages ?? [], (m) => m.key?.remoteJid).map((messages) => ({ ...upsert, messages }));
+      break;
+    }
+    case 'messages.update':
+    case 'messages.reaction':
+    case 'message-receipt.update':
+      parts = Array.isArray(data) ? groupByChat(data as Keyed[], (item) => item.key?.remoteJid) : undefined;
+      break;
+    case 'messages.delete': {
+      const deletion = data as { keys?: Array<{ remoteJid?: string | null }>; jid?: string };
+      if (deletion.keys) parts = groupByChat(deletion.keys, (key) => key.remoteJid).map((keys) => ({ ...deletion, keys }));
+      break;
+    }
+    case 'chats.upsert':
+    case 'chats.update':
+    case 'groups.upsert':
+    case 'groups.update':
+      parts = Array.isArray(data) ? groupByChat(data as Array<{ id?: string | null }>, (item) => item.id) : undefined;
+      break;
+    case 'chats.delete':
+      parts = Array.isArray(data) ? (data as string[]).map((jid) => [jid]) : undefined;
+      break;
+  }
+  return parts && parts.length > 1 ? parts : [data];
+}
@@ -0,0 +1,86 @@
+import { formatWebhookRequest, renderPayloadTemplate, resolvePath } from './webhook-payload';
+
+describe('webhook payload formats', () => {
+  const payload = {
+    sessionId: 'session-1',
+    event: 'messages.upsert',
+    data: {
+      messages: [
+        {
+          key: { remoteJid: '6281234567890@s.whatsapp.net', id: 'message-1' },
+          pushName: 'Budi',
+          message: { conversation: 'hello' },
+        },
+      ],
+      type: 'notify',
+    },
+    timestamp: '2026-05-02T00:00:00.000Z',
+  };
+
+  it('sends the native payload unchanged', () => {
+    expect(formatWebhookRequest({ payloadFormat: 'native' }, payload, 'delivery-1')).toEqual({
+      body: payload,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  });
+
+  it('wraps events as structured CloudEvents', () => {
+    const request = formatWebhookRequest({ payloadFormat: 'cloudevents' }, payload, 'delivery-1');
+
+    expect(request.headers['Content-Type']).toBe('application/cloudevents+json');
+    expect(request.body).toEqual(
+      expect.objectContaining({
+        specversion: '1.0',
+        id: 'delivery-1',
+        source: '/sessions/session-1',
+        type: 'com.baileys.messages.upsert',
+        time: payload.timestamp,
+        subject: '6281234567890@s.whatsapp.net',
+        data: payload.data,
+      }),
+    );
+  });
+
+  it('moves CloudEvents attributes into ce- headers in binary mode', () => {
+    const request = formatWebhookRequest(
+      { payloadFormat: 'cloudevents', cloudEventsMode: 'binary' },
+      { ...payload, sequence: 7 },
+      'delivery-1',
+    );
+
+    expect(request.body).toEqual(payload.data);
+    expect(request.headers).toEqual(
+      expect.objectContaining({
+        'Content-Type': 'application/json',
+        'ce-specversion': '1.0',
+        'ce-id': 'delivery-1',
+        'ce-type': 'com.baileys.messages.upsert',
+        'ce-sequence': '7',
+      }),
+    );
+  });
+
+  it('renders a flattened template with typed lookups and interpolation', () => {
+    const template = {
+      phone: '$.data.messages[0].key.remoteJid',
+      text: "$.data.messages[0].message['conversation']",
+      summary: 'From {{ $.data.messages[0].pushName }} via {{$.sessionId}}',
+      source: 'whatsapp',
+      missing: '$.data.nothing',
+    };
+
+    expect(renderPayloadTemplate(template, payload)).toEqual({
+      phone: '6281234567890@s.whatsapp.net',
+      text: 'hello',
+      summary: 'From Budi via session-1',
+      source: 'whatsapp',
+      missing: undefined,
+    });
+  });
+
+  it('rejects malformed paths', () => {
+    expect(resolvePath(payload, '$..data')).toBeUndefined();
+    expect(resolvePath(payload, 'data.type')).toBeUndefined();
+    expect(resolvePath(payload, '$')).toBe(payload);
+  });
+});
@@ -0,0 +1,155 @@
+import { resolveChatJid } from './webhook-lane.js';
+
+export const WEBHOOK_PAYLOAD_FORMATS = ['native', 'cloudevents', 'template'] as const;
+export const CLOUD_EVENTS_MODES = ['structured', 'binary'] as const;
+
+export type WebhookPayloadFormat = (typeof WEBHOOK_PAYLOAD_FORMATS)[number];
+export type CloudEventsMode = (typeof CLOUD_EVENTS_MODES)[number];
+
+const CLOUD_EVENT_TYPE_PREFIX = 'com.baileys';
+
+export interface NativeWebhookPayload {
+  sessionId: string;
+  event: string;
+  data: unknown;
+  timestamp: string;
+  sequence?: number;
+}
+
+export interface PayloadFormatOptions {
+  payloadFormat: string;
+  cloudEventsMode?: string | null;
+  payloadTemplate?: unknown;
+}
+
+export interface FormattedWebhookRequest {
+  body: unknown;
+  headers: Record<string, string>;
+}
+
+interface CloudEvent {
+  specversion: string;
+  id: string;
+  source: string;
+  type: string;
+  time: string;
+  subject: string | undefined;
+  sequence: string | undefined;
+  datacontenttype: string;
+  data: unknown;
+}
+
+/**
+ * Convert the native payload (or an array of them for batches) into the
+ * request body and headers for a subscription's payload format.
+ */
+export function formatWebhookRequest(
+  options: PayloadFormatOptions,
+  payload: NativeWebhookPayload | NativeWebhookPayload[],
+  deliveryId: string,
+): FormattedWebhookRequest {
+  switch (options.payloadFormat as WebhookPayloadFormat) {
+    case 'cloudevents':
+      return formatCloudEvents(options.cloudEventsMode, payload, deliveryId);
+    case 'template': {
+      const render = (entry: NativeWebhookPayload) => renderPayloadTemplate(options.payloadTemplate, entry);
+      return {
+        body: Array.isArray(payload) ? payload.map(render) : render(payload),
+        headers: { 'Content-Type': 'application/json' },
+      };
+    }
+    default:
+      return { body: payload, headers: { 'Content-Type': 'application/json' } };
+  }
+}
+
+function formatCloudEvents(
+  mode: string | null | undefined,
+  payload: NativeWebhookPayload | NativeWebhookPayload[],
+  deliveryId: string,
+): FormattedWebhookRequest {
+  if (Array.isArray(payload)) {
+    return {
+      body: payload.map((entry, index) => toCloudEvent(entry, `${deliveryId}-${index}`)),
+      headers: { 'Content-Type': 'application/cloudevents-batch+json' },
+    };
+  }
+
+  const cloudEvent = toCloudEvent(payload, deliveryId);
+  if (mode !== 'binary') {
+    return { body: cloudEvent, headers: { 'Content-Type': 'application/cloudevents+json' } };
+  }
+
+  // Binary mode: attributes travel as ce-* headers, the body is the event data
+  const { data, datacontenttype, ...attributes } = cloudEvent;
+  const headers: Record<string, string> = { 'Content-Type': datacontenttype };
+  for (const [name, value] of Object.entries(attributes)) {
+    if (value !== undefined) headers[`ce-${name}`] = value;
+  }
+  return { body: data, headers };
+}
+
+function toCloudEvent(payload: NativeWebhookPayload, id: string): CloudEvent {
+  return {
+    specversion: '1.0',
+    id,
+    source: `/sessions/${payload.sessionId}`,
+    type: `${CLOUD_EVENT_TYPE_PREFIX}.${payload.event}`,
+    time: payload.timestamp,
+    subject: resolveChatJid(payload.event, payload.data),
+    // CloudEvents "sequence" extension, set for ordered subscriptions
+    sequence: payload.sequence !== undefined ? String(payload.sequence) : undefined,
+    datacontenttype: 'application/json',
+    data: payload.data,
+  };
+}
+
+/**
+ * Build a custom payload from a template. Strings that start with `$` are
+ * JSONPath-style lookups into the native payload (e.g. `$.data.messages[0].key.id`)
+ * and keep the value's type; `{{ $.path }}` placeholders inside other strings are
+ * interpolated. Objects and arrays are rendered recursively; everything else is copied.
+ */
+export function renderPayloadTemplate(template: unknown, source: unknown): unknown {
+  if (typeof template === 'string') {
+    if (template.startsWith('$')) return resolvePath(source, template);
+    return template.replace(/\{\{\s*(\$[^}]*?)\s*\}\}/g, (_match, path: string) => {
+      const value = resolvePath(source, path);
+      if (value === undefined || value === null) return '';
+      if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return String(value);
+      return JSON.stringify(value);
+    });
+  }
+  if (Array.isArray(template)) return template.map((item) => renderPayloadTemplate(item, source));
+  if (template && typeof template === 'object') {
+    return Object.fromEntries(
+      Object.entries(template).map(([key, value]) => [key, renderPayloadTemplate(value, source)]),
+    );
+  }
+  return template;
+}
+
+/**
+ * Resolve a JSONPath subset: `$`, `.key`, `[0]` and `['key']`.
+ */
+export function resolvePath(source: unknown, path: string): unknown {
+  if (!path.startsWith('$')) return undefined;
+
+  const segments: Array<string | number> = [];
+  const pattern = /\.([^.[\]]+)|\[(\d+)\]|\[['"]([^'"]+)['"]\]/g;
+  let consumed = 1;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(path)) !== null) {
+    if (match.index !== consumed) return undefined;
+    segments.push(match[2] !== undefined ? Number(match[2]) : (match[1] ?? match[3]));
+    consumed = match.index + match[0].length;
+  }
+  if (consumed !== path.length) return undefined;
+
+  let current: unknown = source;
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+  return current;
+}
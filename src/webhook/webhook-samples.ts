@@ -0,0 +1,61 @@
+const SAMPLE_JID = '6281234567890@s.whatsapp.net';
+const SAMPLE_GROUP_JID = '120363000000000000@g.us';
+const SAMPLE_KEY = { remoteJid: SAMPLE_JID, fromMe: false, id: 'TEST0000000000000000' };
+
+/**
+ * Sample `data` for test deliveries, shaped like the Baileys event it stands for.
+ * Unknown events get a generic marker object.
+ */
+export function buildSampleEventData(event: string): unknown {
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  switch (event) {
+    case 'qr':
+      return { qr: 'data:image/png;base64,iVBORw0KGgo=' };
+    case 'connection':
+      return { status: 'open', user: { id: '6280000000000:1@s.whatsapp.net', name: 'Test' } };
+    case 'messages.upsert':
+      return {
+        type: 'notify',
+        messages: [
+          {
+            key: SAMPLE_KEY,
+            pushName: 'Test Contact',
+            messageTimestamp: timestamp,
+            message: { conversation: 'This is a test message' },
+          },
+        ],
+      };
+    case 'messages.update':
+      return [{ key: SAMPLE_KEY, update: { status: 3 } }];
+    case 'messages.status':
+      return { id: 'cm0000000000000000000000', messageId: '3EB0000000000000000000', to: SAMPLE_JID, status: 'delivered' };
+    case 'messages.delete':
+      return { keys: [SAMPLE_KEY] };
+    case 'messages.reaction':
+      return [{ key: SAMPLE_KEY, reaction: { key: SAMPLE_KEY, text: '👍' } }];
+    case 'message-receipt.update':
+      return [{ key: SAMPLE_KEY, receipt: { userJid: SAMPLE_JID, readTimestamp: timestamp } }];
+    case 'presence.update':
+      return { id: SAMPLE_JID, presences: { [SAMPLE_JID]: { lastKnownPresence: 'composing' } } };
+    case 'chats.upsert':
+    case 'chats.update':
+      return [{ id: SAMPLE_JID, unreadCount: 1, conversationTimestamp: timestamp }];
+    case 'chats.delete':
+      return [SAMPLE_JID];
+    case 'contacts.upsert':
+    case 'contacts.update':
+      return [{ id: SAMPLE_JID, notify: 'Test Contact' }];
+    case 'groups.upsert':
+    case 'groups.update':
+      return [{ id: SAMPLE_GROUP_JID, subject: 'Test Group' }];
+    case 'group-participants.update':
+      return { id: SAMPLE_GROUP_JID, participants: [SAMPLE_JID], action: 'add' };
+    case 'labels.edit':
+      return { id: '1', name: 'Test Label', color: 0, deleted: false };
+    case 'labels.association':
+      return { type: 'add', association: { type: 'chat', chatId: SAMPLE_JID, labelId: '1' } };
+    default:
+      return { test: true };
+  }
+}
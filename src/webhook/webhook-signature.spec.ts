@@ -0,0 +1,47 @@
+import { buildSignatureHeader, verifyWebhookSignature } from './webhook-signature';
+
+describe('webhook signatures', () => {
+  const rawBody = JSON.stringify({ sessionId: 'session-1', event: 'connection', data: {} });
+  const now = 1_800_000_000;
+
+  function headersFor(secrets: string[], timestamp = now, deliveryId = 'delivery-1') {
+    return {
+      'X-Webhook-Id': deliveryId,
+      'X-Webhook-Timestamp': String(timestamp),
+      'X-Webhook-Signature': buildSignatureHeader(secrets, deliveryId, timestamp, rawBody),
+    };
+  }
+
+  it('accepts a payload signed with the receiver secret', () => {
+    expect(
+      verifyWebhookSignature({ rawBody, headers: headersFor(['secret-a']), secrets: 'secret-a', now }),
+    ).toBe(true);
+  });
+
+  it('accepts either secret while a rotation is in progress', () => {
+    const headers = headersFor(['secret-new', 'secret-old']);
+
+    expect(verifyWebhookSignature({ rawBody, headers, secrets: 'secret-old', now })).toBe(true);
+    expect(verifyWebhookSignature({ rawBody, headers, secrets: 'secret-new', now })).toBe(true);
+  });
+
+  it('rejects a tampered body or delivery id', () => {
+    const headers = headersFor(['secret-a']);
+
+    expect(verifyWebhookSignature({ rawBody: `${rawBody} `, headers, secrets: 'secret-a', now })).toBe(false);
+    expect(
+      verifyWebhookSignature({
+        rawBody,
+        headers: { ...headers, 'X-Webhook-Id': 'delivery-2' },
+        secrets: 'secret-a',
+        now,
+      }),
+    ).toBe(false);
+  });
+
+  it('rejects replays outside the tolerance window', () => {
+    const headers = headersFor(['secret-a'], now - 301);
+
+    expect(verifyWebhookSignature({ rawBody, headers, secrets: 'secret-a', now })).toBe(false);
+  });
+});
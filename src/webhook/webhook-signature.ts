@@ -0,0 +1,97 @@
+import * as crypto from 'crypto';
+
+/**
+ * Webhook signing scheme (v1).
+ *
+ * Every delivery carries three headers:
+ * - `x-webhook-id`: delivery ID, stable across retries of the same delivery
+ * - `x-webhook-timestamp`: UNIX time (seconds) the request was sent
+ * - `x-webhook-signature`: space-separated `v1=<hex>` entries, one per active secret
+ *
+ * Each signature is `HMAC-SHA256(secret, "<id>.<timestamp>.<raw body>")`. During a
+ * secret rotation two entries are sent, so receivers can verify with either key.
+ *
+ * This file has no framework dependencies so receivers can reuse
+ * `verifyWebhookSignature` as-is.
+ */
+
+export const WEBHOOK_ID_HEADER = 'x-webhook-id';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-webhook-timestamp';
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+
+const SIGNATURE_VERSION = 'v1';
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+export function signWebhookPayload(
+  secret: string,
+  deliveryId: string,
+  timestamp: number,
+  rawBody: string,
+): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${deliveryId}.${timestamp}.${rawBody}`)
+    .digest('hex');
+}
+
+export function buildSignatureHeader(
+  secrets: string[],
+  deliveryId: string,
+  timestamp: number,
+  rawBody: string,
+): string {
+  return secrets
+    .map((secret) => `${SIGNATURE_VERSION}=${signWebhookPayload(secret, deliveryId, timestamp, rawBody)}`)
+    .join(' ');
+}
+
+export interface VerifyWebhookSignatureOptions {
+  /** Raw request body exactly as received (before JSON parsing) */
+  rawBody: string;
+  /** Request headers; header names are matched case-insensitively */
+  headers: Record<string, string | string[] | undefined>;
+  /** One or more secrets to accept (e.g. current and previous during rotation) */
+  secrets: string | string[];
+  /** Maximum allowed clock difference in seconds (default: 300) */
+  toleranceSeconds?: number;
+  /** Current UNIX time in seconds, for testing */
+  now?: number;
+}
+
+/**
+ * Verify a webhook request signed with the v1 scheme.
+ * Returns `false` for missing headers, stale timestamps or signature mismatches.
+ */
+export function verifyWebhookSignature(options: VerifyWebhookSignatureOptions): boolean {
+  const deliveryId = getHeader(options.headers, WEBHOOK_ID_HEADER);
+  const timestampHeader = getHeader(options.headers, WEBHOOK_TIMESTAMP_HEADER);
+  const signatureHeader = getHeader(options.headers, WEBHOOK_SIGNATURE_HEADER);
+  if (!deliveryId || !timestampHeader || !signatureHeader) return false;
+
+  const timestamp = Number(timestampHeader);
+  if (!Number.isInteger(timestamp)) return false;
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const tolerance = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  if (Math.abs(now - timestamp) > tolerance) return false;
+
+  const received = signatureHeader
+    .split(/[\s,]+/)
+    .filter((entry) => entry.startsWith(`${SIGNATURE_VERSION}=`))
+    .map((entry) => Buffer.from(entry.slice(SIGNATURE_VERSION.length + 1), 'hex'));
+
+  const secrets = Array.isArray(options.secrets) ? options.secrets : [options.secrets];
+
+  return secrets.some((secret) => {
+    const expected = Buffer.from(signWebhookPayload(secret, deliveryId, timestamp, options.rawBody), 'hex');
+    return received.some(
+      (signature) => signature.length === expected.length && crypto.timingSafeEqual(signature, expected),
+    );
+  });
+}
+
+function getHeader(headers: Record<string, string | string[] | undefined>, name: string): string | undefined {
+  const key = Object.keys(headers).find((header) => header.toLowerCase() === name);
+  const value = key ? headers[key] : undefined;
+  return Array.isArray(value) ? value[0] : value;
+}
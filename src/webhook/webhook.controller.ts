@@ -0,0 +1,163 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  Query,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiSecurity, ApiParam } from '@nestjs/swagger';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator.js';
+import { WebhookService } from './webhook.service.js';
+import { WebhookCircuitBreaker } from './webhook-circuit-breaker.service.js';
+import {
+  CreateWebhookSubscriptionDto,
+  UpdateWebhookSubscriptionDto,
+  RotateWebhookSecretDto,
+  ListWebhookLogsDto,
+  ListDeadLettersDto,
+  ReplayDeadLettersDto,
+  TestWebhookDto,
+} from './dto/webhook.dto.js';
+
+@ApiTags('Webhook')
+@ApiSecurity('x-api-key')
+@RequireScopes('webhooks:admin')
+@Controller('sessions/:sessionId/webhooks')
+export class WebhookController {
+  constructor(
+    private readonly webhookService: WebhookService,
+    private readonly circuitBreaker: WebhookCircuitBreaker,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List webhook subscriptions for a session' })
+  @ApiParam({ name: 'sessionId', description: 'Session ID' })
+  list(@Param('sessionId') sessionId: string) {
+    return this.webhookService.listSubscriptions(sessionId);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a webhook subscription with an event filter' })
+  @ApiParam({ name: 'sessionId', description: 'Session ID' })
+  create(@Param('sessionId') sessionId: string, @Body() dto: CreateWebhookSubscriptionDto) {
+    return this.webhookService.createSubscription(sessionId, dto);
+  }
+
+  @Post('test')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Send a sample event through the delivery pipeline and return the result' })
+  @ApiParam({ name: 'sessionId', description: 'Session ID' })
+  sendTest(@Param('sessionId') sessionId: string, @Body() dto: TestWebhookDto) {
+    return this.webhookService.sendTest(sessionId, dto);
+  }
+
+  @Get(':subscriptionId')
+  @ApiOperation({ summary: 'Get a webhook subscription' })
+  @ApiParam({ name: 'sessionId', description: 'Session ID' })
+  @ApiParam({ name: 'subscriptionId', description: 'Webhook subscription ID' })
+  get(@Param('sessionId') sessionId: string, @Param('subscriptionId') subscriptionId: string) {
+    return this.webhookService.getSubscription(sessionId, subscriptionId);
+  }
+
+  @Patch(':subscriptionId')
+  @ApiOperation({ summary: 'Update a webhook subscription (URL, events, enabled)' })
+  @ApiParam({ name: 'sessionId', description: 'Session ID' })
+  @ApiParam({ name: 'subscriptionId', description: 'Webhook subscription ID' })
+  update(
+    @Param('sessionId') sessionId: string,
+    @Param('subscriptionId') subscriptionId: string,
+    @Body() dto: UpdateWebhookSubscriptionDto,
+  ) {
+    return this.webhookService.updateSubscription(sessionId, subscriptionId, dto);
+  }
+
+  @Post(':subscriptionId/rotate-secret')
+  @ApiOperation({ summary: 'Rotate the signing secret (previous secret stays valid for a grace period)' })
+  @ApiParam({ name: 'sessionId', description: 'Session ID' })
+  @ApiParam({ name: 'subscriptionId', description: 'Webhook subscription ID' })
+  rotateSecret(
+    @Param('sessionId') sessionId: string,
+    @Param('subscriptionId') subscriptionId: string,
+    @Body() dto: RotateWebhookSecretDto,
+  ) {
+    return this.webhookService.rotateSecret(sessionId, subscriptionId, dto);
+  }
+
+  @Delete(':subscriptionId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete a webhook subscription' })
+  @ApiParam({ name: 'sessionId', description: 'Session ID' })
+  @ApiParam({ name: 'subscriptionId', description: 'Webhook subscription ID' })
+  delete(@Param('sessionId') sessionId: string, @Param('subscriptionId') subscriptionId: string) {
+    return this.webhookService.deleteSubscription(sessionId, subscriptionId);
+  }
+
+  // === Delivery Logs ===
+
+  @Get('logs')
+  @RequireScopes('read-only', 'webhooks:admin')
+  @ApiOperation({ summary: 'Get webhook delivery logs, filtered by event, result, status code and time range' })
+  @ApiParam({ name: 'sessionId', description: 'Session ID' })
+  listLogs(@Param('sessionId') sessionId: string, @Query() query: ListWebhookLogsDto) {
+    return this.webhookService.listLogs(sessionId, query);
+  }
+
+  @Get('logs/:logId')
+  @RequireScopes('read-only', 'webhooks:admin')
+  @ApiOperation({ summary: 'Get one delivery log with request headers and response body' })
+  @ApiParam({ name: 'sessionId', description: 'Session ID' })
+  @ApiParam({ name: 'logId', description: 'Webhook log ID' })
+  getLog(@Param('sessionId') sessionId: string, @Param('logId') logId: string) {
+    return this.webhookService.getLog(sessionId, logId);
+  }
+
+  // === Dead Letters ===
+
+  @Get('dead-letters')
+  @RequireScopes('read-only', 'webhooks:admin')
+  @ApiOperation({ summary: 'List deliveries that permanently failed after all retries' })
+  @ApiParam({ name: 'sessionId', description: 'Session ID' })
+  listDeadLetters(@Param('sessionId') sessionId: string, @Query() query: ListDeadLettersDto) {
+    return this.webhookService.listDeadLetters(sessionId, query);
+  }
+
+  @Post('dead-letters/replay')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Re-deliver dead letters matching a filter (event, status code, time range)' })
+  @ApiParam({ name: 'sessionId', description: 'Session ID' })
+  replayDeadLetters(@Param('sessionId') sessionId: string, @Body() dto: ReplayDeadLettersDto) {
+    return this.webhookService.replayDeadLetters(sessionId, dto);
+  }
+
+  @Post('dead-letters/:logId/replay')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Re-deliver a single dead letter' })
+  @ApiParam({ name: 'sessionId', description: 'Session ID' })
+  @ApiParam({ name: 'logId', description: 'Webhook log ID of the dead letter' })
+  replayDeadLetter(@Param('sessionId') sessionId: string, @Param('logId') logId: string) {
+    return this.webhookService.replayDeadLetter(sessionId, logId);
+  }
+
+  // === Circuit Breakers ===
+
+  @Get('circuits')
+  @RequireScopes('read-only', 'webhooks:admin')
+  @ApiOperation({ summary: 'Get circuit breaker state per webhook endpoint' })
+  @ApiParam({ name: 'sessionId', description: 'Session ID' })
+  listCircuits(@Param('sessionId') sessionId: string) {
+    return this.circuitBreaker.listCircuits(sessionId);
+  }
+
+  @Post('circuits/:circuitId/reset')
+  @ApiOperation({ summary: 'Close a circuit manually and resume deliveries' })
+  @ApiParam({ name: 'sessionId', description: 'Session ID' })
+  @ApiParam({ name: 'circuitId', description: 'Webhook circuit ID' })
+  resetCircuit(@Param('sessionId') sessionId: string, @Param('circuitId') circuitId: string) {
+    return this.circuitBreaker.reset(sessionId, circuitId);
+  }
+}
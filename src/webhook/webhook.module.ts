@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { WebhookService } from './webhook.service.js';
+import { WebhookController } from './webhook.controller.js';
+import { WebhookCircuitBreaker } from './webhook-circuit-breaker.service.js';
+import { WebhookBatcher } from './webhook-batcher.service.js';
+
+@Module({
+  providers: [WebhookService, WebhookCircuitBreaker, WebhookBatcher],
+  controllers: [WebhookController],
+  exports: [WebhookService, WebhookCircuitBreaker],
+})
+export class WebhookModule {}
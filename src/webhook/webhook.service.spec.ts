@@ -0,0 +1,179 @@
+import { BadRequestException } from '@nestjs/common';
+import { WebhookService } from './webhook.service';
+
+describe('WebhookService', () => {
+  function createService(subscriptions: Array<Record<string, unknown>>) {
+    const prisma = {
+      webhookSubscription: {
+        findMany: jest.fn().mockResolvedValue(subscriptions),
+      },
+    };
+    const queueService = {
+      addWebhookDeliveryJob: jest.fn().mockResolvedValue(undefined),
+    };
+    const batcher = {
+      add: jest.fn().mockResolvedValue(undefined),
+    };
+    const clusterService = {
+      subscribe: jest.fn(),
+      publish: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const service = new WebhookService(prisma as any, queueService as any, batcher as any, clusterService as any);
+    service.onModuleInit();
+    return { service, prisma, queueService, batcher, clusterService };
+  }
+
+  it('queues deliveries only for subscriptions whose filter matches the event', async () => {
+    const { service, queueService } = createService([
+      { id: 'crm', url: 'https://crm.test/hook', events: ['messages.upsert'] },
+      { id: 'monitoring', url: 'https://monitor.test/hook', events: ['connection'] },
+      { id: 'firehose', url: 'https://all.test/hook', events: [] },
+    ]);
+
+    await service.dispatch('session-1', 'messages.upsert', { ok: true });
+
+    expect(queueService.addWebhookDeliveryJob).toHaveBeenCalledTimes(2);
+    expect(queueService.addWebhookDeliveryJob).toHaveBeenCalledWith(
+      'session-1',
+      'https://crm.test/hook',
+      'messages.upsert',
+      { ok: true },
+      'crm',
+    );
+    expect(queueService.addWebhookDeliveryJob).toHaveBeenCalledWith(
+      'session-1',
+      'https://all.test/hook',
+      'messages.upsert',
+      { ok: true },
+      'firehose',
+    );
+  });
+
+  it('splits events of ordered subscriptions into one lane per chat', async () => {
+    const { service, queueService } = createService([
+      { id: 'sub-1', url: 'https://crm.test/hook', events: [], ordered: true },
+    ]);
+    const first = { key: { remoteJid: '111@s.whatsapp.net', id: 'a' } };
+    const second = { key: { remoteJid: '222@s.whatsapp.net', id: 'b' } };
+    const third = { key: { remoteJid: '111@s.whatsapp.net', id: 'c' } };
+
+    await service.dispatch('session-1', 'messages.upsert', { messages: [first, second, third], type: 'notify' });
+
+    expect(queueService.addWebhookDeliveryJob).toHaveBeenCalledTimes(2);
+    expect(queueService.addWebhookDeliveryJob).toHaveBeenCalledWith(
+      'session-1',
+      'https://crm.test/hook',
+      'messages.upsert',
+      { messages: [first, third], type: 'notify' },
+      'sub-1',
+      'sub-1:111@s.whatsapp.net',
+    );
+    expect(queueService.addWebhookDeliveryJob).toHaveBeenCalledWith(
+      'session-1',
+      'https://crm.test/hook',
+      'messages.upsert',
+      { messages: [second], type: 'notify' },
+      'sub-1',
+      'sub-1:222@s.whatsapp.net',
+    );
+  });
+
+  it('keeps delivering every event to the session-level webhook URL', async () => {
+    const { service, queueService } = createService([]);
+
+    await service.dispatch('session-1', 'presence.update', {}, 'https://legacy.test/hook');
+
+    expect(queueService.addWebhookDeliveryJob).toHaveBeenCalledWith(
+      'session-1',
+      'https://legacy.test/hook',
+      'presence.update',
+      {},
+    );
+  });
+
+  it('caches enabled subscriptions until invalidated', async () => {
+    const { service, prisma } = createService([]);
+
+    await service.dispatch('session-1', 'connection', {});
+    await service.dispatch('session-1', 'connection', {});
+    expect(prisma.webhookSubscription.findMany).toHaveBeenCalledTimes(1);
+
+    service.invalidate('session-1');
+    await service.dispatch('session-1', 'connection', {});
+    expect(prisma.webhookSubscription.findMany).toHaveBeenCalledTimes(2);
+  });
+
+  it('tells other replicas to drop their cache and drops it when they do', async () => {
+    const { service, prisma, clusterService } = createService([]);
+
+    service.invalidate('session-1');
+    expect(clusterService.publish).toHaveBeenCalledWith('webhook-subscriptions-changed', { sessionId: 'session-1' });
+
+    await service.dispatch('session-1', 'connection', {});
+    const [[channel, onChanged]] = clusterService.subscribe.mock.calls as [[string, (payload: unknown) => void]];
+    expect(channel).toBe('webhook-subscriptions-changed');
+    onChanged({ sessionId: 'session-1' });
+    await service.dispatch('session-1', 'connection', {});
+    expect(prisma.webhookSubscription.findMany).toHaveBeenCalledTimes(2);
+  });
+
+  it('reloads cached subscriptions after a minute even without an invalidation', async () => {
+    const { service, prisma } = createService([]);
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+
+    await service.dispatch('session-1', 'connection', {});
+    now.mockReturnValue(1_000_000 + 60_000);
+    await service.dispatch('session-1', 'connection', {});
+    expect(prisma.webhookSubscription.findMany).toHaveBeenCalledTimes(2);
+    now.mockRestore();
+  });
+
+  it('hands events for batching subscriptions to the batcher instead of queueing them', async () => {
+    const subscription = { id: 'bulk', url: 'https://bulk.test/hook', events: [], batchEnabled: true };
+    const { service, queueService, batcher } = createService([subscription]);
+
+    await service.dispatch('session-1', 'messages.upsert', { ok: true });
+
+    expect(batcher.add).toHaveBeenCalledWith(subscription, 'messages.upsert', { ok: true });
+    expect(queueService.addWebhookDeliveryJob).not.toHaveBeenCalled();
+  });
+
+  it('sends a sample test event and returns the resulting delivery log', async () => {
+    const log = { id: 'log-1', deliveryId: 'job-7', success: true, statusCode: 200 };
+    const prisma = {
+      session: { findUnique: jest.fn().mockResolvedValue({ id: 'session-1', webhookUrl: 'https://legacy.test/hook' }) },
+      webhookLog: { findFirst: jest.fn().mockResolvedValue(log) },
+    };
+    const queueService = { runWebhookTestDelivery: jest.fn().mockResolvedValue('job-7') };
+    const service = new WebhookService(prisma as any, queueService as any, {} as any, {} as any);
+
+    await expect(service.sendTest('session-1', { event: 'messages.upsert' })).resolves.toBe(log);
+    expect(queueService.runWebhookTestDelivery).toHaveBeenCalledWith(
+      expect.objectContaining({
+        webhookUrl: 'https://legacy.test/hook',
+        event: 'messages.upsert',
+        data: expect.objectContaining({ type: 'notify' }),
+      }),
+      expect.any(Number),
+    );
+    expect(prisma.webhookLog.findFirst).toHaveBeenCalledWith({ where: { sessionId: 'session-1', deliveryId: 'job-7' } });
+  });
+
+  it('refuses test deliveries to URLs not configured for the session', async () => {
+    const prisma = {
+      session: { findUnique: jest.fn().mockResolvedValue({ id: 'session-1', webhookUrl: 'https://legacy.test/hook' }) },
+      webhookSubscription: { count: jest.fn().mockResolvedValue(0) },
+    };
+    const queueService = { runWebhookTestDelivery: jest.fn() };
+    const service = new WebhookService(prisma as any, queueService as any, {} as any, {} as any);
+
+    await expect(
+      service.sendTest('session-1', { event: 'messages.upsert', url: 'http://169.254.169.254/latest/meta-data' }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.webhookSubscription.count).toHaveBeenCalledWith({
+      where: { sessionId: 'session-1', url: 'http://169.254.169.254/latest/meta-data' },
+    });
+    expect(queueService.runWebhookTestDelivery).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,470 @@
+import {
+  BadRequestException,
+  GatewayTimeoutException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import * as crypto from 'crypto';
+import type { Prisma, WebhookLog, WebhookSubscription } from '../generated/prisma/client/client.js';
+import { PrismaService } from '../prisma/prisma.service.js';
+import { ClusterService } from '../cluster/cluster.service.js';
+import {
+  QueueService,
+  type WebhookBatchEvent,
+  type WebhookReplayEntry,
+} from '../queue/queue.service.js';
+import { matchesEventFilter } from './webhook-event-filter.js';
+import { resolveChatJid, splitByChat } from './webhook-lane.js';
+import { buildSampleEventData } from './webhook-samples.js';
+import { WebhookBatcher } from './webhook-batcher.service.js';
+import { WEBHOOK_ID_HEADER, WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER } from './webhook-signature.js';
+import {
+  CreateWebhookSubscriptionDto,
+  UpdateWebhookSubscriptionDto,
+  RotateWebhookSecretDto,
+  WebhookLogFilterDto,
+  ListWebhookLogsDto,
+  ListDeadLettersDto,
+  ReplayDeadLettersDto,
+  TestWebhookDto,
+} from './dto/webhook.dto.js';
+
+type DeadLetter = WebhookLog & { subscription: WebhookSubscription | null };
+
+// Secrets are only returned when they are created or rotated
+const OMIT_SECRETS = { secret: true, previousSecret: true } as const;
+
+// Headers the delivery pipeline sets itself; custom headers may not override them
+const RESERVED_HEADERS = [
+  'content-type',
+  'content-length',
+  'host',
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+];
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+// Cached subscriptions are reloaded after this long even if an invalidation from another replica got lost
+const SUBSCRIPTION_CACHE_TTL_MS = 60_000;
+const INVALIDATE_CHANNEL = 'webhook-subscriptions-changed';
+
+// Test deliveries are answered synchronously; the processor's own request timeout is 15s
+const TEST_DELIVERY_TIMEOUT_MS = 20_000;
+
+function generateSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+@Injectable()
+export class WebhookService implements OnModuleInit {
+  private readonly logger = new Logger(WebhookService.name);
+  // Enabled subscriptions per session, loaded lazily and dropped on every change, on
+  // every replica. The pending promise is cached so concurrent dispatches keep their event order.
+  private readonly subscriptionCache = new Map<string, { subscriptions: Promise<WebhookSubscription[]>; expiresAt: number }>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly queueService: QueueService,
+    private readonly batcher: WebhookBatcher,
+    private readonly clusterService: ClusterService,
+  ) {}
+
+  onModuleInit() {
+    this.clusterService.subscribe<{ sessionId: string }>(INVALIDATE_CHANNEL, ({ sessionId }) => {
+      this.subscriptionCache.delete(sessionId);
+    });
+  }
+
+  async listSubscriptions(sessionId: string) {
+    await this.ensureSession(sessionId);
+
+    return this.prisma.webhookSubscription.findMany({
+      where: { sessionId },
+      omit: OMIT_SECRETS,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async getSubscription(sessionId: string, subscriptionId: string) {
+    const subscription = await this.prisma.webhookSubscription.findFirst({
+      where: { id: subscriptionId, sessionId },
+      omit: OMIT_SECRETS,
+    });
+    if (!subscription) {
+      throw new NotFoundException(`Webhook subscription "${subscriptionId}" not found`);
+    }
+    return subscription;
+  }
+
+  async createSubscription(sessionId: string, dto: CreateWebhookSubscriptionDto) {
+    await this.ensureSession(sessionId);
+    this.assertDeliveryMode(dto.ordered, dto.batchEnabled);
+    this.assertPayloadFormat(dto.payloadFormat, dto.cloudEventsMode, dto.payloadTemplate, dto.batchEnabled);
+    if (dto.headers) this.assertHeaders(dto.headers);
+
+    const subscription = await this.prisma.webhookSubscription.create({
+      data: {
+        sessionId,
+        url: dto.url,
+        events: dto.events ?? [],
+        enabled: dto.enabled ?? true,
+        ordered: dto.ordered ?? false,
+        batchEnabled: dto.batchEnabled ?? false,
+        batchMaxEvents: dto.batchMaxEvents,
+        batchMaxWaitMs: dto.batchMaxWaitMs,
+        batchMaxBytes: dto.batchMaxBytes,
+        payloadFormat: dto.payloadFormat,
+        cloudEventsMode: dto.cloudEventsMode,
+        payloadTemplate: dto.payloadTemplate as Prisma.InputJsonValue | undefined,
+        headers: dto.headers,
+        secret: dto.secret ?? generateSecret(),
+      },
+      omit: { previousSecret: true },
+    });
+
+    this.invalidate(sessionId);
+    return subscription;
+  }
+
+  async updateSubscription(sessionId: string, subscriptionId: string, dto: UpdateWebhookSubscriptionDto) {
+    const existing = await this.getSubscription(sessionId, subscriptionId);
+    this.assertDeliveryMode(dto.ordered ?? existing.ordered, dto.batchEnabled ?? existing.batchEnabled);
+    this.assertPayloadFormat(
+      dto.payloadFormat ?? existing.payloadFormat,
+      dto.cloudEventsMode ?? existing.cloudEventsMode,
+      dto.payloadTemplate ?? existing.payloadTemplate,
+      dto.batchEnabled ?? existing.batchEnabled,
+    );
+    if (dto.headers) this.assertHeaders(dto.headers);
+
+    const subscription = await this.prisma.webhookSubscription.update({
+      where: { id: subscriptionId },
+      data: {
+        url: dto.url,
+        events: dto.events,
+        enabled: dto.enabled,
+        ordered: dto.ordered,
+        batchEnabled: dto.batchEnabled,
+        batchMaxEvents: dto.batchMaxEvents,
+        batchMaxWaitMs: dto.batchMaxWaitMs,
+        batchMaxBytes: dto.batchMaxBytes,
+        payloadFormat: dto.payloadFormat,
+        cloudEventsMode: dto.cloudEventsMode,
+        payloadTemplate: dto.payloadTemplate as Prisma.InputJsonValue | undefined,
+        headers: dto.headers,
+      },
+      omit: OMIT_SECRETS,
+    });
+
+    this.invalidate(sessionId);
+    return subscription;
+  }
+
+  /**
+   * Replace the signing secret. The previous secret keeps signing deliveries
+   * (as a second signature) until the grace period ends.
+   */
+  async rotateSecret(sessionId: string, subscriptionId: string, dto: RotateWebhookSecretDto) {
+    await this.getSubscription(sessionId, subscriptionId);
+
+    const current = await this.prisma.webhookSubscription.findUniqueOrThrow({
+      where: { id: subscriptionId },
+      select: { secret: true },
+    });
+    const gracePeriodMinutes = dto.gracePeriodMinutes ?? 1440;
+    const previousSecretExpiresAt = current.secret && gracePeriodMinutes > 0
+      ? new Date(Date.now() + gracePeriodMinutes * 60_000)
+      : null;
+
+    const subscription = await this.prisma.webhookSubscription.update({
+      where: { id: subscriptionId },
+      data: {
+        secret: generateSecret(),
+        previousSecret: previousSecretExpiresAt ? current.secret : null,
+        previousSecretExpiresAt,
+      },
+    });
+
+    this.logger.log(`Rotated webhook secret for subscription "${subscriptionId}"`);
+    return {
+      subscriptionId,
+      secret: subscription.secret,
+      previousSecretExpiresAt: subscription.previousSecretExpiresAt,
+    };
+  }
+
+  async deleteSubscription(sessionId: string, subscriptionId: string) {
+    await this.getSubscription(sessionId, subscriptionId);
+    await this.prisma.webhookSubscription.delete({ where: { id: subscriptionId } });
+
+    this.invalidate(sessionId);
+    return { subscriptionId, status: 'deleted' };
+  }
+
+  /**
+   * Queue a delivery for every enabled subscription whose event filter matches.
+   * `fallbackUrl` is the session-level webhook URL, which receives every event.
+   */
+  async dispatch(sessionId: string, event: string, data: unknown, fallbackUrl?: string) {
+    if (fallbackUrl) {
+      await this.queueService.addWebhookDeliveryJob(sessionId, fallbackUrl, event, data);
+    }
+
+    const subscriptions = await this.getEnabledSubscriptions(sessionId);
+    for (const subscription of subscriptions) {
+      if (!matchesEventFilter(subscription.events, event)) continue;
+
+      if (subscription.batchEnabled) {
+        await this.batcher.add(subscription, event, data);
+        continue;
+      }
+
+      if (!subscription.ordered) {
+        await this.queueService.addWebhookDeliveryJob(sessionId, subscription.url, event, data, subscription.id);
+        continue;
+      }
+
+      // Ordered subscriptions get one lane per chat, so an event spanning several chats is
+      // split up; chat-less events share a session lane
+      for (const part of splitByChat(event, data)) {
+        const lane = `${subscription.id}:${resolveChatJid(event, part) ?? '_session'}`;
+        await this.queueService.addWebhookDeliveryJob(sessionId, subscription.url, event, part, subscription.id, lane);
+      }
+    }
+  }
+
+  async listDeadLetters(sessionId: string, query: ListDeadLettersDto) {
+    await this.ensureSession(sessionId);
+
+    const where = this.buildLogWhere(sessionId, query, { deadLetter: true });
+    const limit = query.limit ?? 50;
+    const offset = query.offset ?? 0;
+
+    const [deadLetters, total] = await Promise.all([
+      this.prisma.webhookLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset,
+      }),
+      this.prisma.webhookLog.count({ where }),
+    ]);
+
+    return { deadLetters, total, limit, offset };
+  }
+
+  async replayDeadLetter(sessionId: string, logId: string) {
+    const deadLetter = await this.prisma.webhookLog.findFirst({
+      where: { id: logId, sessionId, deadLetter: true },
+      include: { subscription: true },
+    });
+    if (!deadLetter) throw new NotFoundException(`Dead letter "${logId}" not found`);
+
+    return this.replay([deadLetter]);
+  }
+
+  async replayDeadLetters(sessionId: string, dto: ReplayDeadLettersDto) {
+    await this.ensureSession(sessionId);
+
+    const deadLetters = await this.prisma.webhookLog.findMany({
+      where: this.buildLogWhere(sessionId, dto, { deadLetter: true }),
+      include: { subscription: true },
+      orderBy: { createdAt: 'asc' },
+      take: dto.limit ?? 1000,
+    });
+
+    return this.replay(deadLetters);
+  }
+
+  /**
+   * Send a synthetic event through the delivery queue and wait for the result.
+   * Uses the subscription's URL, secret, payload format and headers when given.
+   */
+  async sendTest(sessionId: string, dto: TestWebhookDto) {
+    const dbSession = await this.prisma.session.findUnique({ where: { id: sessionId } });
+    if (!dbSession) throw new NotFoundException(`Session "${sessionId}" not found`);
+
+    const subscription = dto.subscriptionId ? await this.getSubscription(sessionId, dto.subscriptionId) : undefined;
+    // The response ends up in the delivery log, so only receivers already configured for the session are reachable
+    if (!subscription && dto.url && dto.url !== dbSession.webhookUrl) {
+      const configured = await this.prisma.webhookSubscription.count({ where: { sessionId, url: dto.url } });
+      if (configured === 0) {
+        throw new BadRequestException('url must be the session webhook URL or the URL of one of its subscriptions');
+      }
+    }
+    const webhookUrl = subscription?.url ?? dto.url ?? dbSession.webhookUrl;
+    if (!webhookUrl) {
+      throw new BadRequestException('No webhook URL to test: pass a subscriptionId or url');
+    }
+
+    const deliveryId = await this.queueService.runWebhookTestDelivery(
+      {
+        sessionId,
+        subscriptionId: subscription?.id,
+        webhookUrl,
+        event: dto.event,
+        data: dto.data ?? buildSampleEventData(dto.event),
+      },
+      TEST_DELIVERY_TIMEOUT_MS,
+    );
+
+    const log = await this.prisma.webhookLog.findFirst({ where: { sessionId, deliveryId } });
+    if (!log) {
+      throw new GatewayTimeoutException(`Test delivery "${deliveryId}" did not finish in time`);
+    }
+    return log;
+  }
+
+  async listLogs(sessionId: string, query: ListWebhookLogsDto) {
+    await this.ensureSession(sessionId);
+
+    const where = this.buildLogWhere(sessionId, query, query.success !== undefined ? { success: query.success } : {});
+    const limit = query.limit ?? 50;
+    const offset = query.offset ?? 0;
+
+    const [logs, total] = await Promise.all([
+      this.prisma.webhookLog.findMany({
+        where,
+        omit: { requestHeaders: true },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset,
+      }),
+      this.prisma.webhookLog.count({ where }),
+    ]);
+
+    return { logs, total, limit, offset };
+  }
+
+  async getLog(sessionId: string, logId: string) {
+    const log = await this.prisma.webhookLog.findFirst({ where: { id: logId, sessionId } });
+    if (!log) throw new NotFoundException(`Webhook log "${logId}" not found`);
+    return log;
+  }
+
+  /**
+   * Drop the cached subscriptions of a session here and on the other replicas.
+   */
+  invalidate(sessionId: string) {
+    this.subscriptionCache.delete(sessionId);
+    this.clusterService.publish(INVALIDATE_CHANNEL, { sessionId }).catch((err: unknown) => {
+      this.logger.warn(`Failed to invalidate webhook subscriptions on other instances: ${err instanceof Error ? err.message : String(err)}`);
+    });
+  }
+
+  private getEnabledSubscriptions(sessionId: string): Promise<WebhookSubscription[]> {
+    const cached = this.subscriptionCache.get(sessionId);
+    if (cached && Date.now() < cached.expiresAt) return cached.subscriptions;
+
+    const pending = this.prisma.webhookSubscription
+      .findMany({ where: { sessionId, enabled: true } })
+      .then((subscriptions) => {
+        this.logger.debug(`Loaded ${subscriptions.length} webhook subscription(s) for "${sessionId}"`);
+        return subscriptions;
+      })
+      .catch((err: unknown) => {
+        this.subscriptionCache.delete(sessionId);
+        throw err;
+      });
+    this.subscriptionCache.set(sessionId, { subscriptions: pending, expiresAt: Date.now() + SUBSCRIPTION_CACHE_TTL_MS });
+    return pending;
+  }
+
+  /**
+   * Re-queue dead letters with their original payload. Deliveries go to the
+   * subscription's current URL so a moved receiver still gets the backlog.
+   */
+  private async replay(deadLetters: DeadLetter[]) {
+    if (deadLetters.length === 0) return { replayed: 0 };
+
+    const entries: WebhookReplayEntry[] = deadLetters.map((log) => {
+      const entry = {
+        sessionId: log.sessionId,
+        subscriptionId: log.subscriptionId ?? undefined,
+        webhookUrl: log.subscription?.url ?? log.url,
+        event: log.event,
+        timestamp: log.createdAt.toISOString(),
+        replayOf: log.id,
+      };
+
+      // Batched deliveries are logged with their array payload and replayed as one batch
+      if (Array.isArray(log.payload)) {
+        const events = log.payload as unknown as WebhookBatchEvent[];
+        return { ...entry, events: events.map(({ event, data, timestamp }) => ({ event, data, timestamp })) };
+      }
+
+      const payload = log.payload as unknown as { data?: unknown; timestamp?: string };
+      return { ...entry, data: payload.data, timestamp: payload.timestamp ?? entry.timestamp };
+    });
+
+    await this.queueService.addWebhookReplayJobs(entries);
+    await this.prisma.webhookLog.updateMany({
+      where: { id: { in: deadLetters.map((log) => log.id) } },
+      data: { deadLetter: false, replayedAt: new Date() },
+    });
+
+    this.logger.log(`Replaying ${entries.length} dead-lettered webhook(s)`);
+    return { replayed: entries.length };
+  }
+
+  private buildLogWhere(
+    sessionId: string,
+    filter: WebhookLogFilterDto,
+    extra: Prisma.WebhookLogWhereInput = {},
+  ): Prisma.WebhookLogWhereInput {
+    const where: Prisma.WebhookLogWhereInput = { sessionId, ...extra };
+    if (filter.event) where.event = filter.event;
+    if (filter.subscriptionId) where.subscriptionId = filter.subscriptionId;
+    if (filter.statusCode !== undefined) where.statusCode = filter.statusCode;
+    if (filter.from || filter.to) {
+      where.createdAt = {
+        ...(filter.from ? { gte: new Date(filter.from) } : {}),
+        ...(filter.to ? { lt: new Date(filter.to) } : {}),
+      };
+    }
+    return where;
+  }
+
+  private assertDeliveryMode(ordered?: boolean, batchEnabled?: boolean) {
+    if (ordered && batchEnabled) {
+      throw new BadRequestException('Ordered delivery cannot be combined with batching');
+    }
+  }
+
+  private assertPayloadFormat(
+    payloadFormat?: string,
+    cloudEventsMode?: string,
+    payloadTemplate?: unknown,
+    batchEnabled?: boolean,
+  ) {
+    if (payloadFormat === 'template' && (!payloadTemplate || typeof payloadTemplate !== 'object')) {
+      throw new BadRequestException('The template payload format requires a payloadTemplate object');
+    }
+    if (payloadFormat === 'cloudevents' && cloudEventsMode === 'binary' && batchEnabled) {
+      throw new BadRequestException('CloudEvents binary mode cannot be combined with batching');
+    }
+  }
+
+  private assertHeaders(headers: Record<string, unknown>) {
+    for (const [name, value] of Object.entries(headers)) {
+      if (!HEADER_NAME.test(name)) {
+        throw new BadRequestException(`Invalid header name "${name}"`);
+      }
+      const lower = name.toLowerCase();
+      if (RESERVED_HEADERS.includes(lower) || lower.startsWith('ce-')) {
+        throw new BadRequestException(`Header "${name}" is set by the delivery pipeline and cannot be overridden`);
+      }
+      if (typeof value !== 'string' || /[\r\n]/.test(value)) {
+        throw new BadRequestException(`Header "${name}" must be a single-line string`);
+      }
+    }
+  }
+
+  private async ensureSession(sessionId: string) {
+    const dbSession = await this.prisma.session.findUnique({ where: { id: sessionId } });
+    if (!dbSession) throw new NotFoundException(`Session "${sessionId}" not found`);
+  }
+}